@@ -1,5 +1,10 @@
 import JobTracker from "@/components/JobTracker";
+import { VaultGate } from "@/components/VaultGate";
 
 export default function AppPage() {
-  return <JobTracker />;
+  return (
+    <VaultGate>
+      <JobTracker />
+    </VaultGate>
+  );
 }
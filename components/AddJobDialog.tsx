@@ -44,6 +44,8 @@ import { ContactManager } from "@/components/ContactManager";
 import { notificationService } from "@/lib/notificationService";
 import { accessibilityService } from "@/lib/accessibilityService";
 import { documentService } from "@/lib/documentService";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import {
   FileText,
   Users,
@@ -56,7 +58,7 @@ import {
 } from "lucide-react";
 
 interface AddJobDialogProps {
-  onAddJob: (job: Omit<JobApplication, "id">) => JobApplication;
+  onAddJob: (job: Omit<JobApplication, "id">) => Promise<JobApplication>;
   children: React.ReactNode;
 }
 
@@ -67,6 +69,7 @@ export function AddJobDialog({ onAddJob, children }: AddJobDialogProps) {
   const [contactDialogOpen, setContactDialogOpen] = useState(false);
   const [contacts, setContacts] = useState<Contact[]>([]);
   const [linkedDocuments, setLinkedDocuments] = useState<Document[]>([]);
+  const stages = usePipelineStages();
 
   const form = useForm<JobApplicationFormData>({
     resolver: zodResolver(jobApplicationSchema),
@@ -81,7 +84,7 @@ export function AddJobDialog({ onAddJob, children }: AddJobDialogProps) {
       },
       jobType: "full-time",
       workMode: "on-site",
-      status: "applied",
+      status: pipelineStageService.getInitialStage().id,
       experienceLevel: "mid",
       category: "",
       priority: "medium",
@@ -121,7 +124,7 @@ export function AddJobDialog({ onAddJob, children }: AddJobDialogProps) {
       };
 
       // Call onAddJob which will return the job with the generated ID
-      const createdJob = onAddJob(newJob);
+      const createdJob = await onAddJob(newJob);
 
       console.log("Job created successfully:", createdJob);
 
@@ -210,7 +213,8 @@ export function AddJobDialog({ onAddJob, children }: AddJobDialogProps) {
   const handleAddContact = (contact: Omit<Contact, "id">) => {
     const newContact: Contact = {
       ...contact,
-      id: `contact-${Date.now()}`,
+      // Imports add several contacts within the same millisecond
+      id: `contact-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
     };
     setContacts((prev) => [...prev, newContact]);
     accessibilityService.announce(`Contact ${contact.name} added`);
@@ -513,11 +517,11 @@ export function AddJobDialog({ onAddJob, children }: AddJobDialogProps) {
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="applied">Applied</SelectItem>
-                        <SelectItem value="shortlisted">Shortlisted</SelectItem>
-                        <SelectItem value="interview">Interview</SelectItem>
-                        <SelectItem value="rejected">Rejected</SelectItem>
-                        <SelectItem value="offered">Offered</SelectItem>
+                        {stages.map((stage) => (
+                          <SelectItem key={stage.id} value={stage.id}>
+                            {stage.name}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -809,6 +813,7 @@ export function AddJobDialog({ onAddJob, children }: AddJobDialogProps) {
           </DialogHeader>
           <ContactManager
             contacts={contacts}
+            company={form.watch("company")}
             onAddContact={handleAddContact}
             onUpdateContact={handleUpdateContact}
             onDeleteContact={handleDeleteContact}
@@ -28,6 +28,7 @@ import {
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Filter, X, ArrowUpDown } from "lucide-react";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 
 interface AdvancedFiltersProps {
   filters: FilterOptions;
@@ -46,6 +47,7 @@ export function AdvancedFilters({
   onClearFilters,
   categories,
 }: AdvancedFiltersProps) {
+  const stages = usePipelineStages();
   const [open, setOpen] = useState(false);
 
   const handleFilterChange = (key: keyof FilterOptions, value: string) => {
@@ -157,11 +159,11 @@ export function AdvancedFilters({
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Status</SelectItem>
-                      <SelectItem value="applied">Applied</SelectItem>
-                      <SelectItem value="shortlisted">Shortlisted</SelectItem>
-                      <SelectItem value="interview">Interview</SelectItem>
-                      <SelectItem value="rejected">Rejected</SelectItem>
-                      <SelectItem value="offered">Offered</SelectItem>
+                      {stages.map((stage) => (
+                        <SelectItem key={stage.id} value={stage.id}>
+                          {stage.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -0,0 +1,233 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  AlertTriangle,
+  Archive,
+  Download,
+  FolderOpen,
+  RotateCcw,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { LoadingSpinner } from "@/components/ui/animations";
+import {
+  backupService,
+  BackupArchive,
+  BackupPassphraseError,
+} from "@/lib/backupService";
+import { DataExportService } from "@/lib/dataExportService";
+
+interface BackupDialogProps {
+  file?: File | null; // a backup picked through the main import button
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored?: () => void;
+}
+
+export function BackupDialog({
+  file,
+  open,
+  onOpenChange,
+  onRestored,
+}: BackupDialogProps) {
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [needsPassphrase, setNeedsPassphrase] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (open) return;
+    setArchive(null);
+    setPendingFile(null);
+    setNeedsPassphrase(false);
+    setPassphrase("");
+    setError(null);
+  }, [open]);
+
+  const run = useCallback(
+    async (task: () => Promise<void>, fallback: string) => {
+      setBusy(true);
+      setError(null);
+      try {
+        await task();
+      } catch (taskError) {
+        console.error(fallback, taskError);
+        setError(taskError instanceof Error ? taskError.message : fallback);
+      } finally {
+        setBusy(false);
+      }
+    },
+    []
+  );
+
+  const handleDownload = () =>
+    run(async () => {
+      const timestamp = new Date().toISOString().split("T")[0];
+      DataExportService.downloadFile(
+        await backupService.createBackup(),
+        `applitrack-backup-${timestamp}.zip`,
+        "application/zip"
+      );
+    }, "Failed to create backup");
+
+  const readBackup = useCallback(
+    (backup: File, withPassphrase?: string) => {
+      setArchive(null);
+      setPendingFile(backup);
+      run(async () => {
+        try {
+          setArchive(await backupService.readBackup(backup, withPassphrase));
+          setNeedsPassphrase(false);
+        } catch (readError) {
+          if (readError instanceof BackupPassphraseError) {
+            setNeedsPassphrase(true);
+            // Asking for it is not an error; a wrong one is
+            if (!withPassphrase) return;
+          }
+          throw readError;
+        } finally {
+          setPassphrase("");
+        }
+      }, "Failed to read backup");
+    },
+    [run]
+  );
+
+  // A file handed in from the main import button
+  useEffect(() => {
+    if (open && file) readBackup(file);
+  }, [open, file, readBackup]);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = event.target.files?.[0];
+    event.target.value = "";
+    if (!selected) return;
+
+    setNeedsPassphrase(false);
+    readBackup(selected);
+  };
+
+  const handleRestore = () =>
+    run(async () => {
+      if (!archive) return;
+      await backupService.restore(archive);
+      setArchive(null);
+      setPendingFile(null);
+      onRestored?.();
+    }, "Failed to restore backup");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5" />
+            Full backup
+          </DialogTitle>
+          <DialogDescription>
+            One zip file with your applications, documents, templates, rules,
+            presets and settings. Restore it here or in another browser. While
+            encryption is on, backups are encrypted with your passphrase.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Button onClick={handleDownload} disabled={busy} className="w-full">
+            <Download className="h-4 w-4 mr-2" />
+            Download backup
+          </Button>
+
+          <div className="border-t pt-4 space-y-3">
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy}
+              className="w-full"
+            >
+              <FolderOpen className="h-4 w-4 mr-2" />
+              Choose backup to restore
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+
+            {busy && !archive && pendingFile && <LoadingSpinner size="sm" />}
+
+            {needsPassphrase && pendingFile && !archive && (
+              <form
+                className="flex gap-2"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  readBackup(pendingFile, passphrase);
+                }}
+              >
+                <Input
+                  type="password"
+                  placeholder="Backup passphrase"
+                  aria-label="Backup passphrase"
+                  value={passphrase}
+                  onChange={(event) => setPassphrase(event.target.value)}
+                  autoFocus
+                />
+                <Button type="submit" disabled={busy || !passphrase}>
+                  Open
+                </Button>
+              </form>
+            )}
+
+            {archive && (
+              <Card className="p-3 space-y-2">
+                <p className="text-sm font-medium">
+                  Backup from {new Date(archive.createdAt).toLocaleString()}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {archive.counts.applications} applications ·{" "}
+                  {archive.counts.documentFiles} of {archive.counts.documents}{" "}
+                  document files · {archive.counts.templates} templates ·{" "}
+                  {archive.counts.rules} rules · {archive.counts.presets}{" "}
+                  presets
+                </p>
+                {archive.storeLabels.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Also restores: {archive.storeLabels.join(", ")}
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Everything currently stored is replaced. A snapshot is taken
+                  first, so you can undo this from Snapshots.
+                </p>
+                <Button size="sm" onClick={handleRestore} disabled={busy}>
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Restore this backup
+                </Button>
+              </Card>
+            )}
+
+            {error && (
+              <p className="text-sm text-destructive flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {error}
+              </p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import { AlertTriangle } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { CSV_COLUMNS, CSVMapping, missingCSVColumns } from "@/lib/csvColumns";
+
+interface CSVColumnMapperProps {
+  headers: string[];
+  rows: string[][];
+  mapping: CSVMapping;
+  onMappingChange: (mapping: CSVMapping) => void;
+}
+
+const IGNORE = "__ignore";
+
+export function CSVColumnMapper({
+  headers,
+  rows,
+  mapping,
+  onMappingChange,
+}: CSVColumnMapperProps) {
+  const missing = missingCSVColumns(mapping);
+
+  // First non-empty value in the column, so users can tell columns apart
+  const sampleFor = (index: number) =>
+    rows.find((row) => row[index]?.trim())?.[index] || "";
+
+  const handleChange = (index: number, value: string) => {
+    const columnId = value === IGNORE ? null : value;
+    // A field can only come from one column
+    onMappingChange(
+      mapping.map((current, i) =>
+        i === index ? columnId : current === columnId ? null : current
+      )
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Match each column in the file to an application field. {rows.length} row
+        {rows.length === 1 ? "" : "s"} found.
+      </p>
+
+      <ScrollArea className="h-[45vh] pr-3">
+        <div className="space-y-2">
+          {headers.map((header, index) => (
+            <div
+              key={index}
+              className="grid grid-cols-1 sm:grid-cols-2 items-center gap-2 rounded-md border p-3"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {header || `Column ${index + 1}`}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {sampleFor(index) || "No values"}
+                </p>
+              </div>
+              <Select
+                value={mapping[index] || IGNORE}
+                onValueChange={(value) => handleChange(index, value)}
+              >
+                <SelectTrigger
+                  className="w-full"
+                  aria-label={`Field for ${header}`}
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={IGNORE}>Don&apos;t import</SelectItem>
+                  {CSV_COLUMNS.map((column) => (
+                    <SelectItem key={column.id} value={column.id}>
+                      {column.header}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+
+      {missing.length > 0 && (
+        <p className="text-sm text-destructive flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          Choose a column for:{" "}
+          {missing.map((column) => column.header).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
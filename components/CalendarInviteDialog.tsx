@@ -0,0 +1,250 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, CalendarCheck, Link2, UserPlus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { JobApplication } from "@/types/job";
+import {
+  CalendarInvite,
+  InviteMatchReason,
+  applyInvite,
+  inviteOrganizerContact,
+  matchInvite,
+  parseCalendarInvites,
+} from "@/lib/calendarImport";
+
+interface CalendarInviteDialogProps {
+  file: File | null;
+  jobs: JobApplication[];
+  jobId?: string; // set when the file was dropped on a specific job
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onApply: (jobId: string, updates: Partial<JobApplication>) => Promise<void>;
+}
+
+const reasonLabels: Record<InviteMatchReason, string> = {
+  uid: "Exported from this job",
+  organizer: "Organizer's email domain",
+  company: "Company named in invite",
+  role: "Role named in invite",
+};
+
+export function CalendarInviteDialog({
+  file,
+  jobs,
+  jobId,
+  open,
+  onOpenChange,
+  onApply,
+}: CalendarInviteDialogProps) {
+  const [invites, setInvites] = useState<CalendarInvite[]>([]);
+  const [inviteIndex, setInviteIndex] = useState(0);
+  const [selectedJobId, setSelectedJobId] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !file) return;
+
+    setError(null);
+    setApplyError(null);
+    setInvites([]);
+    file
+      .text()
+      .then((text) => {
+        const parsed = parseCalendarInvites(text);
+        // Default to the next upcoming event in files with several
+        const upcoming = parsed.findIndex(
+          (invite) => invite.start.getTime() >= Date.now()
+        );
+        setInvites(parsed);
+        setInviteIndex(Math.max(upcoming, 0));
+      })
+      .catch((err) =>
+        setError(
+          err instanceof Error ? err.message : "Failed to read calendar file"
+        )
+      );
+  }, [open, file]);
+
+  const invite = invites[inviteIndex];
+  const matches = useMemo(
+    () => (invite ? matchInvite(invite, jobs) : []),
+    [invite, jobs]
+  );
+
+  // A job it was dropped on wins over the best guess
+  useEffect(() => {
+    setSelectedJobId(jobId || matches[0]?.job.id || "");
+  }, [jobId, matches]);
+
+  const job = jobs.find((item) => item.id === selectedJobId);
+  const match = matches.find((item) => item.job.id === selectedJobId);
+  const newContact = invite && job && inviteOrganizerContact(invite, job);
+  // Matched applications first, then everything else
+  const jobOptions = [
+    ...matches.map((item) => item.job),
+    ...jobs.filter((item) => !matches.some((m) => m.job.id === item.id)),
+  ];
+
+  const handleApply = async () => {
+    if (!invite || !job) return;
+
+    setApplying(true);
+    setApplyError(null);
+    try {
+      await onApply(job.id, applyInvite(job, invite));
+      onOpenChange(false);
+    } catch (err) {
+      setApplyError(
+        err instanceof Error ? err.message : "Failed to add interview"
+      );
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const formatStart = (item: CalendarInvite) =>
+    item.allDay
+      ? item.start.toLocaleDateString()
+      : item.start.toLocaleString([], {
+          dateStyle: "medium",
+          timeStyle: "short",
+        });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarCheck className="h-5 w-5" />
+            Add interview from invite
+          </DialogTitle>
+          <DialogDescription>{file?.name}</DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            {error}
+          </p>
+        ) : !invite ? (
+          <p className="text-sm text-muted-foreground">Reading invite…</p>
+        ) : (
+          <div className="space-y-4">
+            {invites.length > 1 ? (
+              <div className="space-y-2">
+                <Label htmlFor="invite-event">Event</Label>
+                <Select
+                  value={String(inviteIndex)}
+                  onValueChange={(value) => setInviteIndex(Number(value))}
+                >
+                  <SelectTrigger id="invite-event" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {invites.map((item, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {item.summary || "Untitled event"} · {formatStart(item)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ) : (
+              <div>
+                <p className="font-medium">
+                  {invite.summary || "Untitled event"}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  {formatStart(invite)}
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="invite-job">Application</Label>
+              <Select value={selectedJobId} onValueChange={setSelectedJobId}>
+                <SelectTrigger id="invite-job" className="w-full">
+                  <SelectValue placeholder="Choose an application" />
+                </SelectTrigger>
+                <SelectContent>
+                  {jobOptions.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.role} at {item.company}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {match ? (
+                <Badge variant="secondary">{reasonLabels[match.reason]}</Badge>
+              ) : (
+                matches.length === 0 &&
+                !jobId && (
+                  <p className="text-xs text-muted-foreground">
+                    No application matched this invite; pick one above.
+                  </p>
+                )
+              )}
+            </div>
+
+            {job && (
+              <div className="rounded-md border p-3 space-y-2 text-sm">
+                <p className="flex items-center gap-2">
+                  <CalendarCheck className="h-4 w-4 text-muted-foreground" />
+                  Interview on {formatStart(invite)}
+                </p>
+                {invite.meetingLink && (
+                  <p className="flex items-center gap-2 min-w-0">
+                    <Link2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{invite.meetingLink}</span>
+                  </p>
+                )}
+                {newContact && (
+                  <p className="flex items-center gap-2">
+                    <UserPlus className="h-4 w-4 text-muted-foreground" />
+                    Add {newContact.name} as a contact
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {applyError && (
+          <p className="text-sm text-destructive flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            {applyError}
+          </p>
+        )}
+
+        <DialogFooter className="flex flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!invite || !job || applying}>
+            Add interview
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
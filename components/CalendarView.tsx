@@ -0,0 +1,346 @@
+"use client";
+
+import { createContext, useContext, useEffect, useMemo, useState } from "react";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  format,
+  isSameDay,
+  isToday,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+import { DayProps } from "react-day-picker";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { JobApplication } from "@/types/job";
+import {
+  notificationService,
+  SmartNotification,
+} from "@/lib/notificationService";
+import {
+  CalendarEvent,
+  EVENT_KIND_CLASSES,
+  EVENT_KIND_LABELS,
+  collectCalendarEvents,
+  eventsOn,
+  moveDateValue,
+  moveToDay,
+} from "@/lib/calendarEvents";
+import { Calendar } from "@/components/ui/calendar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+
+type CalendarMode = "month" | "week" | "agenda";
+
+const AGENDA_DAYS = 30;
+const EVENT_DRAG_TYPE = "application/x-applitrack-event";
+
+interface CalendarViewProps {
+  jobs: JobApplication[];
+  onOpenJob: (job: JobApplication) => void;
+  onReschedule: (id: string, updates: Partial<JobApplication>) => void;
+}
+
+const timeLabel = (event: CalendarEvent) =>
+  event.allDay ? "" : format(event.date, "HH:mm");
+
+interface MonthDayContextValue {
+  events: CalendarEvent[];
+  overDay: string | null;
+  dropTarget: (day: Date) => React.HTMLAttributes<HTMLElement>;
+  renderChip: (event: CalendarEvent) => React.ReactNode;
+}
+
+// Read by the month cells so the Day component stays the same across renders
+const MonthDayContext = createContext<MonthDayContextValue | null>(null);
+
+// Month cells keep the day button and list that day's events under it
+function MonthDay({ day, modifiers, children, ...props }: DayProps) {
+  const context = useContext(MonthDayContext);
+  if (!context) return <td {...props}>{children}</td>;
+
+  const { events, overDay, dropTarget, renderChip } = context;
+  const dayEvents = eventsOn(events, day.date);
+  return (
+    <td
+      {...props}
+      {...dropTarget(day.date)}
+      className={`${props.className || ""} ${
+        overDay === day.date.toDateString() ? "bg-primary/10" : ""
+      } ${modifiers.outside ? "opacity-60" : ""}`}
+    >
+      {children}
+      <div className="mt-1 space-y-0.5">
+        {dayEvents.slice(0, 3).map(renderChip)}
+        {dayEvents.length > 3 && (
+          <p className="text-[11px] text-muted-foreground">
+            +{dayEvents.length - 3} more
+          </p>
+        )}
+      </div>
+    </td>
+  );
+}
+
+export function CalendarView({
+  jobs,
+  onOpenJob,
+  onReschedule,
+}: CalendarViewProps) {
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+  const [notifications, setNotifications] = useState<SmartNotification[]>(() =>
+    notificationService.getNotifications()
+  );
+  const [overDay, setOverDay] = useState<string | null>(null);
+
+  // The unread count listener fires on every change to the notifications
+  useEffect(
+    () =>
+      notificationService.onUnreadCountChange(() =>
+        setNotifications(notificationService.getNotifications())
+      ),
+    []
+  );
+
+  const events = useMemo(
+    () => collectCalendarEvents(jobs, notifications),
+    [jobs, notifications]
+  );
+
+  // Rounds and follow-ups move the job's dates, reminders just themselves
+  const handleDrop = (event: React.DragEvent, day: Date) => {
+    const id = event.dataTransfer.getData(EVENT_DRAG_TYPE);
+    setOverDay(null);
+    const moved = events.find((item) => item.id === id);
+    if (!moved) return;
+
+    event.preventDefault();
+    if (isSameDay(moved.date, day)) return;
+
+    const { interview, notification, job } = moved;
+    if (notification) {
+      notificationService.rescheduleNotification(
+        notification.id,
+        moveToDay(moved.date, day)
+      );
+    } else if (interview) {
+      onReschedule(job.id, {
+        interviews: (job.interviews || []).map((item) =>
+          item.id === interview.id
+            ? { ...item, scheduledAt: moveDateValue(item.scheduledAt, day) }
+            : item
+        ),
+      });
+    } else {
+      onReschedule(job.id, {
+        followUpDate: moveDateValue(job.followUpDate || "", day),
+      });
+    }
+  };
+
+  const dropTarget = (day: Date) => ({
+    onDragOver: (event: React.DragEvent) => {
+      if (!event.dataTransfer.types.includes(EVENT_DRAG_TYPE)) return;
+      event.preventDefault();
+      setOverDay(day.toDateString());
+    },
+    onDragLeave: () => setOverDay(null),
+    onDrop: (event: React.DragEvent) => handleDrop(event, day),
+  });
+
+  const renderChip = (event: CalendarEvent) => (
+    <button
+      key={event.id}
+      type="button"
+      draggable
+      onDragStart={(dragEvent) =>
+        dragEvent.dataTransfer.setData(EVENT_DRAG_TYPE, event.id)
+      }
+      onClick={() => onOpenJob(event.job)}
+      title={`${EVENT_KIND_LABELS[event.kind]}: ${event.title} (${
+        event.job.role
+      })`}
+      className={`block w-full truncate rounded border px-1 text-left text-[11px] leading-4 cursor-grab ${
+        EVENT_KIND_CLASSES[event.kind]
+      }`}
+    >
+      {timeLabel(event)} {event.title}
+    </button>
+  );
+
+  const renderAgendaRow = (event: CalendarEvent) => (
+    <button
+      key={event.id}
+      type="button"
+      onClick={() => onOpenJob(event.job)}
+      className="flex w-full items-center gap-3 rounded-md px-2 py-1.5 text-left text-sm hover:bg-muted"
+    >
+      <span className="w-12 shrink-0 text-muted-foreground tabular-nums">
+        {timeLabel(event) || "All day"}
+      </span>
+      <Badge
+        variant="outline"
+        className={`shrink-0 ${EVENT_KIND_CLASSES[event.kind]}`}
+      >
+        {EVENT_KIND_LABELS[event.kind]}
+      </Badge>
+      <span className="truncate">
+        {event.title}
+        <span className="text-muted-foreground"> · {event.job.role}</span>
+      </span>
+    </button>
+  );
+
+  const weekStart = startOfWeek(cursor);
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const agendaDays = Array.from({ length: AGENDA_DAYS }, (_, i) =>
+    addDays(cursor, i)
+  ).filter((day) => eventsOn(events, day).length > 0);
+
+  const step = (offset: 1 | -1) =>
+    setCursor((current) =>
+      mode === "month"
+        ? addMonths(current, offset)
+        : mode === "week"
+          ? addWeeks(current, offset)
+          : addDays(current, offset * AGENDA_DAYS)
+    );
+
+  const title =
+    mode === "month"
+      ? format(cursor, "MMMM yyyy")
+      : mode === "week"
+        ? `${format(weekStart, "MMM d")} – ${format(
+            addDays(weekStart, 6),
+            "MMM d, yyyy"
+          )}`
+        : `${format(cursor, "MMM d")} – ${format(
+            addDays(cursor, AGENDA_DAYS - 1),
+            "MMM d, yyyy"
+          )}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => step(-1)}
+            aria-label="Previous"
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCursor(startOfDay(new Date()))}
+          >
+            Today
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => step(1)}
+            aria-label="Next"
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="ml-2 font-semibold">{title}</h2>
+        </div>
+        <div className="flex rounded-md border" role="group">
+          {(["month", "week", "agenda"] as CalendarMode[]).map((item) => (
+            <Button
+              key={item}
+              variant={mode === item ? "secondary" : "ghost"}
+              size="sm"
+              className="capitalize"
+              onClick={() => setMode(item)}
+              aria-pressed={mode === item}
+            >
+              {item}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {mode === "month" && (
+        <div className="space-y-4">
+          <MonthDayContext.Provider
+            value={{ events, overDay, dropTarget, renderChip }}
+          >
+            <Calendar
+              mode="single"
+              selected={cursor}
+              onSelect={(day) => day && setCursor(day)}
+              month={cursor}
+              onMonthChange={setCursor}
+              hideNavigation
+              className="w-full p-0 [--cell-size:--spacing(7)]"
+              classNames={{
+                root: "w-full",
+                month_caption: "hidden",
+                day: "relative w-full h-28 border p-1 align-top text-left overflow-hidden group/day select-none",
+              }}
+              components={{ Day: MonthDay }}
+            />
+          </MonthDayContext.Provider>
+
+          <div>
+            <h3 className="mb-1 text-sm font-medium">
+              {format(cursor, "EEEE, MMMM d")}
+            </h3>
+            {eventsOn(events, cursor).length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing scheduled</p>
+            ) : (
+              eventsOn(events, cursor).map(renderAgendaRow)
+            )}
+          </div>
+        </div>
+      )}
+
+      {mode === "week" && (
+        <div className="grid grid-cols-7 gap-2 overflow-x-auto">
+          {weekDays.map((day) => (
+            <div
+              key={day.toISOString()}
+              {...dropTarget(day)}
+              className={`min-h-64 min-w-28 rounded-md border p-2 space-y-1 ${
+                overDay === day.toDateString() ? "bg-primary/10" : ""
+              }`}
+            >
+              <div
+                className={`text-xs font-medium ${
+                  isToday(day) ? "text-primary" : "text-muted-foreground"
+                }`}
+              >
+                {format(day, "EEE d")}
+              </div>
+              {eventsOn(events, day).map(renderChip)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {mode === "agenda" &&
+        (agendaDays.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            Nothing scheduled in the next {AGENDA_DAYS} days
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {agendaDays.map((day) => (
+              <div key={day.toISOString()}>
+                <h3 className="mb-1 text-sm font-medium">
+                  {format(day, "EEEE, MMMM d")}
+                </h3>
+                {eventsOn(events, day).map(renderAgendaRow)}
+              </div>
+            ))}
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AlertTriangle, Contact as ContactIcon } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { JobApplication } from "@/types/job";
+import { DataExportService } from "@/lib/dataExportService";
+import { jobStorage } from "@/lib/jobStorage";
+import { ImportedContact, matchContactJob, newContacts } from "@/lib/vcard";
+
+interface ContactImportDialogProps {
+  file: File | null;
+  jobs: JobApplication[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (message: string) => void;
+}
+
+interface ContactRow {
+  contact: ImportedContact;
+  jobId: string; // "" to skip
+}
+
+const SKIP = "skip";
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+// Cards from the main import go to the application their ORG names, or one
+// picked by hand
+export function ContactImportDialog({
+  file,
+  jobs,
+  open,
+  onOpenChange,
+  onImported,
+}: ContactImportDialogProps) {
+  const [rows, setRows] = useState<ContactRow[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const jobsRef = useRef(jobs);
+  useEffect(() => {
+    jobsRef.current = jobs;
+  }, [jobs]);
+
+  // Matched once per file so later board updates don't reset choices
+  useEffect(() => {
+    if (!open || !file) return;
+
+    setError(null);
+    setRows([]);
+    DataExportService.importFromVCard(file)
+      .then((contacts) =>
+        setRows(
+          contacts.map((contact) => ({
+            contact,
+            jobId: matchContactJob(contact, jobsRef.current)?.id || "",
+          }))
+        )
+      )
+      .catch((err) =>
+        setError(err instanceof Error ? err.message : "Failed to read vCard")
+      );
+  }, [open, file]);
+
+  // Already on the chosen application, or earlier in the file
+  const isDuplicate = (index: number) => {
+    const { contact, jobId } = rows[index];
+    const job = jobs.find((item) => item.id === jobId);
+    if (!job) return false;
+    const before = rows
+      .slice(0, index)
+      .filter((row) => row.jobId === jobId)
+      .map((row) => row.contact);
+    return (
+      newContacts([...(job.contacts || []), ...before], [contact]).duplicates >
+      0
+    );
+  };
+
+  const setJob = (index: number, jobId: string) =>
+    setRows((prev) =>
+      prev.map((row, i) =>
+        i === index ? { ...row, jobId: jobId === SKIP ? "" : jobId } : row
+      )
+    );
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+    try {
+      let added = 0;
+      let duplicates = 0;
+      const jobIds = Array.from(
+        new Set(rows.map((row) => row.jobId).filter(Boolean))
+      );
+
+      for (const jobId of jobIds) {
+        const job = jobs.find((item) => item.id === jobId);
+        if (!job) continue;
+        const result = newContacts(
+          job.contacts || [],
+          rows.filter((row) => row.jobId === jobId).map((row) => row.contact)
+        );
+        duplicates += result.duplicates;
+        if (result.added.length === 0) continue;
+
+        await jobStorage.update(jobId, {
+          contacts: [
+            ...(job.contacts || []),
+            ...result.added.map(
+              ({ name, title, email, phone, linkedIn, type }) => ({
+                id: crypto.randomUUID(),
+                name,
+                title,
+                email,
+                phone,
+                linkedIn,
+                type,
+              })
+            ),
+          ],
+        });
+        added += result.added.length;
+      }
+
+      const skipped = rows.filter((row) => !row.jobId).length;
+      onImported(
+        `Imported ${plural(added, "contact")}` +
+          (duplicates > 0 ? `, skipped ${duplicates} already added` : "") +
+          (skipped > 0 ? `, ${skipped} without an application` : "")
+      );
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const assigned = rows.filter(
+    (row, index) => row.jobId && !isDuplicate(index)
+  ).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ContactIcon className="h-5 w-5" />
+            Import contacts
+          </DialogTitle>
+          <DialogDescription>
+            {file?.name}. Contacts are matched to applications by company.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <p className="text-sm text-destructive flex items-center gap-2">
+            <AlertTriangle className="h-4 w-4" />
+            {error}
+          </p>
+        )}
+
+        {rows.length > 0 && (
+          <ScrollArea className="max-h-[55vh] pr-3">
+            <div className="space-y-2">
+              {rows.map((row, index) => (
+                <div
+                  key={index}
+                  className="flex flex-wrap items-center gap-2 rounded-md border p-2"
+                >
+                  <div className="flex-1 min-w-[10rem]">
+                    <p className="text-sm font-medium truncate">
+                      {row.contact.name}
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[
+                        row.contact.title,
+                        row.contact.company,
+                        row.contact.email,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                  {isDuplicate(index) && (
+                    <Badge variant="outline" className="text-xs">
+                      Already added
+                    </Badge>
+                  )}
+                  <Select
+                    value={row.jobId || SKIP}
+                    onValueChange={(jobId) => setJob(index, jobId)}
+                  >
+                    <SelectTrigger
+                      className="w-56"
+                      aria-label={`Application for ${row.contact.name}`}
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP}>Don&apos;t import</SelectItem>
+                      {jobs.map((job) => (
+                        <SelectItem key={job.id} value={job.id}>
+                          {job.company} — {job.role}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter className="flex flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importing || assigned === 0}>
+            Import {plural(assigned, "contact")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
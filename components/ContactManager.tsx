@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -31,6 +31,9 @@ import {
 } from "@/components/ui/form";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
+import { DataExportService } from "@/lib/dataExportService";
+import { accessibilityService } from "@/lib/accessibilityService";
+import { isSameCompany, newContacts } from "@/lib/vcard";
 import {
   Plus,
   User,
@@ -40,6 +43,8 @@ import {
   Trash2,
   Edit,
   Linkedin,
+  Download,
+  Upload,
 } from "lucide-react";
 
 const contactSchema = z.object({
@@ -59,6 +64,7 @@ type ContactFormData = z.infer<typeof contactSchema>;
 
 interface ContactManagerProps {
   contacts: Contact[];
+  company?: string; // the ORG of exported vCards
   onAddContact: (contact: Omit<Contact, "id">) => void;
   onUpdateContact: (id: string, contact: Partial<Contact>) => void;
   onDeleteContact: (id: string) => void;
@@ -66,12 +72,15 @@ interface ContactManagerProps {
 
 export function ContactManager({
   contacts,
+  company,
   onAddContact,
   onUpdateContact,
   onDeleteContact,
 }: ContactManagerProps) {
   const [open, setOpen] = useState(false);
   const [editingContact, setEditingContact] = useState<Contact | null>(null);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const form = useForm<ContactFormData>({
     resolver: zodResolver(contactSchema),
@@ -128,6 +137,40 @@ export function ContactManager({
     form.reset();
   };
 
+  // Contacts whose email is already on this application are skipped
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = await DataExportService.importFromVCard(file);
+      const { added, duplicates } = newContacts(contacts, imported);
+      added.forEach(({ name, title, email, phone, linkedIn, type }) =>
+        onAddContact({ name, title, email, phone, linkedIn, type })
+      );
+      // Still added, since agency recruiters list their own firm
+      const elsewhere = company
+        ? added.filter(
+            (contact) =>
+              contact.company && !isSameCompany(contact.company, company)
+          ).length
+        : 0;
+
+      const message =
+        `Imported ${added.length} contact${added.length === 1 ? "" : "s"}` +
+        (duplicates > 0 ? `, skipped ${duplicates} already added` : "") +
+        (elsewhere > 0 ? `; ${elsewhere} list another company` : "");
+      setImportMessage(message);
+      accessibilityService.announce(message);
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Failed to import contacts";
+      setImportMessage(message);
+      accessibilityService.announce(message, "assertive");
+    }
+  };
+
   const getTypeLabel = (type: string) => {
     switch (type) {
       case "hiring-manager":
@@ -287,6 +330,36 @@ export function ContactManager({
         </Dialog>
       </div>
 
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => importInputRef.current?.click()}
+        >
+          <Upload className="h-4 w-4 mr-2" />
+          Import vCard
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".vcf,.vcard,text/vcard"
+          onChange={handleImport}
+          className="hidden"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => DataExportService.exportContactList(contacts, company)}
+          disabled={contacts.length === 0}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export vCard
+        </Button>
+        {importMessage && (
+          <span className="text-sm text-muted-foreground">{importMessage}</span>
+        )}
+      </div>
+
       {contacts.length === 0 ? (
         <div className="text-center py-8 text-muted-foreground">
           <User className="h-12 w-12 mx-auto mb-4 opacity-50" />
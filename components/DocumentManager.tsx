@@ -28,6 +28,7 @@ import {
   FileType,
   Calendar,
   HardDrive,
+  Eye,
 } from "lucide-react";
 
 interface DocumentManagerProps {
@@ -53,6 +54,8 @@ export function DocumentManager({
 
   useEffect(() => {
     loadData();
+    // Pick up uploads and deletions made in other tabs
+    return documentService.onChange(loadData);
   }, [jobId]);
 
   const loadData = () => {
@@ -101,6 +104,10 @@ export function DocumentManager({
     documentService.downloadDocument(id);
   };
 
+  const handlePreviewDocument = (id: string) => {
+    documentService.previewDocument(id);
+  };
+
   const handleDocumentSelect = (document: Document) => {
     if (onDocumentSelect) {
       onDocumentSelect(document);
@@ -275,6 +282,19 @@ export function DocumentManager({
                           </Button>
                         )}
 
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handlePreviewDocument(document.id);
+                          }}
+                          className="h-8 w-8 p-0"
+                          title="Preview document"
+                        >
+                          <Eye className="h-3 w-3" />
+                        </Button>
+
                         <Button
                           size="sm"
                           variant="ghost"
@@ -1,14 +1,16 @@
 "use client";
 
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
-import { JobApplication } from "@/types/job";
+import { Users } from "lucide-react";
+import { Contact, JobApplication } from "@/types/job";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Dialog,
   DialogContent,
+  DialogDescription,
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
@@ -29,6 +31,8 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { ContactManager } from "@/components/ContactManager";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 
 interface EditJobDialogProps {
   job: JobApplication;
@@ -48,7 +52,7 @@ type FormData = {
   };
   jobType: "full-time" | "part-time" | "contract" | "freelance" | "internship";
   workMode: "remote" | "on-site" | "hybrid";
-  status: "applied" | "shortlisted" | "interview" | "rejected" | "offered";
+  status: string;
   experienceLevel: "entry" | "mid" | "senior" | "lead" | "executive";
   category: string;
   jobPostingUrl: string;
@@ -62,6 +66,9 @@ export function EditJobDialog({
   onOpenChange,
   onUpdateJob,
 }: EditJobDialogProps) {
+  const stages = usePipelineStages();
+  const [contacts, setContacts] = useState<Contact[]>(job.contacts || []);
+  const [contactDialogOpen, setContactDialogOpen] = useState(false);
   const form = useForm<FormData>({
     defaultValues: {
       company: job.company,
@@ -104,6 +111,7 @@ export function EditJobDialog({
         interviewLink: job.interviewLink || "",
         notes: job.notes || "",
       });
+      setContacts(job.contacts || []);
     }
   }, [job, form]);
 
@@ -114,10 +122,22 @@ export function EditJobDialog({
       notes: data.notes || undefined,
       category: data.category || undefined,
       jobPostingUrl: data.jobPostingUrl || undefined,
+      contacts,
     });
     onOpenChange(false);
   };
 
+  const handleAddContact = (contact: Omit<Contact, "id">) =>
+    setContacts((prev) => [...prev, { ...contact, id: crypto.randomUUID() }]);
+
+  const handleUpdateContact = (id: string, contact: Partial<Contact>) =>
+    setContacts((prev) =>
+      prev.map((c) => (c.id === id ? { ...c, ...contact } : c))
+    );
+
+  const handleDeleteContact = (id: string) =>
+    setContacts((prev) => prev.filter((c) => c.id !== id));
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[600px] max-h-[90vh] max-w-[95vw] w-full mx-4">
@@ -372,11 +392,11 @@ export function EditJobDialog({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        <SelectItem value="applied">Applied</SelectItem>
-                        <SelectItem value="shortlisted">Shortlisted</SelectItem>
-                        <SelectItem value="interview">Interview</SelectItem>
-                        <SelectItem value="rejected">Rejected</SelectItem>
-                        <SelectItem value="offered">Offered</SelectItem>
+                        {stages.map((stage) => (
+                          <SelectItem key={stage.id} value={stage.id}>
+                            {stage.name}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -447,6 +467,17 @@ export function EditJobDialog({
                 )}
               />
 
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setContactDialogOpen(true)}
+                className="w-full h-11"
+              >
+                <Users className="w-4 h-4 mr-2" />
+                Contacts ({contacts.length})
+              </Button>
+
               <div className="flex flex-col sm:flex-row justify-end space-y-2 sm:space-y-0 sm:space-x-2 pt-4">
                 <Button
                   type="button"
@@ -464,6 +495,25 @@ export function EditJobDialog({
           </Form>
         </ScrollArea>
       </DialogContent>
+
+      {/* Contacts, including vCard import; saved with the application */}
+      <Dialog open={contactDialogOpen} onOpenChange={setContactDialogOpen}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Contact Management</DialogTitle>
+            <DialogDescription>
+              Changes are saved when you update the application.
+            </DialogDescription>
+          </DialogHeader>
+          <ContactManager
+            contacts={contacts}
+            company={form.watch("company")}
+            onAddContact={handleAddContact}
+            onUpdateContact={handleUpdateContact}
+            onDeleteContact={handleDeleteContact}
+          />
+        </DialogContent>
+      </Dialog>
     </Dialog>
   );
 }
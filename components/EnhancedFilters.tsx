@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { FilterOptions, SortOptions, FilterPreset } from "@/types/job";
 import { filterPresetStorage } from "@/lib/filterPresetStorage";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -61,6 +62,7 @@ export function EnhancedFilters({
   searchTerm,
   onSearchChange,
 }: EnhancedFiltersProps) {
+  const stages = usePipelineStages();
   const [open, setOpen] = useState(false);
   const [presets, setPresets] = useState<FilterPreset[]>([]);
   const [showSavePreset, setShowSavePreset] = useState(false);
@@ -68,7 +70,10 @@ export function EnhancedFilters({
   const [salaryRange, setSalaryRange] = useState([0, 300000]);
 
   useEffect(() => {
-    setPresets(filterPresetStorage.getAll());
+    const loadPresets = () => filterPresetStorage.getAll().then(setPresets);
+    loadPresets();
+    // Pick up presets saved in other tabs
+    return filterPresetStorage.subscribe(loadPresets);
   }, []);
 
   const activeFiltersCount = Object.keys(filters).filter(
@@ -92,10 +97,10 @@ export function EnhancedFilters({
     });
   };
 
-  const saveFilterPreset = () => {
+  const saveFilterPreset = async () => {
     if (!presetName.trim()) return;
 
-    const newPreset = filterPresetStorage.add(presetName, filters, sort);
+    const newPreset = await filterPresetStorage.add(presetName, filters, sort);
     setPresets([...presets, newPreset]);
     setPresetName("");
     setShowSavePreset(false);
@@ -106,8 +111,8 @@ export function EnhancedFilters({
     onSortChange(preset.sort);
   };
 
-  const deleteFilterPreset = (id: string) => {
-    filterPresetStorage.delete(id);
+  const deleteFilterPreset = async (id: string) => {
+    await filterPresetStorage.delete(id);
     setPresets(presets.filter((p) => p.id !== id));
   };
 
@@ -309,13 +314,11 @@ export function EnhancedFilters({
                         </SelectTrigger>
                         <SelectContent>
                           <SelectItem value="all">All Statuses</SelectItem>
-                          <SelectItem value="applied">Applied</SelectItem>
-                          <SelectItem value="shortlisted">
-                            Shortlisted
-                          </SelectItem>
-                          <SelectItem value="interview">Interview</SelectItem>
-                          <SelectItem value="rejected">Rejected</SelectItem>
-                          <SelectItem value="offered">Offered</SelectItem>
+                          {stages.map((stage) => (
+                            <SelectItem key={stage.id} value={stage.id}>
+                              {stage.name}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -0,0 +1,354 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Download, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ExportFieldPicker } from "@/components/ExportFieldPicker";
+import { ExportFieldSet, JobApplication } from "@/types/job";
+import { DataExportService, ExportOptions } from "@/lib/dataExportService";
+import { DEFAULT_EXPORT_FIELDS } from "@/lib/exportFields";
+import { exportFieldSetStorage } from "@/lib/exportFieldSetStorage";
+import { PDFReportOptions } from "@/lib/pdfReport";
+import { CalendarExportOptions } from "@/lib/calendarExport";
+import { PageSize } from "@/lib/pdfDocument";
+
+type ExportFormat = ExportOptions["format"];
+
+interface ExportDialogProps {
+  jobs: JobApplication[];
+  format: ExportFormat;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ALL_FIELDS = "__all";
+const CUSTOM_FIELDS = "__custom";
+
+const ALL_FIELDS_HINT: Record<ExportFormat, string> = {
+  csv: "The standard spreadsheet columns, which can be imported again.",
+  json: "A complete backup that can be imported again.",
+  xlsx: "Sheets for applications, status history, contacts and documents, which can be imported again.",
+  pdf: "The standard report layout.",
+  ics: "Interviews and follow-up dates, with alarms from your notification settings.",
+};
+
+export function ExportDialog({
+  jobs,
+  format: initialFormat,
+  open,
+  onOpenChange,
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>(initialFormat);
+  const [includeArchived, setIncludeArchived] = useState(false);
+  const [fieldSets, setFieldSets] = useState<ExportFieldSet[]>([]);
+  const [fieldSetId, setFieldSetId] = useState(ALL_FIELDS);
+  const [fields, setFields] = useState<string[]>(DEFAULT_EXPORT_FIELDS);
+  const [setName, setSetName] = useState("");
+  const [followUps, setFollowUps] =
+    useState<CalendarExportOptions["followUps"]>("todo");
+  const [pdfOptions, setPdfOptions] = useState<
+    Required<Omit<PDFReportOptions, "title" | "fields">>
+  >({
+    pageSize: "a4",
+    includeSummary: true,
+    includeTable: true,
+    includeDetails: false,
+  });
+
+  useEffect(() => {
+    const loadFieldSets = () =>
+      exportFieldSetStorage.getAll().then(setFieldSets);
+    loadFieldSets();
+    // Pick up field sets saved in other tabs
+    return exportFieldSetStorage.subscribe(loadFieldSets);
+  }, []);
+
+  // Each export button opens the dialog on its own format
+  useEffect(() => {
+    if (open) setFormat(initialFormat);
+  }, [open, initialFormat]);
+
+  const savedSet = fieldSets.find((set) => set.id === fieldSetId);
+  // Calendar entries have a fixed shape
+  const usesFields = format !== "ics";
+  const isCustom = usesFields && fieldSetId !== ALL_FIELDS;
+  const isModified = !!savedSet && savedSet.fields.join() !== fields.join();
+
+  const updatePdfOption = (updates: Partial<PDFReportOptions>) =>
+    setPdfOptions((current) => ({ ...current, ...updates }));
+
+  const handleFieldSetChange = (value: string) => {
+    setFieldSetId(value);
+    const set = fieldSets.find((item) => item.id === value);
+    if (set) setFields(set.fields);
+  };
+
+  const handleSaveSet = async () => {
+    if (!setName.trim()) return;
+
+    const newSet = await exportFieldSetStorage.add(setName.trim(), fields);
+    setFieldSets([...fieldSets, newSet]);
+    setFieldSetId(newSet.id);
+    setSetName("");
+  };
+
+  const handleUpdateSet = async () => {
+    if (!savedSet) return;
+
+    await exportFieldSetStorage.update(savedSet.id, { fields });
+    setFieldSets(
+      fieldSets.map((set) =>
+        set.id === savedSet.id ? { ...set, fields } : set
+      )
+    );
+  };
+
+  const handleDeleteSet = async () => {
+    if (!savedSet) return;
+
+    await exportFieldSetStorage.delete(savedSet.id);
+    setFieldSets(fieldSets.filter((set) => set.id !== savedSet.id));
+    setFieldSetId(CUSTOM_FIELDS);
+  };
+
+  const hasPdfSection =
+    pdfOptions.includeSummary ||
+    pdfOptions.includeTable ||
+    pdfOptions.includeDetails;
+  const canExport =
+    (!isCustom || fields.length > 0) && (format !== "pdf" || hasPdfSection);
+
+  const handleExport = () => {
+    DataExportService.exportJobs(jobs, {
+      format,
+      includeArchived,
+      fields: isCustom ? fields : undefined,
+      pdf: pdfOptions,
+      calendar: { followUps },
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5" />
+            Export applications
+          </DialogTitle>
+          <DialogDescription>
+            Files are generated in your browser; nothing is uploaded.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="export-format">Format</Label>
+              <Select
+                value={format}
+                onValueChange={(value) => setFormat(value as ExportFormat)}
+              >
+                <SelectTrigger id="export-format" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV spreadsheet</SelectItem>
+                  <SelectItem value="xlsx">Excel workbook</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                  <SelectItem value="pdf">PDF report</SelectItem>
+                  <SelectItem value="ics">Calendar (.ics)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {usesFields && (
+              <div className="space-y-2">
+                <Label htmlFor="export-field-set">Fields</Label>
+                <Select value={fieldSetId} onValueChange={handleFieldSetChange}>
+                  <SelectTrigger id="export-field-set" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_FIELDS}>All fields</SelectItem>
+                    <SelectItem value={CUSTOM_FIELDS}>
+                      Choose fields…
+                    </SelectItem>
+                    {fieldSets.map((set) => (
+                      <SelectItem key={set.id} value={set.id}>
+                        {set.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {isCustom ? (
+            <div className="space-y-3">
+              <ExportFieldPicker selected={fields} onChange={setFields} />
+
+              <div className="flex flex-wrap items-center gap-2">
+                <Input
+                  placeholder="Field set name"
+                  value={setName}
+                  onChange={(e) => setSetName(e.target.value)}
+                  className="flex-1 min-w-[160px]"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleSaveSet}
+                  disabled={!setName.trim() || fields.length === 0}
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Save as set
+                </Button>
+                {savedSet && isModified && (
+                  <Button variant="outline" size="sm" onClick={handleUpdateSet}>
+                    Update &quot;{savedSet.name}&quot;
+                  </Button>
+                )}
+                {savedSet && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleDeleteSet}
+                    aria-label={`Delete ${savedSet.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
+              {(format === "json" || format === "xlsx") && (
+                <p className="text-xs text-muted-foreground">
+                  Exports with selected fields are for other tools and
+                  can&apos;t be imported back.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {ALL_FIELDS_HINT[format]}
+            </p>
+          )}
+
+          {format === "ics" && (
+            <div className="flex items-center justify-between gap-4 rounded-md border p-3">
+              <Label htmlFor="ics-follow-ups">Follow-up dates as</Label>
+              <Select
+                value={followUps}
+                onValueChange={(value) =>
+                  setFollowUps(value as CalendarExportOptions["followUps"])
+                }
+              >
+                <SelectTrigger id="ics-follow-ups" className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="todo">Tasks</SelectItem>
+                  <SelectItem value="event">All-day events</SelectItem>
+                  <SelectItem value="none">Leave out</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {format === "pdf" && (
+            <div className="space-y-3 rounded-md border p-3">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="pdf-page-size">Page size</Label>
+                <Select
+                  value={pdfOptions.pageSize}
+                  onValueChange={(value) =>
+                    updatePdfOption({ pageSize: value as PageSize })
+                  }
+                >
+                  <SelectTrigger id="pdf-page-size" className="w-[140px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="a4">A4</SelectItem>
+                    <SelectItem value="letter">US Letter</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="pdf-summary">Summary page</Label>
+                <Switch
+                  id="pdf-summary"
+                  checked={pdfOptions.includeSummary}
+                  onCheckedChange={(checked: boolean) =>
+                    updatePdfOption({ includeSummary: checked })
+                  }
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="pdf-table">Applications table</Label>
+                <Switch
+                  id="pdf-table"
+                  checked={pdfOptions.includeTable}
+                  onCheckedChange={(checked: boolean) =>
+                    updatePdfOption({ includeTable: checked })
+                  }
+                />
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label htmlFor="pdf-details">Detail page per application</Label>
+                <Switch
+                  id="pdf-details"
+                  checked={pdfOptions.includeDetails}
+                  onCheckedChange={(checked: boolean) =>
+                    updatePdfOption({ includeDetails: checked })
+                  }
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="export-archived">Include archived</Label>
+            <Switch
+              id="export-archived"
+              checked={includeArchived}
+              onCheckedChange={setIncludeArchived}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="flex flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={!canExport}>
+            Export
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  EXPORT_FIELD_GROUPS,
+  EXPORT_FIELDS,
+  resolveExportFields,
+} from "@/lib/exportFields";
+
+interface ExportFieldPickerProps {
+  selected: string[];
+  onChange: (fields: string[]) => void;
+}
+
+export function ExportFieldPicker({
+  selected,
+  onChange,
+}: ExportFieldPickerProps) {
+  const selectedFields = resolveExportFields(selected);
+  const available = EXPORT_FIELDS.filter(
+    (field) => !selected.includes(field.id)
+  );
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= selected.length) return;
+
+    const next = [...selected];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <div className="space-y-2">
+        <Label>Columns ({selectedFields.length})</Label>
+        <ScrollArea className="h-56 rounded-md border">
+          {selectedFields.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-3">
+              Add fields from the list
+            </p>
+          ) : (
+            <div className="p-1 space-y-1">
+              {selectedFields.map((field, index) => (
+                <div
+                  key={field.id}
+                  className="flex items-center gap-1 rounded px-2 py-1 hover:bg-muted"
+                >
+                  <span className="flex-1 text-sm truncate">{field.label}</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="p-1 h-6 w-6"
+                    onClick={() => move(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${field.label} up`}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="p-1 h-6 w-6"
+                    onClick={() => move(index, 1)}
+                    disabled={index === selectedFields.length - 1}
+                    aria-label={`Move ${field.label} down`}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="p-1 h-6 w-6"
+                    onClick={() =>
+                      onChange(selected.filter((id) => id !== field.id))
+                    }
+                    aria-label={`Remove ${field.label}`}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Available fields</Label>
+        <ScrollArea className="h-56 rounded-md border">
+          <div className="p-1 space-y-2">
+            {EXPORT_FIELD_GROUPS.map((group) => {
+              const fields = available.filter((field) => field.group === group);
+              if (fields.length === 0) return null;
+
+              return (
+                <div key={group}>
+                  <p className="px-2 pt-1 text-xs font-medium text-muted-foreground">
+                    {group}
+                  </p>
+                  {fields.map((field) => (
+                    <button
+                      key={field.id}
+                      type="button"
+                      className="flex w-full items-center gap-2 rounded px-2 py-1 text-left text-sm hover:bg-muted"
+                      onClick={() => onChange([...selected, field.id])}
+                    >
+                      <Plus className="h-3 w-3 text-muted-foreground" />
+                      {field.label}
+                    </button>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,375 @@
+"use client";
+
+import { useState, useEffect, useMemo, useRef } from "react";
+import { FileUp, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { LoadingSpinner } from "@/components/ui/animations";
+import { CSVColumnMapper } from "@/components/CSVColumnMapper";
+import { JobApplication } from "@/types/job";
+import { DataExportService } from "@/lib/dataExportService";
+import { jobStorage } from "@/lib/jobStorage";
+import { snapshotService } from "@/lib/snapshotService";
+import {
+  analyzeImport,
+  availableImportActions,
+  buildImportPlan,
+  ImportAction,
+  ImportRow,
+  ImportRowKind,
+  ImportPlan,
+} from "@/lib/importService";
+import {
+  CSVMapping,
+  csvRowToJob,
+  guessCSVMapping,
+  missingCSVColumns,
+} from "@/lib/csvColumns";
+
+interface ImportWizardProps {
+  file: File | null;
+  jobs: JobApplication[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: (plan: ImportPlan) => void;
+}
+
+const KIND_LABELS: Record<ImportRowKind, string> = {
+  new: "New",
+  changed: "Changed",
+  duplicate: "Duplicate",
+};
+
+const KIND_VARIANTS: Record<
+  ImportRowKind,
+  "default" | "secondary" | "outline"
+> = {
+  new: "default",
+  changed: "secondary",
+  duplicate: "outline",
+};
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  add: "Add",
+  merge: "Merge",
+  replace: "Replace",
+  skip: "Skip",
+};
+
+const MATCH_LABELS = {
+  id: "same id",
+  url: "same posting URL",
+  "company-role-date": "same company, role and date",
+  file: "repeats an earlier row",
+};
+
+export function ImportWizard({
+  file,
+  jobs,
+  open,
+  onOpenChange,
+  onImported,
+}: ImportWizardProps) {
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [step, setStep] = useState<"map" | "review">("review");
+  const [csv, setCsv] = useState<{
+    headers: string[];
+    rows: string[][];
+  } | null>(null);
+  const [mapping, setMapping] = useState<CSVMapping>([]);
+  // Read when a file is analyzed, without re-analyzing on every change
+  const jobsRef = useRef(jobs);
+  useEffect(() => {
+    jobsRef.current = jobs;
+  }, [jobs]);
+
+  // Analyzed once per file so later board updates don't reset row choices
+  useEffect(() => {
+    if (!open || !file) return;
+
+    setLoading(true);
+    setError(null);
+    setRows([]);
+    setCsv(null);
+
+    // CSV columns vary between spreadsheets, so they are mapped first
+    const load = file.name.toLowerCase().endsWith(".csv")
+      ? DataExportService.readCSV(file).then((data) => {
+          setCsv(data);
+          setMapping(guessCSVMapping(data.headers));
+          setStep("map");
+        })
+      : DataExportService.importFromFile(file).then((incoming) => {
+          setRows(analyzeImport(incoming, jobsRef.current));
+          setStep("review");
+        });
+
+    load
+      .catch((parseError) =>
+        setError(
+          parseError instanceof Error
+            ? parseError.message
+            : "Failed to read file"
+        )
+      )
+      .finally(() => setLoading(false));
+  }, [open, file]);
+
+  const counts = useMemo(
+    () => ({
+      new: rows.filter((row) => row.kind === "new").length,
+      changed: rows.filter((row) => row.kind === "changed").length,
+      duplicate: rows.filter((row) => row.kind === "duplicate").length,
+    }),
+    [rows]
+  );
+
+  const plan = useMemo(() => buildImportPlan(rows), [rows]);
+
+  const setRowAction = (index: number, action: ImportAction) => {
+    setRows((current) =>
+      current.map((row) => (row.index === index ? { ...row, action } : row))
+    );
+  };
+
+  // Applies an action to every row of one kind that supports it
+  const setKindAction = (kind: ImportRowKind, action: ImportAction) => {
+    setRows((current) =>
+      current.map((row) =>
+        row.kind === kind && availableImportActions(row).includes(action)
+          ? { ...row, action }
+          : row
+      )
+    );
+  };
+
+  const handleApplyMapping = () => {
+    if (!csv) return;
+
+    const incoming = csv.rows.map((row) => csvRowToJob(row, mapping));
+    setRows(analyzeImport(incoming, jobs));
+    setStep("review");
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      await snapshotService.createSnapshot("before-import", {
+        label: file.name,
+      });
+      await jobStorage.commitImport(plan, `Import from ${file.name}`);
+      onImported(plan);
+      onOpenChange(false);
+    } catch (importError) {
+      console.error("Import failed:", importError);
+      setError("Import failed; nothing was changed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const kindActions: Record<ImportRowKind, ImportAction[]> = {
+    new: ["add", "skip"],
+    changed: ["merge", "replace", "skip"],
+    duplicate: ["skip", "replace"],
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="!max-w-3xl w-full max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import {file?.name}
+          </DialogTitle>
+          <DialogDescription>
+            Review how each row will be applied. Rows are matched to existing
+            applications by id, posting URL, or company, role and applied date.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center p-8">
+            <LoadingSpinner />
+          </div>
+        ) : error && rows.length === 0 && !csv ? (
+          <p className="text-sm text-destructive flex items-center gap-2 p-4">
+            <AlertTriangle className="h-4 w-4" />
+            {error}
+          </p>
+        ) : step === "map" && csv ? (
+          <CSVColumnMapper
+            headers={csv.headers}
+            rows={csv.rows}
+            mapping={mapping}
+            onMappingChange={setMapping}
+          />
+        ) : (
+          <>
+            {/* Summary with bulk actions per kind */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              {(Object.keys(counts) as ImportRowKind[]).map((kind) => (
+                <div
+                  key={kind}
+                  className="flex items-center justify-between gap-2 rounded-md border p-2"
+                >
+                  <span className="text-sm">
+                    <span className="font-semibold">{counts[kind]}</span>{" "}
+                    {KIND_LABELS[kind].toLowerCase()}
+                  </span>
+                  {counts[kind] > 0 && (
+                    <Select
+                      onValueChange={(value) =>
+                        setKindAction(kind, value as ImportAction)
+                      }
+                    >
+                      <SelectTrigger
+                        className="h-7 w-[110px] text-xs"
+                        aria-label={`Set action for all ${KIND_LABELS[
+                          kind
+                        ].toLowerCase()} rows`}
+                      >
+                        <SelectValue placeholder="Set all" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {kindActions[kind].map((action) => (
+                          <SelectItem key={action} value={action}>
+                            {ACTION_LABELS[action]} all
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <ScrollArea className="h-[45vh] pr-3">
+              <div className="space-y-2">
+                {rows.map((row) => (
+                  <div
+                    key={row.index}
+                    className="flex items-start justify-between gap-3 rounded-md border p-3"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium truncate">
+                          {row.incoming.role || "Untitled role"} at{" "}
+                          {row.incoming.company || "unknown company"}
+                        </p>
+                        <Badge variant={KIND_VARIANTS[row.kind]}>
+                          {KIND_LABELS[row.kind]}
+                        </Badge>
+                      </div>
+                      {row.matchedBy && (
+                        <p className="text-xs text-muted-foreground">
+                          Matches{" "}
+                          {row.match
+                            ? `${row.match.role} at ${row.match.company}`
+                            : "an existing application"}{" "}
+                          ({MATCH_LABELS[row.matchedBy]})
+                        </p>
+                      )}
+                      {row.changedFields.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Changes: {row.changedFields.join(", ")}
+                        </p>
+                      )}
+                    </div>
+                    <Select
+                      value={row.action}
+                      onValueChange={(value) =>
+                        setRowAction(row.index, value as ImportAction)
+                      }
+                    >
+                      <SelectTrigger
+                        className="h-8 w-[110px]"
+                        aria-label="Import action"
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableImportActions(row).map((action) => (
+                          <SelectItem key={action} value={action}>
+                            {ACTION_LABELS[action]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            {error && (
+              <p className="text-sm text-destructive flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4" />
+                {error}
+              </p>
+            )}
+          </>
+        )}
+
+        {step === "map" && csv ? (
+          <DialogFooter className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleApplyMapping}
+              disabled={missingCSVColumns(mapping).length > 0}
+            >
+              Continue
+            </Button>
+          </DialogFooter>
+        ) : (
+          <DialogFooter className="flex flex-col sm:flex-row gap-2">
+            <span className="text-sm text-muted-foreground sm:mr-auto self-center">
+              {plan.additions.length} to add, {plan.updates.length} to update,{" "}
+              {plan.skipped} skipped
+            </span>
+            {csv && (
+              <Button variant="outline" onClick={() => setStep("map")}>
+                Back
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={
+                importing ||
+                loading ||
+                plan.additions.length + plan.updates.length === 0
+              }
+            >
+              {importing ? "Importing..." : "Import"}
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
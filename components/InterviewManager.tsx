@@ -0,0 +1,599 @@
+"use client";
+
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import {
+  Calendar,
+  Clock,
+  Edit,
+  ExternalLink,
+  Plus,
+  Trash2,
+  Users,
+} from "lucide-react";
+import { Interview, InterviewOutcome, JobApplication } from "@/types/job";
+import {
+  INTERVIEW_FORMAT_LABELS,
+  INTERVIEW_OUTCOME_LABELS,
+  createInterview,
+  interviewStart,
+  isAllDay,
+  localTimeZone,
+  sortInterviews,
+} from "@/lib/interviews";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+const isTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const interviewSchema = z.object({
+  round: z.string().min(1, "Round name is required"),
+  date: z.string().min(1, "Date is required"),
+  time: z.string().optional(),
+  timeZone: z
+    .string()
+    .refine((value) => !value || isTimeZone(value), "Unknown time zone"),
+  durationMinutes: z.string().optional(),
+  format: z.enum(["phone", "video", "onsite", "take-home", "other"]),
+  interviewerIds: z.array(z.string()),
+  link: z.string().url("Valid URL is required").optional().or(z.literal("")),
+  prepNotes: z.string().optional(),
+  reflection: z.string().optional(),
+  outcome: z.enum(["pending", "passed", "failed", "cancelled"]),
+});
+
+type InterviewFormData = z.infer<typeof interviewSchema>;
+
+const OUTCOME_VARIANTS: Record<
+  InterviewOutcome,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  pending: "outline",
+  passed: "default",
+  failed: "destructive",
+  cancelled: "secondary",
+};
+
+const emptyForm = (): InterviewFormData => ({
+  round: "",
+  date: "",
+  time: "",
+  timeZone: localTimeZone(),
+  durationMinutes: "",
+  format: "video",
+  interviewerIds: [],
+  link: "",
+  prepNotes: "",
+  reflection: "",
+  outcome: "pending",
+});
+
+const toForm = (interview: Interview): InterviewFormData => ({
+  round: interview.round,
+  date: interview.scheduledAt.slice(0, 10),
+  time: interview.scheduledAt.slice(11, 16),
+  timeZone: interview.timeZone || localTimeZone(),
+  durationMinutes: interview.durationMinutes?.toString() || "",
+  format: interview.format,
+  interviewerIds: interview.interviewerIds || [],
+  link: interview.link || "",
+  prepNotes: interview.prepNotes || "",
+  reflection: interview.reflection || "",
+  outcome: interview.outcome,
+});
+
+// Time zones are only meaningful for rounds with a time; the user's own
+// zone is left implicit so the round follows them when they travel
+const fromForm = (data: InterviewFormData): Omit<Interview, "id"> => {
+  const duration = parseInt(data.durationMinutes || "", 10);
+  return {
+    round: data.round,
+    scheduledAt: data.time ? `${data.date}T${data.time}` : data.date,
+    timeZone:
+      data.time && data.timeZone && data.timeZone !== localTimeZone()
+        ? data.timeZone
+        : undefined,
+    durationMinutes: duration > 0 ? duration : undefined,
+    format: data.format,
+    interviewerIds: data.interviewerIds.length
+      ? data.interviewerIds
+      : undefined,
+    link: data.link || undefined,
+    prepNotes: data.prepNotes || undefined,
+    reflection: data.reflection || undefined,
+    outcome: data.outcome,
+  };
+};
+
+const formatStart = (interview: Interview) => {
+  const start = interviewStart(interview);
+  if (!start) return interview.scheduledAt;
+  return isAllDay(interview)
+    ? start.toLocaleDateString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+      })
+    : start.toLocaleString("en-US", {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      });
+};
+
+interface InterviewManagerProps {
+  job: JobApplication | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (id: string, interviews: Interview[]) => void;
+}
+
+export function InterviewManager({
+  job,
+  open,
+  onOpenChange,
+  onSave,
+}: InterviewManagerProps) {
+  // null while listing, "new" or the round being edited otherwise
+  const [editing, setEditing] = useState<Interview | "new" | null>(null);
+
+  const form = useForm<InterviewFormData>({
+    resolver: zodResolver(interviewSchema),
+    defaultValues: emptyForm(),
+  });
+
+  const interviews = job?.interviews || [];
+  const contacts = job?.contacts || [];
+
+  const save = (next: Interview[]) => job && onSave(job.id, next);
+
+  const onSubmit = (data: InterviewFormData) => {
+    const fields = fromForm(data);
+    if (editing && editing !== "new") {
+      save(
+        interviews.map((item) =>
+          item.id === editing.id ? { ...item, ...fields } : item
+        )
+      );
+    } else {
+      save([...interviews, createInterview(fields)]);
+    }
+    handleCancel();
+  };
+
+  const handleAdd = () => {
+    form.reset(emptyForm());
+    setEditing("new");
+  };
+
+  const handleEdit = (interview: Interview) => {
+    form.reset(toForm(interview));
+    setEditing(interview);
+  };
+
+  const handleCancel = () => {
+    setEditing(null);
+    form.reset(emptyForm());
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) handleCancel();
+    onOpenChange(next);
+  };
+
+  const contactName = (id: string) =>
+    contacts.find((contact) => contact.id === id)?.name;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Interviews{job ? ` · ${job.company}, ${job.role}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        {editing ? (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="round"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Round *</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g., Recruiter screen, System design"
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="date"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date *</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="time"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time</FormLabel>
+                      <FormControl>
+                        <Input type="time" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="timeZone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time zone</FormLabel>
+                      <FormControl>
+                        <Input
+                          list="interview-time-zones"
+                          placeholder="e.g., Europe/London"
+                          {...field}
+                        />
+                      </FormControl>
+                      <datalist id="interview-time-zones">
+                        {Intl.supportedValuesOf("timeZone").map((zone) => (
+                          <option key={zone} value={zone} />
+                        ))}
+                      </datalist>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="durationMinutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Duration (minutes)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} step={15} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="format"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Format</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(INTERVIEW_FORMAT_LABELS).map(
+                            ([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            )
+                          )}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="outcome"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Outcome</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {Object.entries(INTERVIEW_OUTCOME_LABELS).map(
+                            ([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
+                              </SelectItem>
+                            )
+                          )}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="interviewerIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Interviewers</FormLabel>
+                    {contacts.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        Add contacts to this application to pick interviewers
+                      </p>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {contacts.map((contact) => {
+                          const selected = field.value.includes(contact.id);
+                          return (
+                            <Badge
+                              key={contact.id}
+                              asChild
+                              variant={selected ? "default" : "outline"}
+                            >
+                              <button
+                                type="button"
+                                aria-pressed={selected}
+                                onClick={() =>
+                                  field.onChange(
+                                    selected
+                                      ? field.value.filter(
+                                          (id) => id !== contact.id
+                                        )
+                                      : [...field.value, contact.id]
+                                  )
+                                }
+                              >
+                                {contact.name}
+                              </button>
+                            </Badge>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="link"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Meeting link</FormLabel>
+                    <FormControl>
+                      <Input placeholder="https://..." {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="prepNotes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prep notes</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="Topics to review, questions to ask..."
+                        rows={3}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="reflection"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reflection</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        placeholder="How did it go? What would you do differently?"
+                        rows={3}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={handleCancel}>
+                  Cancel
+                </Button>
+                <Button type="submit">
+                  {editing === "new" ? "Add" : "Update"} Round
+                </Button>
+              </div>
+            </form>
+          </Form>
+        ) : (
+          <div className="space-y-3">
+            {interviews.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Calendar className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                <p>No interview rounds yet</p>
+              </div>
+            ) : (
+              sortInterviews(interviews).map((interview) => (
+                <Card key={interview.id} className="p-3 gap-2">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium truncate">
+                          {interview.round}
+                        </h4>
+                        <Badge variant="secondary" className="text-xs">
+                          {INTERVIEW_FORMAT_LABELS[interview.format]}
+                        </Badge>
+                        <Badge
+                          variant={OUTCOME_VARIANTS[interview.outcome]}
+                          className="text-xs"
+                        >
+                          {INTERVIEW_OUTCOME_LABELS[interview.outcome]}
+                        </Badge>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Clock className="h-3 w-3" />
+                        <span>
+                          {formatStart(interview)}
+                          {interview.durationMinutes &&
+                            ` · ${interview.durationMinutes} min`}
+                          {interview.timeZone &&
+                            ` · ${interview.scheduledAt.slice(11, 16)} ${
+                              interview.timeZone
+                            }`}
+                        </span>
+                      </div>
+                      {interview.interviewerIds?.length ? (
+                        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                          <Users className="h-3 w-3" />
+                          <span className="truncate">
+                            {interview.interviewerIds
+                              .map(contactName)
+                              .filter(Boolean)
+                              .join(", ")}
+                          </span>
+                        </div>
+                      ) : null}
+                      {interview.link && (
+                        <a
+                          href={interview.link}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="flex items-center gap-2 text-sm text-primary hover:underline"
+                        >
+                          <ExternalLink className="h-3 w-3" />
+                          Join meeting
+                        </a>
+                      )}
+                      {interview.prepNotes && (
+                        <p className="text-sm whitespace-pre-wrap">
+                          <span className="font-medium">Prep: </span>
+                          {interview.prepNotes}
+                        </p>
+                      )}
+                      {interview.reflection && (
+                        <p className="text-sm whitespace-pre-wrap">
+                          <span className="font-medium">Reflection: </span>
+                          {interview.reflection}
+                        </p>
+                      )}
+                    </div>
+
+                    <div className="flex space-x-1 ml-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleEdit(interview)}
+                        className="h-8 w-8 p-0"
+                        aria-label={`Edit ${interview.round}`}
+                      >
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() =>
+                          save(
+                            interviews.filter(
+                              (item) => item.id !== interview.id
+                            )
+                          )
+                        }
+                        className="h-8 w-8 p-0 text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                        aria-label={`Delete ${interview.round}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                </Card>
+              ))
+            )}
+
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handleAdd} disabled={!job}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Round
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,4 +1,16 @@
+import { useState } from "react";
 import { JobApplication } from "@/types/job";
+import { isCalendarFile } from "@/lib/calendarImport";
+import {
+  pipelineStageService,
+  STAGE_BADGE_CLASSES,
+  STAGE_DOT_CLASSES,
+} from "@/lib/pipelineStageService";
+import { allowedNextStages, canTransition } from "@/lib/statusTransitions";
+import { interviewStart, isAllDay, nextInterview } from "@/lib/interviews";
+import { formatMoney, isOfferExpired } from "@/lib/offers";
+import { CLOSED_BY_LABELS, isLostStage, reasonLabel } from "@/lib/outcomes";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import {
   Card,
   CardContent,
@@ -8,6 +20,14 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Calendar,
   DollarSign,
@@ -21,6 +41,11 @@ import {
   Star,
   VideoIcon,
   FileText,
+  CalendarPlus,
+  Contact as ContactIcon,
+  Users,
+  HandCoins,
+  XCircle,
 } from "lucide-react";
 
 interface JobCardProps {
@@ -29,24 +54,13 @@ interface JobCardProps {
   onDelete: (id: string) => void;
   onStatusChange: (id: string, updates: Partial<JobApplication>) => void;
   onManageDocuments?: (jobId: string) => void;
+  onManageInterviews?: (job: JobApplication) => void;
+  onManageOffer?: (job: JobApplication) => void;
+  onExportCalendar?: (job: JobApplication) => void;
+  onExportContacts?: (job: JobApplication) => void;
+  onCalendarInvite?: (file: File, job: JobApplication) => void;
 }
 
-const statusColors = {
-  applied: "bg-blue-100 text-blue-800 hover:bg-blue-200",
-  shortlisted: "bg-yellow-100 text-yellow-800 hover:bg-yellow-200",
-  interview: "bg-purple-100 text-purple-800 hover:bg-purple-200",
-  rejected: "bg-red-100 text-red-800 hover:bg-red-200",
-  offered: "bg-green-100 text-green-800 hover:bg-green-200",
-};
-
-const statusLabels = {
-  applied: "Applied",
-  shortlisted: "Shortlisted",
-  interview: "Interview",
-  rejected: "Rejected",
-  offered: "Offered",
-};
-
 const jobTypeColors = {
   "full-time": "bg-green-50 text-green-700 border-green-200",
   "part-time": "bg-blue-50 text-blue-700 border-blue-200",
@@ -73,7 +87,36 @@ export function JobCard({
   onDelete,
   onStatusChange,
   onManageDocuments,
+  onManageInterviews,
+  onManageOffer,
+  onExportCalendar,
+  onExportContacts,
+  onCalendarInvite,
 }: JobCardProps) {
+  const [inviteOver, setInviteOver] = useState(false);
+  const stages = usePipelineStages();
+  const stage = stages.find((item) => item.id === job.status);
+
+  // Dropping an .ics invite here attaches it to this application
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!onCalendarInvite || !event.dataTransfer.types.includes("Files")) {
+      return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+    setInviteOver(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    setInviteOver(false);
+    const file = Array.from(event.dataTransfer.files).find(isCalendarFile);
+    if (!onCalendarInvite || !file) return;
+
+    event.preventDefault();
+    event.stopPropagation();
+    onCalendarInvite(file, job);
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -95,23 +138,23 @@ export function JobCard({
     return null;
   };
 
-  const statusOrder = [
-    "applied",
-    "shortlisted",
-    "interview",
-    "offered",
-    "rejected",
-  ] as const;
+  const upcoming = nextInterview(job);
 
-  const handleStatusClick = () => {
-    const currentIndex = statusOrder.indexOf(job.status);
-    const nextIndex = (currentIndex + 1) % statusOrder.length;
-    const nextStatus = statusOrder[nextIndex];
-    onStatusChange(job.id, { status: nextStatus });
-  };
+  // Moves the current stage allows come first; the rest need an override
+  const nextStages = allowedNextStages(job.status);
+  const blockedStages = stages.filter(
+    (item) => item.id !== job.status && !canTransition(job.status, item.id)
+  );
 
   return (
-    <Card className="w-full hover:shadow-md transition-shadow">
+    <Card
+      className={`w-full hover:shadow-md transition-shadow ${
+        inviteOver ? "ring-2 ring-primary" : ""
+      }`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setInviteOver(false)}
+      onDrop={handleDrop}
+    >
       <CardHeader className="pb-3">
         <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
           <div className="flex-1 min-w-0">
@@ -129,15 +172,59 @@ export function JobCard({
           </div>
           <div className="flex flex-col sm:items-end space-y-2 flex-shrink-0">
             <div className="flex items-center space-x-2 flex-wrap gap-1">
-              <Badge
-                className={`${
-                  statusColors[job.status]
-                } cursor-pointer transition-colors text-xs`}
-                onClick={handleStatusClick}
-                title="Click to change status"
-              >
-                {statusLabels[job.status]}
-              </Badge>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Badge
+                    className={`${
+                      STAGE_BADGE_CLASSES[stage?.color || "gray"]
+                    } cursor-pointer transition-colors text-xs`}
+                    title="Click to change status"
+                  >
+                    {stage?.name || pipelineStageService.getLabel(job.status)}
+                  </Badge>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {nextStages.map((item) => (
+                    <DropdownMenuItem
+                      key={item.id}
+                      onClick={() =>
+                        onStatusChange(job.id, { status: item.id })
+                      }
+                    >
+                      <span
+                        className={`h-2 w-2 rounded-full ${
+                          STAGE_DOT_CLASSES[item.color]
+                        }`}
+                      />
+                      {item.name}
+                    </DropdownMenuItem>
+                  ))}
+                  {blockedStages.length > 0 && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel className="text-xs text-muted-foreground">
+                        Not a usual next step
+                      </DropdownMenuLabel>
+                      {blockedStages.map((item) => (
+                        <DropdownMenuItem
+                          key={item.id}
+                          className="text-muted-foreground"
+                          onClick={() =>
+                            onStatusChange(job.id, { status: item.id })
+                          }
+                        >
+                          <span
+                            className={`h-2 w-2 rounded-full ${
+                              STAGE_DOT_CLASSES[item.color]
+                            }`}
+                          />
+                          {item.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
               {job.priority && job.priority !== "medium" && (
                 <Badge
                   variant="outline"
@@ -197,11 +284,44 @@ export function JobCard({
             </div>
           )}
 
-          {job.interviewDate && (
+          {upcoming && (
             <div className="flex items-center space-x-2 text-sm text-muted-foreground">
               <VideoIcon className="h-4 w-4 flex-shrink-0" />
               <span className="truncate">
-                Interview: {formatDate(job.interviewDate)}
+                {upcoming.round}:{" "}
+                {interviewStart(upcoming)?.toLocaleString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                  ...(isAllDay(upcoming)
+                    ? {}
+                    : { hour: "numeric", minute: "2-digit" }),
+                })}
+              </span>
+            </div>
+          )}
+
+          {job.offer && (
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+              <HandCoins className="h-4 w-4 flex-shrink-0" />
+              <span className="truncate">
+                Offer: {formatMoney(job.offer.baseSalary, job.offer.currency)}{" "}
+                base
+                {job.offer.expiryDate &&
+                  (isOfferExpired(job.offer)
+                    ? " · expired"
+                    : ` · expires ${formatDate(job.offer.expiryDate)}`)}
+              </span>
+            </div>
+          )}
+
+          {job.outcome && isLostStage(job.status) && (
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+              <XCircle className="h-4 w-4 flex-shrink-0" />
+              <span className="truncate">
+                {job.outcome.stage &&
+                  `After ${pipelineStageService.getLabel(job.outcome.stage)} · `}
+                {reasonLabel(job.outcome.reason)} · closed by{" "}
+                {CLOSED_BY_LABELS[job.outcome.closedBy].toLowerCase()}
               </span>
             </div>
           )}
@@ -293,6 +413,52 @@ export function JobCard({
             Documents
           </Button>
         )}
+        {onManageInterviews && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onManageInterviews(job)}
+            className="w-full sm:w-auto"
+          >
+            <Users className="h-4 w-4 mr-1" />
+            Interviews
+            {(job.interviews?.length ?? 0) > 0 &&
+              ` (${job.interviews?.length})`}
+          </Button>
+        )}
+        {onManageOffer && (job.offer || stage?.category === "closed-won") && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onManageOffer(job)}
+            className="w-full sm:w-auto"
+          >
+            <HandCoins className="h-4 w-4 mr-1" />
+            {job.offer ? "Offer" : "Add Offer"}
+          </Button>
+        )}
+        {onExportCalendar && (job.interviewDate || job.followUpDate) && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onExportCalendar(job)}
+            className="w-full sm:w-auto"
+          >
+            <CalendarPlus className="h-4 w-4 mr-1" />
+            Calendar
+          </Button>
+        )}
+        {onExportContacts && (job.contacts?.length ?? 0) > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onExportContacts(job)}
+            className="w-full sm:w-auto"
+          >
+            <ContactIcon className="h-4 w-4 mr-1" />
+            Contacts
+          </Button>
+        )}
         <Button
           variant="outline"
           size="sm"
@@ -0,0 +1,348 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronUp,
+  Columns3,
+  RotateCcw,
+} from "lucide-react";
+import { JobApplication, PipelineStage, TableLayout } from "@/types/job";
+import { STAGE_DOT_CLASSES } from "@/lib/pipelineStageService";
+import { tableLayoutStorage } from "@/lib/tableLayoutStorage";
+import {
+  DEFAULT_TABLE_LAYOUT,
+  TABLE_COLUMNS,
+  TableColumn,
+  nextActionFor,
+  normalizeLayout,
+  sortRows,
+} from "@/lib/tableColumns";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface JobTableProps {
+  jobs: JobApplication[]; // searched, filtered and sorted
+  stages: PipelineStage[];
+  onEdit: (job: JobApplication) => void;
+  onUpdate: (id: string, updates: Partial<JobApplication>) => Promise<unknown>;
+}
+
+const formatDate = (date?: string) =>
+  date
+    ? new Date(date).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    : "";
+
+const formatSalary = (job: JobApplication) => {
+  const { min, max, currency = "USD" } = job.salaryRange || {};
+  if (!min && !max) return "";
+  return `${currency} ${[min, max].filter(Boolean).join(" - ")}`;
+};
+
+const columnById = (id: string) =>
+  TABLE_COLUMNS.find((column) => column.id === id) as TableColumn;
+
+export function JobTable({ jobs, stages, onEdit, onUpdate }: JobTableProps) {
+  const [layout, setLayout] = useState<TableLayout>(DEFAULT_TABLE_LAYOUT);
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+
+  // Layout is shared with other tabs
+  useEffect(() => {
+    const load = async () =>
+      setLayout(normalizeLayout(await tableLayoutStorage.get()));
+
+    load();
+    return tableLayoutStorage.subscribe(load);
+  }, []);
+
+  const updateLayout = (updates: Partial<TableLayout>) => {
+    const next = { ...layout, ...updates };
+    setLayout(next);
+    tableLayoutStorage.save(next);
+  };
+
+  const visibleColumns = layout.columns
+    .filter((id) => !layout.hidden.includes(id))
+    .map(columnById);
+  // Without sort keys of its own the table keeps the shared sort
+  const rows = sortRows(jobs, layout.sort);
+
+  // Click sorts by one column; shift-click adds it as a further key.
+  // Each click goes ascending, descending, then off.
+  const handleSort = (id: string, additive: boolean) => {
+    const current = layout.sort.find((key) => key.column === id);
+    const others = additive
+      ? layout.sort.filter((key) => key.column !== id)
+      : [];
+
+    if (!current) {
+      updateLayout({ sort: [...others, { column: id, order: "asc" }] });
+    } else if (current.order === "asc") {
+      const toggled = { column: id, order: "desc" as const };
+      updateLayout({
+        sort: additive
+          ? layout.sort.map((key) => (key.column === id ? toggled : key))
+          : [toggled],
+      });
+    } else {
+      updateLayout({ sort: others });
+    }
+  };
+
+  const moveColumn = (id: string, target: number) => {
+    const columns = layout.columns.filter((column) => column !== id);
+    columns.splice(Math.max(0, Math.min(target, columns.length)), 0, id);
+    updateLayout({ columns });
+  };
+
+  const toggleColumn = (id: string, visible: boolean) =>
+    updateLayout({
+      hidden: visible
+        ? layout.hidden.filter((column) => column !== id)
+        : [...layout.hidden, id],
+    });
+
+  const handleHeaderDrop = (target: string) => {
+    if (draggedColumn && draggedColumn !== target) {
+      moveColumn(draggedColumn, layout.columns.indexOf(target));
+    }
+    setDraggedColumn(null);
+  };
+
+  const renderCell = (job: JobApplication, column: TableColumn) => {
+    switch (column.id) {
+      case "company":
+        return (
+          <button
+            type="button"
+            className="font-medium hover:underline text-left"
+            onClick={() => onEdit(job)}
+          >
+            {job.company}
+          </button>
+        );
+      case "status":
+        return (
+          <Select
+            value={job.status}
+            onValueChange={(status) => onUpdate(job.id, { status })}
+          >
+            <SelectTrigger
+              size="sm"
+              className="w-40"
+              aria-label={`Status of ${job.company}`}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {stages.map((stage) => (
+                <SelectItem key={stage.id} value={stage.id}>
+                  <span
+                    className={`h-2 w-2 rounded-full ${
+                      STAGE_DOT_CLASSES[stage.color]
+                    }`}
+                  />
+                  {stage.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "priority":
+        return (
+          <Select
+            value={job.priority || "medium"}
+            onValueChange={(priority) =>
+              onUpdate(job.id, {
+                priority: priority as JobApplication["priority"],
+              })
+            }
+          >
+            <SelectTrigger
+              size="sm"
+              className="w-28"
+              aria-label={`Priority of ${job.company}`}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="high">High</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="low">Low</SelectItem>
+            </SelectContent>
+          </Select>
+        );
+      case "appliedDate":
+        return formatDate(job.appliedDate);
+      case "salary":
+        return formatSalary(job);
+      case "nextAction": {
+        const action = nextActionFor(job);
+        return action ? `${action.label} ${formatDate(action.date)}` : "";
+      }
+      case "role":
+        return job.role;
+      default:
+        return column.sortValue(job);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Columns3 className="h-4 w-4 mr-2" />
+              Columns
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 space-y-1">
+            {layout.columns.map((id, index) => (
+              <div key={id} className="flex items-center gap-2">
+                <Switch
+                  id={`table-column-${id}`}
+                  checked={!layout.hidden.includes(id)}
+                  onCheckedChange={(checked: boolean) =>
+                    toggleColumn(id, checked)
+                  }
+                />
+                <Label htmlFor={`table-column-${id}`} className="flex-1">
+                  {columnById(id).label}
+                </Label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="px-2"
+                  disabled={index === 0}
+                  onClick={() => moveColumn(id, index - 1)}
+                  aria-label={`Move ${columnById(id).label} up`}
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="px-2"
+                  disabled={index === layout.columns.length - 1}
+                  onClick={() => moveColumn(id, index + 1)}
+                  aria-label={`Move ${columnById(id).label} down`}
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full mt-2"
+              onClick={() => updateLayout(DEFAULT_TABLE_LAYOUT)}
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset layout
+            </Button>
+          </PopoverContent>
+        </Popover>
+      </div>
+
+      <div className="overflow-auto rounded-md border h-[calc(100vh-400px)] sm:h-[calc(100vh-450px)]">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 z-10 bg-muted">
+            <tr>
+              {visibleColumns.map((column) => {
+                const keyIndex = layout.sort.findIndex(
+                  (key) => key.column === column.id
+                );
+                const key = layout.sort[keyIndex];
+
+                return (
+                  <th
+                    key={column.id}
+                    scope="col"
+                    draggable
+                    onDragStart={() => setDraggedColumn(column.id)}
+                    onDragEnd={() => setDraggedColumn(null)}
+                    onDragOver={(event) => {
+                      if (draggedColumn) event.preventDefault();
+                    }}
+                    onDrop={() => handleHeaderDrop(column.id)}
+                    aria-sort={
+                      key
+                        ? key.order === "asc"
+                          ? "ascending"
+                          : "descending"
+                        : undefined
+                    }
+                    className={`px-3 py-2 font-medium whitespace-nowrap ${
+                      column.numeric ? "text-right" : "text-left"
+                    } ${draggedColumn === column.id ? "opacity-50" : ""}`}
+                  >
+                    <button
+                      type="button"
+                      className="inline-flex items-center gap-1 hover:text-foreground"
+                      onClick={(event) => handleSort(column.id, event.shiftKey)}
+                      title="Click to sort, shift-click to add a sort key"
+                    >
+                      {column.label}
+                      {key &&
+                        (key.order === "asc" ? (
+                          <ArrowUp className="h-3 w-3" />
+                        ) : (
+                          <ArrowDown className="h-3 w-3" />
+                        ))}
+                      {key && layout.sort.length > 1 && (
+                        <span className="text-xs text-muted-foreground">
+                          {keyIndex + 1}
+                        </span>
+                      )}
+                    </button>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((job) => (
+              <tr
+                key={job.id}
+                className={`border-t hover:bg-muted/50 ${
+                  job.archived ? "text-muted-foreground" : ""
+                }`}
+              >
+                {visibleColumns.map((column) => (
+                  <td
+                    key={column.id}
+                    className={`px-3 py-1.5 whitespace-nowrap ${
+                      column.numeric ? "text-right tabular-nums" : ""
+                    }`}
+                  >
+                    {renderCell(job, column)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,28 @@
 "use client";
 
 import { useState, useEffect, useMemo } from "react";
-import { JobApplication, FilterOptions, SortOptions } from "@/types/job";
+import {
+  Interview,
+  JobApplication,
+  Offer,
+  FilterOptions,
+  SortOptions,
+  StageCategory,
+} from "@/types/job";
 import { jobStorage } from "@/lib/jobStorage";
-import { DataExportService } from "@/lib/dataExportService";
+import { DataExportService, ExportOptions } from "@/lib/dataExportService";
 import { notificationService } from "@/lib/notificationService";
 import { statusAutomationService } from "@/lib/statusAutomationService";
 import { performanceService } from "@/lib/performanceService";
 import { accessibilityService } from "@/lib/accessibilityService";
+import { documentService } from "@/lib/documentService";
+import { templateService } from "@/lib/templateService";
+import { historyService } from "@/lib/historyService";
+import { migrationService } from "@/lib/migrationService";
+import { snapshotService } from "@/lib/snapshotService";
+import { onStorageBlocked } from "@/lib/storageAdapter";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import { checkTransition, TransitionOptions } from "@/lib/statusTransitions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -16,12 +31,36 @@ import { AddJobDialog } from "@/components/AddJobDialog";
 import { DocumentManagerDialog } from "@/components/DocumentManagerDialog";
 import { EditJobDialog } from "@/components/EditJobDialog";
 import { JobCard } from "@/components/JobCard";
+import { KanbanBoard } from "@/components/KanbanBoard";
+import { JobTable } from "@/components/JobTable";
+import { CalendarView } from "@/components/CalendarView";
 import { EnhancedFilters } from "@/components/EnhancedFilters";
 import { DeleteConfirmDialog } from "@/components/DeleteConfirmDialog";
 import { NotificationPanel } from "@/components/NotificationPanel";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { UndoToast } from "@/components/UndoToast";
+import { SnapshotManager } from "@/components/SnapshotManager";
+import { BackupDialog } from "@/components/BackupDialog";
+import { VaultSettingsDialog } from "@/components/VaultSettingsDialog";
+import { PipelineStageManager } from "@/components/PipelineStageManager";
+import { StatusChangeDialog } from "@/components/StatusChangeDialog";
+import { ImportWizard } from "@/components/ImportWizard";
+import { ExportDialog } from "@/components/ExportDialog";
+import { CalendarInviteDialog } from "@/components/CalendarInviteDialog";
+import { InterviewManager } from "@/components/InterviewManager";
+import { OfferDialog } from "@/components/OfferDialog";
+import { OfferComparison } from "@/components/OfferComparison";
+import { OutcomeAnalytics } from "@/components/OutcomeAnalytics";
+import { RuleManager } from "@/components/RuleManager";
+import { ContactImportDialog } from "@/components/ContactImportDialog";
+import { isCalendarFile } from "@/lib/calendarImport";
+import { isVCardFile } from "@/lib/vcard";
+import { upcomingInterviews } from "@/lib/interviews";
+import { isLostStage } from "@/lib/outcomes";
+import { ImportPlan } from "@/lib/importService";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { searchJobs, filterJobs } from "@/lib/searchUtils";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import {
   FadeIn,
   LoadingSpinner,
@@ -40,20 +79,69 @@ import {
   Archive,
   Bell,
   Lightbulb,
+  Undo2,
+  Redo2,
+  History,
+  FileText,
+  FileSpreadsheet,
+  CalendarPlus,
+  Contact as ContactIcon,
+  Lock,
+  GitBranch,
+  HandCoins,
+  ChartBarDecreasing,
+  Zap,
+  LayoutGrid,
+  Columns3,
+  Table2,
+  CalendarDays,
+  AlertTriangle,
+  X,
 } from "lucide-react";
 
+type ViewMode = "list" | "board" | "table" | "calendar";
+
 export default function JobTracker() {
   const [jobs, setJobs] = useState<JobApplication[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
   const [editingJob, setEditingJob] = useState<JobApplication | null>(null);
+  const [interviewJobId, setInterviewJobId] = useState<string | null>(null);
   const [filters, setFilters] = useState<FilterOptions>({});
   const [sort, setSort] = useState<SortOptions>({
     field: "appliedDate",
     order: "desc",
   });
   const [loading, setLoading] = useState(true);
+  const [storageBlocked, setStorageBlocked] = useState(false);
+  const [updateError, setUpdateError] = useState<string | null>(null);
+  const [view, setView] = useState<ViewMode>("list");
   const [notificationPanelOpen, setNotificationPanelOpen] = useState(false);
   const [documentManagerOpen, setDocumentManagerOpen] = useState(false);
+  const [snapshotManagerOpen, setSnapshotManagerOpen] = useState(false);
+  const [backupDialogOpen, setBackupDialogOpen] = useState(false);
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [vaultDialogOpen, setVaultDialogOpen] = useState(false);
+  const [stageManagerOpen, setStageManagerOpen] = useState(false);
+  const [offerJobId, setOfferJobId] = useState<string | null>(null);
+  const [offerComparisonOpen, setOfferComparisonOpen] = useState(false);
+  const [outcomesOpen, setOutcomesOpen] = useState(false);
+  const [ruleManagerOpen, setRuleManagerOpen] = useState(false);
+  const [contactFile, setContactFile] = useState<File | null>(null);
+  const [statusChange, setStatusChange] = useState<{
+    job: JobApplication;
+    status?: string;
+    updates?: Partial<JobApplication>;
+  } | null>(null);
+  const stages = usePipelineStages();
+  const [importWizardOpen, setImportWizardOpen] = useState(false);
+  const [exportFormat, setExportFormat] =
+    useState<ExportOptions["format"]>("csv");
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [invite, setInvite] = useState<{ file: File; jobId?: string } | null>(
+    null
+  );
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
   const [selectedJobForDocuments, setSelectedJobForDocuments] = useState<
     string | undefined
   >(undefined);
@@ -63,25 +151,45 @@ export default function JobTracker() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [jobToDelete, setJobToDelete] = useState<JobApplication | null>(null);
 
+  // Undo/redo state
+  const [undoMessage, setUndoMessage] = useState<string | null>(null);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
+
+  // An older tab can hold up the storage upgrade until it is closed
+  useEffect(() => onStorageBlocked(setStorageBlocked), []);
+
   // Initialize services and load data
   useEffect(() => {
     const initializeApp = async () => {
       setLoading(true);
 
+      // Wait for the persisted stores to load from IndexedDB
+      await Promise.all([
+        notificationService.ready,
+        statusAutomationService.ready,
+        documentService.ready,
+        templateService.ready,
+        accessibilityService.ready,
+        historyService.ready,
+        migrationService.ready,
+        pipelineStageService.ready,
+      ]);
+
       // Request notification permissions
       await notificationService.requestPermission();
 
       // Load jobs
-      const loadedJobs = jobStorage.getAll();
+      const loadedJobs = await jobStorage.getAll();
       setJobs(loadedJobs);
+      setLoading(false);
 
-      // Check for status automation suggestions
-      const suggestions = statusAutomationService.analyzeJobs(loadedJobs);
-      if (suggestions.length > 0) {
-        console.log(`Found ${suggestions.length} status suggestions`);
-      }
+      runAutomaticRules(loadedJobs);
 
-      setLoading(false);
+      // Daily safety net; runs after migrations so the snapshot is current
+      snapshotService
+        .ensureDailySnapshot()
+        .catch((error) => console.error("Daily snapshot failed:", error));
 
       // Announce app ready to screen readers
       accessibilityService.announce(
@@ -105,10 +213,89 @@ export default function JobTracker() {
     return unsubscribe;
   }, []);
 
-  const handleAddJob = (jobData: Omit<JobApplication, "id">) => {
+  // Long-lived tabs still get one snapshot per day
+  useEffect(() => {
+    const interval = setInterval(
+      () => {
+        snapshotService
+          .ensureDailySnapshot()
+          .catch((error) => console.error("Daily snapshot failed:", error));
+      },
+      60 * 60 * 1000
+    ); // Check hourly
+
+    return () => clearInterval(interval);
+  }, []);
+
+  // Reload jobs when another tab changes them
+  useEffect(() => {
+    return jobStorage.subscribe(async () => {
+      setJobs(await jobStorage.getAll());
+    });
+  }, []);
+
+  // Track undo/redo availability
+  useEffect(() => {
+    const refresh = () => {
+      setCanUndo(historyService.canUndo());
+      setCanRedo(historyService.canRedo());
+    };
+
+    refresh();
+    return historyService.onChange(refresh);
+  }, []);
+
+  const handleUndo = async () => {
+    const entry = await jobStorage.undo();
+    if (!entry) return;
+
+    setJobs(await jobStorage.getAll());
+    setUndoMessage(null);
+    accessibilityService.announce(`Undone: ${entry.label}`);
+  };
+
+  const handleRedo = async () => {
+    const entry = await jobStorage.redo();
+    if (!entry) return;
+
+    setJobs(await jobStorage.getAll());
+    accessibilityService.announce(`Redone: ${entry.label}`);
+  };
+
+  // Keyboard shortcuts: Ctrl+Z to undo, Ctrl+Shift+Z (or Ctrl+Y) to redo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return;
+
+      // Leave text fields to their native undo
+      const target = event.target as HTMLElement | null;
+      if (
+        target &&
+        (target.tagName === "INPUT" ||
+          target.tagName === "TEXTAREA" ||
+          target.isContentEditable)
+      ) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const handleAddJob = async (jobData: Omit<JobApplication, "id">) => {
     console.log("handleAddJob called with:", jobData);
 
-    const newJob = jobStorage.add(jobData);
+    const newJob = await jobStorage.add(jobData);
     console.log("Job added to storage:", newJob);
 
     setJobs((prev) => {
@@ -118,12 +305,12 @@ export default function JobTracker() {
     });
 
     // Verify the job was actually saved
-    setTimeout(() => {
-      const savedJobs = jobStorage.getAll();
+    setTimeout(async () => {
+      const savedJobs = await jobStorage.getAll();
       const foundJob = savedJobs.find((job) => job.id === newJob.id);
       console.log("Verification - job found in storage:", !!foundJob);
       if (!foundJob) {
-        console.error("ERROR: Job was not properly saved to localStorage!");
+        console.error("ERROR: Job was not properly saved to storage!");
       }
     }, 100);
 
@@ -142,28 +329,70 @@ export default function JobTracker() {
     return newJob;
   };
 
-  const handleUpdateJob = (id: string, updates: Partial<JobApplication>) => {
-    jobStorage.update(id, updates);
+  // Resolves to the saved application, or null when nothing was saved yet
+  // because the move went to the status dialog
+  const handleUpdateJob = async (
+    id: string,
+    updates: Partial<JobApplication>,
+    transition?: TransitionOptions
+  ): Promise<JobApplication | null> => {
+    // Moves the stage rules don't allow, that need a date or reason, or
+    // that lose the application go through the status dialog first
+    const current = jobs.find((j) => j.id === id);
+    if (
+      !transition &&
+      current &&
+      updates.status &&
+      updates.status !== current.status
+    ) {
+      const check = checkTransition(
+        { ...current, ...updates },
+        current.status,
+        updates.status
+      );
+      if (
+        !check.allowed ||
+        check.missing.length > 0 ||
+        isLostStage(updates.status)
+      ) {
+        const { status, ...otherUpdates } = updates;
+        setStatusChange({ job: current, status, updates: otherUpdates });
+        return null;
+      }
+    }
+
+    const saved = await jobStorage.update(id, updates, transition);
+    const updatedJobs = jobs.map((job) =>
+      job.id === id && saved ? saved : job
+    );
     setJobs((prev) =>
-      prev.map((job) => (job.id === id ? { ...job, ...updates } : job))
+      prev.map((job) => (job.id === id && saved ? saved : job))
     );
+    runAutomaticRules(updatedJobs);
 
-    // Check for status automation suggestions when status changes
+    // Announce update to screen readers
     if (updates.status) {
-      const updatedJob = jobs.find((j) => j.id === id);
-      if (updatedJob) {
-        const suggestions = statusAutomationService.analyzeJobs([
-          { ...updatedJob, ...updates },
-        ]);
-        if (suggestions.length > 0) {
-          console.log("Status update suggestions:", suggestions);
-        }
-      }
+      const label = pipelineStageService.getLabel(updates.status);
+      accessibilityService.announce(`Updated status to ${label}`);
+      setUndoMessage(`Status changed to ${label}`);
     }
+    return saved;
+  };
 
-    // Announce update to screen readers
-    if (updates.status) {
-      accessibilityService.announce(`Updated status to ${updates.status}`);
+  // Board drops and table edits have no dialog to show a failed save in
+  const handleInlineUpdate = async (
+    id: string,
+    updates: Partial<JobApplication>
+  ) => {
+    setUpdateError(null);
+    try {
+      await handleUpdateJob(id, updates);
+    } catch (error) {
+      console.error("Failed to update job:", error);
+      const message =
+        error instanceof Error ? error.message : "Couldn't save the change";
+      setUpdateError(message);
+      accessibilityService.announce(message);
     }
   };
 
@@ -175,10 +404,11 @@ export default function JobTracker() {
     }
   };
 
-  const confirmDeleteJob = () => {
+  const confirmDeleteJob = async () => {
     if (jobToDelete) {
-      jobStorage.delete(jobToDelete.id);
+      await jobStorage.delete(jobToDelete.id);
       setJobs((prev) => prev.filter((job) => job.id !== jobToDelete.id));
+      setUndoMessage(`Deleted ${jobToDelete.role} at ${jobToDelete.company}`);
       setJobToDelete(null);
     }
   };
@@ -198,50 +428,184 @@ export default function JobTracker() {
     setSearchTerm("");
   };
 
-  const handleExportCSV = () => {
-    DataExportService.exportJobs(jobs, { format: "csv" });
+  const handleSnapshotRestored = async () => {
+    setJobs(await jobStorage.getAll());
+    setSnapshotManagerOpen(false);
+    setUndoMessage("Restored snapshot");
+    accessibilityService.announce("Snapshot restored");
   };
 
-  const handleExportJSON = () => {
-    DataExportService.exportJobs(jobs, { format: "json" });
+  const handleBackupRestored = async () => {
+    setJobs(await jobStorage.getAll());
+    setBackupDialogOpen(false);
+    setUndoMessage("Restored backup");
+    accessibilityService.announce("Backup restored");
   };
 
-  const handleImportData = async (
-    event: React.ChangeEvent<HTMLInputElement>
-  ) => {
+  // Rules that act pick up the saved applications afterwards
+  const runAutomaticRules = async (current: JobApplication[]) => {
+    try {
+      const results = await statusAutomationService.runAutomaticRules(current);
+      if (results.length > 0) setJobs(await jobStorage.getAll());
+    } catch (error) {
+      console.error("Failed to run rules:", error);
+    }
+  };
+
+  const handleJobsMoved = async (message: string) => {
+    setJobs(await jobStorage.getAll());
+    setUndoMessage(message);
+    accessibilityService.announce(message);
+  };
+
+  const openExportDialog = (format: ExportOptions["format"]) => {
+    setExportFormat(format);
+    setExportDialogOpen(true);
+  };
+
+  // Parsing and matching happen in the import wizard
+  const handleImportData = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    try {
-      let importedJobs: JobApplication[] = [];
-
-      if (file.name.endsWith(".json")) {
-        importedJobs = await DataExportService.importFromJSON(file);
-      } else if (file.name.endsWith(".csv")) {
-        importedJobs = await DataExportService.importFromCSV(file);
-      } else {
-        throw new Error("Unsupported file format");
-      }
+    if (isCalendarFile(file)) {
+      handleCalendarInvite(file);
+    } else if (isVCardFile(file)) {
+      setContactFile(file);
+    } else if (file.name.toLowerCase().endsWith(".zip")) {
+      // Full backups, possibly encrypted, are restored in the backup dialog
+      setBackupFile(file);
+      setBackupDialogOpen(true);
+    } else {
+      setImportFile(file);
+      setImportWizardOpen(true);
+    }
 
-      if (importedJobs.length > 0) {
-        // Add imported jobs using jobStorage.add to ensure proper ID generation
-        importedJobs.forEach((job) => {
-          const { id, ...jobWithoutId } = job;
-          jobStorage.add(jobWithoutId);
-        });
+    // Reset the input so the same file can be picked again
+    event.target.value = "";
+  };
+
+  // Invites dropped on a card go to that job; elsewhere they are matched
+  const handleCalendarInvite = (file: File, job?: JobApplication) => {
+    setInvite({ file, jobId: job?.id });
+    setInviteDialogOpen(true);
+  };
+
+  const handleBoardDragOver = (event: React.DragEvent) => {
+    if (event.dataTransfer.types.includes("Files")) event.preventDefault();
+  };
+
+  const handleBoardDrop = (event: React.DragEvent) => {
+    const file = Array.from(event.dataTransfer.files).find(isCalendarFile);
+    if (!file) return;
+
+    event.preventDefault();
+    handleCalendarInvite(file);
+  };
 
-        // Refresh the jobs list
-        setJobs(jobStorage.getAll());
+  const renderJobCard = (job: JobApplication) => (
+    <JobCard
+      key={job.id}
+      job={job}
+      onEdit={setEditingJob}
+      onDelete={handleDeleteJob}
+      onStatusChange={handleUpdateJob}
+      onManageDocuments={handleManageDocuments}
+      onExportCalendar={(job) => DataExportService.exportJobCalendar(job)}
+      onExportContacts={(job) =>
+        DataExportService.exportContactList(job.contacts || [], job.company)
       }
+      onCalendarInvite={handleCalendarInvite}
+      onManageInterviews={(job) => setInterviewJobId(job.id)}
+      onManageOffer={(job) => setOfferJobId(job.id)}
+    />
+  );
+
+  // Dates moved on the calendar take their reminders with them
+  const handleReschedule = async (
+    id: string,
+    updates: Partial<JobApplication>
+  ) => {
+    let saved: JobApplication | null;
+    try {
+      saved = await handleUpdateJob(id, updates);
     } catch (error) {
-      console.error("Import failed:", error);
-      // You could add a toast notification here
+      console.error("Failed to reschedule:", error);
+      accessibilityService.announce("Couldn't reschedule");
+      return;
     }
+    if (!saved) return;
 
-    // Reset the input
-    event.target.value = "";
+    notificationService.rescheduleJobReminders(saved);
+    const message = `Rescheduled ${saved.company}`;
+    accessibilityService.announce(message);
+    setUndoMessage(message);
+  };
+
+  const handleInviteApplied = async (
+    id: string,
+    updates: Partial<JobApplication>
+  ) => {
+    // Failures reach the invite dialog, which shows them
+    const saved = await handleUpdateJob(id, updates);
+    if (!saved) return;
+
+    notificationService.rescheduleJobReminders(saved);
+    accessibilityService.announce(
+      `Added interview for ${saved.role} at ${saved.company}`
+    );
+    setUndoMessage(`Interview added to ${saved.company}`);
+  };
+
+  // Rounds edited in the interview manager
+  const handleInterviewsSaved = async (id: string, interviews: Interview[]) => {
+    let saved: JobApplication | null;
+    try {
+      saved = await handleUpdateJob(id, { interviews });
+    } catch (error) {
+      console.error("Failed to save interviews:", error);
+      accessibilityService.announce("Couldn't save interviews");
+      return;
+    }
+    if (!saved) return;
+
+    notificationService.rescheduleJobReminders(saved);
+    accessibilityService.announce(`Saved interviews for ${saved.company}`);
+  };
+
+  // Offers keep their expiry reminder in step
+  const handleOfferSaved = async (id: string, offer: Offer | undefined) => {
+    let saved: JobApplication | null;
+    try {
+      saved = await handleUpdateJob(id, { offer });
+    } catch (error) {
+      console.error("Failed to save offer:", error);
+      accessibilityService.announce("Couldn't save the offer");
+      return;
+    }
+    if (!saved) return;
+
+    notificationService.rescheduleJobReminders(saved);
+    const message = offer
+      ? `Saved offer from ${saved.company}`
+      : `Removed offer from ${saved.company}`;
+    accessibilityService.announce(message);
+    setUndoMessage(message);
   };
 
+  const handleImported = async (plan: ImportPlan) => {
+    setJobs(await jobStorage.getAll());
+    setUndoMessage(
+      `Imported ${plan.additions.length} new, updated ${plan.updates.length}`
+    );
+  };
+
+  // Statuses from imports or other tabs that have no stage yet get one
+  useEffect(() => {
+    if (loading) return;
+    pipelineStageService.registerMissing(jobs.map((job) => job.status));
+  }, [jobs, loading]);
+
   // Get unique categories for filter options
   const categories = useMemo(() => {
     const cats = jobs
@@ -260,6 +624,12 @@ export default function JobTracker() {
     // Then apply filters
     filtered = filterJobs(filtered, filters);
 
+    // Statuses sort in pipeline order; unknown ones go last
+    const stageIndex = (status: string) => {
+      const index = stages.findIndex((stage) => stage.id === status);
+      return index === -1 ? stages.length : index;
+    };
+
     // Finally sort the results
     filtered.sort((a, b) => {
       let comparison = 0;
@@ -277,7 +647,7 @@ export default function JobTracker() {
           comparison = a.role.localeCompare(b.role);
           break;
         case "status":
-          comparison = a.status.localeCompare(b.status);
+          comparison = stageIndex(a.status) - stageIndex(b.status);
           break;
         case "priority":
           const priorityOrder = { high: 3, medium: 2, low: 1 };
@@ -304,26 +674,34 @@ export default function JobTracker() {
     });
 
     return filtered;
-  }, [jobs, searchTerm, filters, sort]);
+  }, [jobs, searchTerm, filters, sort, stages]);
+
+  const initialStage =
+    stages.find((stage) => stage.category === "active") || stages[0];
 
   const getStats = () => {
     const total = jobs.length;
-    const applied = jobs.filter((j) => j.status === "applied").length;
-    const interviews = jobs.filter((j) => j.status === "interview").length;
-    const offers = jobs.filter((j) => j.status === "offered").length;
-    const rejected = jobs.filter((j) => j.status === "rejected").length;
-    const upcomingInterviews = jobs.filter(
-      (j) => j.interviewDate && new Date(j.interviewDate) > new Date()
-    ).length;
+    const inCategory = (category: StageCategory) =>
+      jobs.filter(
+        (j) => pipelineStageService.getCategory(j.status) === category
+      );
+    const applied = jobs.filter((j) => j.status === initialStage.id).length;
+    const inProgress = inCategory("active").length - applied;
+    const won = inCategory("closed-won").length;
+    const lost = inCategory("closed-lost").length;
+    const upcoming = jobs.reduce(
+      (count, j) => count + upcomingInterviews(j).length,
+      0
+    );
     const highPriority = jobs.filter((j) => j.priority === "high").length;
 
     return {
       total,
       applied,
-      interviews,
-      offers,
-      rejected,
-      upcomingInterviews,
+      inProgress,
+      won,
+      lost,
+      upcomingInterviews: upcoming,
       highPriority,
     };
   };
@@ -338,7 +716,9 @@ export default function JobTracker() {
             <LoadingSpinner size="lg" className="mx-auto mb-4" />
             <h2 className="text-lg font-semibold mb-2">Loading Job Tracker</h2>
             <p className="text-muted-foreground">
-              Setting up your application dashboard...
+              {storageBlocked
+                ? "Close other AppliTrack tabs to finish updating your data"
+                : "Setting up your application dashboard..."}
             </p>
           </div>
         </div>
@@ -384,6 +764,62 @@ export default function JobTracker() {
                       <Upload className="w-4 h-4 mr-2" />
                       Documents
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSnapshotManagerOpen(true)}
+                    >
+                      <History className="w-4 h-4 mr-2" />
+                      Snapshots
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setBackupDialogOpen(true)}
+                    >
+                      <Archive className="w-4 h-4 mr-2" />
+                      Backup
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setVaultDialogOpen(true)}
+                    >
+                      <Lock className="w-4 h-4 mr-2" />
+                      Encryption
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setStageManagerOpen(true)}
+                    >
+                      <GitBranch className="w-4 h-4 mr-2" />
+                      Stages
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOfferComparisonOpen(true)}
+                    >
+                      <HandCoins className="w-4 h-4 mr-2" />
+                      Offers
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOutcomesOpen(true)}
+                    >
+                      <ChartBarDecreasing className="w-4 h-4 mr-2" />
+                      Outcomes
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRuleManagerOpen(true)}
+                    >
+                      <Zap className="w-4 h-4 mr-2" />
+                      Rules
+                    </Button>
                   </div>
 
                   {/* Mobile: Show compact icon buttons */}
@@ -416,6 +852,76 @@ export default function JobTracker() {
                     >
                       <Upload className="w-4 h-4" />
                     </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setSnapshotManagerOpen(true)}
+                      className="px-2"
+                      title="Snapshots"
+                      aria-label="Open snapshots"
+                    >
+                      <History className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setBackupDialogOpen(true)}
+                      className="px-2"
+                      title="Full backup"
+                      aria-label="Open full backup"
+                    >
+                      <Archive className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setVaultDialogOpen(true)}
+                      className="px-2"
+                      title="Encryption"
+                      aria-label="Open encryption settings"
+                    >
+                      <Lock className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setStageManagerOpen(true)}
+                      className="px-2"
+                      title="Pipeline stages"
+                      aria-label="Open pipeline stages"
+                    >
+                      <GitBranch className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOfferComparisonOpen(true)}
+                      className="px-2"
+                      title="Compare offers"
+                      aria-label="Compare offers"
+                    >
+                      <HandCoins className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setOutcomesOpen(true)}
+                      className="px-2"
+                      title="Outcomes"
+                      aria-label="Open outcome analytics"
+                    >
+                      <ChartBarDecreasing className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRuleManagerOpen(true)}
+                      className="px-2"
+                      title="Rules"
+                      aria-label="Manage rules"
+                    >
+                      <Zap className="w-4 h-4" />
+                    </Button>
                   </div>
                 </div>
               </div>
@@ -442,7 +948,7 @@ export default function JobTracker() {
                     <div className="flex items-center gap-2 mb-1">
                       <Clock className="w-4 h-4 text-blue-500" />
                       <span className="text-xs sm:text-sm font-medium text-muted-foreground">
-                        Applied
+                        {initialStage?.name}
                       </span>
                     </div>
                     <AnimatedCounter
@@ -457,11 +963,11 @@ export default function JobTracker() {
                     <div className="flex items-center gap-2 mb-1">
                       <TrendingUp className="w-4 h-4 text-yellow-500" />
                       <span className="text-xs sm:text-sm font-medium text-muted-foreground">
-                        Interviews
+                        In progress
                       </span>
                     </div>
                     <AnimatedCounter
-                      value={stats.interviews}
+                      value={stats.inProgress}
                       className="text-xl sm:text-2xl font-bold text-yellow-600"
                     />
                   </div>
@@ -472,11 +978,11 @@ export default function JobTracker() {
                     <div className="flex items-center gap-2 mb-1">
                       <CheckCircle className="w-4 h-4 text-green-500" />
                       <span className="text-xs sm:text-sm font-medium text-muted-foreground">
-                        Offers
+                        Won
                       </span>
                     </div>
                     <AnimatedCounter
-                      value={stats.offers}
+                      value={stats.won}
                       className="text-xl sm:text-2xl font-bold text-green-600"
                     />
                   </div>
@@ -487,11 +993,11 @@ export default function JobTracker() {
                     <div className="flex items-center gap-2 mb-1">
                       <XCircle className="w-4 h-4 text-red-500" />
                       <span className="text-xs sm:text-sm font-medium text-muted-foreground">
-                        Rejected
+                        Lost
                       </span>
                     </div>
                     <AnimatedCounter
-                      value={stats.rejected}
+                      value={stats.lost}
                       className="text-xl sm:text-2xl font-bold text-red-600"
                     />
                   </div>
@@ -549,18 +1055,55 @@ export default function JobTracker() {
               <div className="flex flex-wrap gap-2 justify-between items-center">
                 {/* Export/Import buttons */}
                 <div className="flex flex-wrap gap-2">
-                  <Button variant="outline" size="sm" onClick={handleExportCSV}>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openExportDialog("csv")}
+                  >
                     <Download className="h-4 w-4 mr-1 sm:mr-2" />
                     <span className="hidden sm:inline">Export </span>CSV
                   </Button>
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={handleExportJSON}
+                    onClick={() => openExportDialog("json")}
                   >
                     <Download className="h-4 w-4 mr-1 sm:mr-2" />
                     <span className="hidden sm:inline">Export </span>JSON
                   </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openExportDialog("xlsx")}
+                  >
+                    <FileSpreadsheet className="h-4 w-4 mr-1 sm:mr-2" />
+                    <span className="hidden sm:inline">Export </span>Excel
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openExportDialog("ics")}
+                  >
+                    <CalendarPlus className="h-4 w-4 mr-1 sm:mr-2" />
+                    Calendar
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => DataExportService.exportContacts(jobs)}
+                    disabled={!jobs.some((job) => job.contacts?.length)}
+                  >
+                    <ContactIcon className="h-4 w-4 mr-1 sm:mr-2" />
+                    Contacts
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => openExportDialog("pdf")}
+                  >
+                    <FileText className="h-4 w-4 mr-1 sm:mr-2" />
+                    <span className="hidden sm:inline">Export </span>PDF
+                  </Button>
                   <Button variant="outline" size="sm" asChild>
                     <label htmlFor="import-file" className="cursor-pointer">
                       <Upload className="h-4 w-4 mr-1 sm:mr-2" />
@@ -570,19 +1113,85 @@ export default function JobTracker() {
                   <input
                     id="import-file"
                     type="file"
-                    accept=".json,.csv"
+                    accept=".json,.csv,.xlsx,.ics,.vcf,.zip"
                     onChange={handleImportData}
                     className="hidden"
                   />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleUndo}
+                    disabled={!canUndo}
+                    title="Undo (Ctrl+Z)"
+                    aria-label="Undo"
+                  >
+                    <Undo2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleRedo}
+                    disabled={!canRedo}
+                    title="Redo (Ctrl+Shift+Z)"
+                    aria-label="Redo"
+                  >
+                    <Redo2 className="h-4 w-4" />
+                  </Button>
                 </div>
 
-                {/* Add Job Button */}
-                <AddJobDialog onAddJob={handleAddJob}>
-                  <Button>
-                    <Plus className="h-4 w-4 mr-2" />
-                    Add Job
-                  </Button>
-                </AddJobDialog>
+                <div className="flex gap-2">
+                  {/* How the applications are laid out */}
+                  <div className="flex rounded-md border" role="group">
+                    <Button
+                      variant={view === "list" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setView("list")}
+                      aria-pressed={view === "list"}
+                      title="List view"
+                    >
+                      <LayoutGrid className="h-4 w-4 sm:mr-2" />
+                      <span className="hidden sm:inline">List</span>
+                    </Button>
+                    <Button
+                      variant={view === "board" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setView("board")}
+                      aria-pressed={view === "board"}
+                      title="Board view"
+                    >
+                      <Columns3 className="h-4 w-4 sm:mr-2" />
+                      <span className="hidden sm:inline">Board</span>
+                    </Button>
+                    <Button
+                      variant={view === "table" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setView("table")}
+                      aria-pressed={view === "table"}
+                      title="Table view"
+                    >
+                      <Table2 className="h-4 w-4 sm:mr-2" />
+                      <span className="hidden sm:inline">Table</span>
+                    </Button>
+                    <Button
+                      variant={view === "calendar" ? "secondary" : "ghost"}
+                      size="sm"
+                      onClick={() => setView("calendar")}
+                      aria-pressed={view === "calendar"}
+                      title="Calendar view"
+                    >
+                      <CalendarDays className="h-4 w-4 sm:mr-2" />
+                      <span className="hidden sm:inline">Calendar</span>
+                    </Button>
+                  </div>
+
+                  {/* Add Job Button */}
+                  <AddJobDialog onAddJob={handleAddJob}>
+                    <Button>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Job
+                    </Button>
+                  </AddJobDialog>
+                </div>
               </div>
             </div>
 
@@ -610,9 +1219,55 @@ export default function JobTracker() {
               </div>
             )}
 
-            {/* Job Cards */}
-            {filteredAndSortedJobs.length === 0 ? (
-              <div className="text-center py-12">
+            {updateError && (
+              <div
+                role="alert"
+                className="mb-4 flex items-center gap-2 rounded-md border border-destructive/50 px-3 py-2 text-sm text-destructive"
+              >
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                <span className="flex-1">{updateError}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setUpdateError(null)}
+                  className="h-6 w-6 p-0"
+                  aria-label="Dismiss"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+
+            {/* Job Cards; the board and calendar stay up when nothing matches */}
+            {view === "calendar" ? (
+              <CalendarView
+                jobs={filteredAndSortedJobs}
+                onOpenJob={setEditingJob}
+                onReschedule={handleReschedule}
+              />
+            ) : view === "table" ? (
+              <JobTable
+                jobs={filteredAndSortedJobs}
+                stages={stages}
+                onEdit={setEditingJob}
+                onUpdate={handleInlineUpdate}
+              />
+            ) : view === "board" ? (
+              <div onDragOver={handleBoardDragOver} onDrop={handleBoardDrop}>
+                <KanbanBoard
+                  stages={stages}
+                  jobs={filteredAndSortedJobs}
+                  allJobs={jobs}
+                  renderCard={renderJobCard}
+                  onMove={(id, status) => handleInlineUpdate(id, { status })}
+                />
+              </div>
+            ) : filteredAndSortedJobs.length === 0 ? (
+              <div
+                className="text-center py-12"
+                onDragOver={handleBoardDragOver}
+                onDrop={handleBoardDrop}
+              >
                 <Briefcase className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
                 <h3 className="text-lg font-semibold mb-2">
                   {jobs.length === 0
@@ -634,18 +1289,13 @@ export default function JobTracker() {
                 )}
               </div>
             ) : (
-              <ScrollArea className="h-[calc(100vh-350px)] sm:h-[calc(100vh-400px)]">
+              <ScrollArea
+                className="h-[calc(100vh-350px)] sm:h-[calc(100vh-400px)]"
+                onDragOver={handleBoardDragOver}
+                onDrop={handleBoardDrop}
+              >
                 <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6 pr-2 sm:pr-4">
-                  {filteredAndSortedJobs.map((job) => (
-                    <JobCard
-                      key={job.id}
-                      job={job}
-                      onEdit={setEditingJob}
-                      onDelete={handleDeleteJob}
-                      onStatusChange={handleUpdateJob}
-                      onManageDocuments={handleManageDocuments}
-                    />
-                  ))}
+                  {filteredAndSortedJobs.map(renderJobCard)}
                 </div>
               </ScrollArea>
             )}
@@ -682,6 +1332,133 @@ export default function JobTracker() {
               open={documentManagerOpen}
               onOpenChange={handleDocumentManagerClose}
             />
+
+            {/* Import preview and merge */}
+            <ImportWizard
+              file={importFile}
+              jobs={jobs}
+              open={importWizardOpen}
+              onOpenChange={setImportWizardOpen}
+              onImported={handleImported}
+            />
+
+            {/* Export format and field selection */}
+            <ExportDialog
+              jobs={jobs}
+              format={exportFormat}
+              open={exportDialogOpen}
+              onOpenChange={setExportDialogOpen}
+            />
+
+            {/* Interview from a calendar invite */}
+            <CalendarInviteDialog
+              file={invite?.file || null}
+              jobId={invite?.jobId}
+              jobs={jobs}
+              open={inviteDialogOpen}
+              onOpenChange={setInviteDialogOpen}
+              onApply={handleInviteApplied}
+            />
+
+            {/* Interview rounds */}
+            <InterviewManager
+              job={jobs.find((j) => j.id === interviewJobId) || null}
+              open={!!interviewJobId}
+              onOpenChange={(open) => !open && setInterviewJobId(null)}
+              onSave={handleInterviewsSaved}
+            />
+
+            {/* Offer details and comparison */}
+            <OfferDialog
+              job={jobs.find((j) => j.id === offerJobId) || null}
+              open={!!offerJobId}
+              onOpenChange={(open) => !open && setOfferJobId(null)}
+              onSave={handleOfferSaved}
+            />
+            <OfferComparison
+              jobs={jobs}
+              open={offerComparisonOpen}
+              onOpenChange={setOfferComparisonOpen}
+              onOpenOffer={(job) => {
+                setOfferComparisonOpen(false);
+                setOfferJobId(job.id);
+              }}
+            />
+
+            {/* Where and why applications were lost */}
+            <OutcomeAnalytics
+              jobs={jobs}
+              open={outcomesOpen}
+              onOpenChange={setOutcomesOpen}
+            />
+
+            {/* Contacts from a vCard file, matched to applications */}
+            <ContactImportDialog
+              file={contactFile}
+              jobs={jobs}
+              open={!!contactFile}
+              onOpenChange={(open) => !open && setContactFile(null)}
+              onImported={handleJobsMoved}
+            />
+
+            {/* Automation rules */}
+            <RuleManager
+              jobs={jobs}
+              open={ruleManagerOpen}
+              onOpenChange={setRuleManagerOpen}
+              onRulesRun={handleJobsMoved}
+            />
+
+            {/* Snapshot restore */}
+            <SnapshotManager
+              open={snapshotManagerOpen}
+              onOpenChange={setSnapshotManagerOpen}
+              onRestored={handleSnapshotRestored}
+            />
+
+            {/* Full backup and restore */}
+            <BackupDialog
+              file={backupFile}
+              open={backupDialogOpen}
+              onOpenChange={(open) => {
+                setBackupDialogOpen(open);
+                if (!open) setBackupFile(null);
+              }}
+              onRestored={handleBackupRestored}
+            />
+
+            {/* Passphrase encryption */}
+            <VaultSettingsDialog
+              open={vaultDialogOpen}
+              onOpenChange={setVaultDialogOpen}
+            />
+
+            {/* Status changes that need a reason, a date or an override */}
+            <StatusChangeDialog
+              job={statusChange?.job || null}
+              status={statusChange?.status}
+              updates={statusChange?.updates}
+              open={!!statusChange}
+              onOpenChange={(open) => {
+                if (!open) setStatusChange(null);
+              }}
+              onConfirm={handleUpdateJob}
+            />
+
+            {/* Pipeline stage registry */}
+            <PipelineStageManager
+              jobs={jobs}
+              open={stageManagerOpen}
+              onOpenChange={setStageManagerOpen}
+              onJobsMoved={handleJobsMoved}
+            />
+
+            {/* Undo toast for destructive actions */}
+            <UndoToast
+              message={undoMessage}
+              onUndo={handleUndo}
+              onDismiss={() => setUndoMessage(null)}
+            />
           </div>
         </div>
       )}
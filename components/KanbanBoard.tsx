@@ -0,0 +1,141 @@
+"use client";
+
+import { ReactNode, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { JobApplication, PipelineStage } from "@/types/job";
+import { STAGE_DOT_CLASSES } from "@/lib/pipelineStageService";
+import { Badge } from "@/components/ui/badge";
+
+// Marks a drag as a card move rather than a dropped file
+const JOB_DRAG_TYPE = "application/x-applitrack-job";
+
+interface KanbanBoardProps {
+  stages: PipelineStage[];
+  jobs: JobApplication[]; // searched, filtered and sorted
+  allJobs: JobApplication[]; // limits count every open application
+  renderCard: (job: JobApplication) => ReactNode;
+  onMove: (id: string, status: string) => Promise<unknown>;
+}
+
+export function KanbanBoard({
+  stages,
+  jobs,
+  allJobs,
+  renderCard,
+  onMove,
+}: KanbanBoardProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [overStage, setOverStage] = useState<string | null>(null);
+
+  const handleDragStart = (event: React.DragEvent, job: JobApplication) => {
+    event.dataTransfer.setData(JOB_DRAG_TYPE, job.id);
+    event.dataTransfer.effectAllowed = "move";
+    setDraggingId(job.id);
+  };
+
+  const handleDragEnd = () => {
+    setDraggingId(null);
+    setOverStage(null);
+  };
+
+  const handleDragOver = (event: React.DragEvent, stage: PipelineStage) => {
+    // Files fall through to the invite drop on the surrounding area
+    if (!event.dataTransfer.types.includes(JOB_DRAG_TYPE)) return;
+
+    event.preventDefault();
+    event.dataTransfer.dropEffect = "move";
+    setOverStage(stage.id);
+  };
+
+  const handleDrop = (event: React.DragEvent, stage: PipelineStage) => {
+    const id = event.dataTransfer.getData(JOB_DRAG_TYPE);
+    if (!id) return;
+
+    event.preventDefault();
+    handleDragEnd();
+    const job = jobs.find((item) => item.id === id);
+    if (job && job.status !== stage.id) onMove(id, stage.id);
+  };
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-4 h-[calc(100vh-350px)] sm:h-[calc(100vh-400px)]">
+      {stages.map((stage) => {
+        // `jobs` is already sorted, so each column keeps that order
+        const columnJobs = jobs.filter((job) => job.status === stage.id);
+        const open = allJobs.filter(
+          (job) => job.status === stage.id && !job.archived
+        ).length;
+        const overLimit = !!stage.wipLimit && open > stage.wipLimit;
+
+        return (
+          <section
+            key={stage.id}
+            aria-label={`${stage.name}, ${columnJobs.length} applications`}
+            className={`flex flex-col w-80 shrink-0 rounded-lg border bg-muted/40 transition-colors ${
+              overStage === stage.id ? "border-primary bg-primary/5" : ""
+            }`}
+            onDragOver={(event) => handleDragOver(event, stage)}
+            onDragLeave={() =>
+              setOverStage((current) => (current === stage.id ? null : current))
+            }
+            onDrop={(event) => handleDrop(event, stage)}
+          >
+            <header className="flex items-center gap-2 p-3 border-b">
+              <span
+                className={`h-2.5 w-2.5 rounded-full ${
+                  STAGE_DOT_CLASSES[stage.color]
+                }`}
+              />
+              <h3 className="font-medium text-sm flex-1 truncate">
+                {stage.name}
+              </h3>
+              <Badge variant="secondary" className="text-xs">
+                {columnJobs.length < open
+                  ? `${columnJobs.length} of ${open}`
+                  : columnJobs.length}
+              </Badge>
+              {!!stage.wipLimit && (
+                <span
+                  className={`text-xs ${
+                    overLimit ? "text-destructive" : "text-muted-foreground"
+                  }`}
+                  title={`Limit of ${stage.wipLimit} open applications`}
+                >
+                  {open}/{stage.wipLimit}
+                </span>
+              )}
+            </header>
+
+            {overLimit && (
+              <p className="flex items-center gap-1 px-3 pt-2 text-xs text-destructive">
+                <AlertTriangle className="h-3 w-3 shrink-0" />
+                Over the limit by {open - (stage.wipLimit || 0)}
+              </p>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-2 space-y-2">
+              {columnJobs.map((job) => (
+                <div
+                  key={job.id}
+                  draggable
+                  onDragStart={(event) => handleDragStart(event, job)}
+                  onDragEnd={handleDragEnd}
+                  className={`cursor-grab active:cursor-grabbing ${
+                    draggingId === job.id ? "opacity-50" : ""
+                  }`}
+                >
+                  {renderCard(job)}
+                </div>
+              ))}
+              {columnJobs.length === 0 && (
+                <p className="text-xs text-muted-foreground text-center py-6">
+                  Drop applications here
+                </p>
+              )}
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import {
   Settings,
   Clock,
   AlertCircle,
+  DollarSign,
+  Zap,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -76,7 +78,17 @@ export function NotificationPanel({
       setSuggestions(notificationService.getSuggestedActions(jobs));
     }, 30000); // Refresh every 30 seconds
 
-    return () => clearInterval(interval);
+    // Also refresh immediately when notifications change, including in other tabs
+    const unsubscribe = notificationService.onUnreadCountChange((count) => {
+      setNotifications(notificationService.getNotifications());
+      setUnreadCount(count);
+      setSettings(notificationService.getSettings());
+    });
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
   }, [jobs]);
 
   const handleRequestPermission = async () => {
@@ -114,6 +126,10 @@ export function NotificationPanel({
         return <Clock className="h-4 w-4 text-blue-500" />;
       case "deadline":
         return <AlertCircle className="h-4 w-4 text-orange-500" />;
+      case "offer-expiry":
+        return <DollarSign className="h-4 w-4 text-teal-500" />;
+      case "rule":
+        return <Zap className="h-4 w-4 text-purple-500" />;
       case "follow-up":
         return <Bell className="h-4 w-4 text-green-500" />;
       default:
@@ -223,6 +239,21 @@ export function NotificationPanel({
                       />
                     </div>
 
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="offer-expiry-reminders">
+                        Offer Expiry Reminders
+                      </Label>
+                      <Switch
+                        id="offer-expiry-reminders"
+                        checked={settings.offerExpiryReminders}
+                        onCheckedChange={(checked: boolean) =>
+                          handleUpdateSettings({
+                            offerExpiryReminders: checked,
+                          })
+                        }
+                      />
+                    </div>
+
                     <div className="flex items-center justify-between">
                       <Label htmlFor="status-updates">Status Updates</Label>
                       <Switch
@@ -0,0 +1,257 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Trophy } from "lucide-react";
+import { ExchangeRates, JobApplication } from "@/types/job";
+import { exchangeRateStorage } from "@/lib/exchangeRateStorage";
+import {
+  COMPARISON_YEARS,
+  DEFAULT_EXCHANGE_RATES,
+  OfferComparison as OfferRow,
+  OfferTotals,
+  compareOffers,
+  formatMoney,
+  offerCurrencies,
+} from "@/lib/offers";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface OfferComparisonProps {
+  jobs: JobApplication[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenOffer: (job: JobApplication) => void;
+}
+
+const TOTAL_ROWS: { key: keyof OfferTotals; label: string }[] = [
+  { key: "baseSalary", label: "Base salary" },
+  { key: "bonus", label: "Bonus (target)" },
+  { key: "equity", label: "Equity, first year" },
+  { key: "signOnBonus", label: "Sign-on bonus" },
+  { key: "firstYear", label: "First-year total" },
+  { key: "fourYear", label: `${COMPARISON_YEARS}-year total` },
+];
+
+const formatDate = (date?: string) =>
+  date
+    ? new Date(date + "T00:00").toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    : "—";
+
+export function OfferComparison({
+  jobs,
+  open,
+  onOpenChange,
+  onOpenOffer,
+}: OfferComparisonProps) {
+  const [rates, setRates] = useState<ExchangeRates>(DEFAULT_EXCHANGE_RATES);
+
+  // Rates are shared with other tabs
+  useEffect(() => {
+    const load = async () =>
+      setRates((await exchangeRateStorage.get()) || DEFAULT_EXCHANGE_RATES);
+
+    load();
+    return exchangeRateStorage.subscribe(load);
+  }, []);
+
+  const updateRates = (updates: Partial<ExchangeRates>) => {
+    const next = { ...rates, ...updates };
+    setRates(next);
+    exchangeRateStorage.save(next);
+  };
+
+  const setRate = (currency: string, value: string) => {
+    const others = Object.fromEntries(
+      Object.entries(rates.rates).filter(([code]) => code !== currency)
+    );
+    const rate = parseFloat(value);
+    updateRates({
+      rates: rate > 0 ? { ...others, [currency]: rate } : others,
+    });
+  };
+
+  const rows = compareOffers(jobs, rates);
+  const currencies = offerCurrencies(jobs, rates.base);
+  const best = (key: keyof OfferTotals) =>
+    Math.max(...rows.map((row) => row.totals?.[key] ?? -Infinity));
+
+  const renderTotal = (row: OfferRow, key: keyof OfferTotals) => {
+    if (!row.totals) return <span className="text-muted-foreground">—</span>;
+    const value = row.totals[key];
+    const highlight =
+      (key === "firstYear" || key === "fourYear") &&
+      rows.length > 1 &&
+      value === best(key);
+    return (
+      <span className={highlight ? "font-semibold text-green-700" : ""}>
+        {formatMoney(value, rates.base)}
+      </span>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare Offers</DialogTitle>
+          <DialogDescription>
+            Open offers in one currency. Bonuses count at target every year;
+            sign-on bonuses count once.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="offer-base-currency">Compare in</Label>
+            <Input
+              id="offer-base-currency"
+              className="w-24"
+              maxLength={3}
+              value={rates.base}
+              onChange={(event) =>
+                updateRates({ base: event.target.value.toUpperCase() })
+              }
+            />
+          </div>
+          {currencies.map((currency) => (
+            <div key={currency} className="space-y-1">
+              <Label htmlFor={`offer-rate-${currency}`}>
+                1 {currency} in {rates.base}
+              </Label>
+              <Input
+                id={`offer-rate-${currency}`}
+                type="number"
+                min={0}
+                step="any"
+                className="w-32"
+                placeholder="Rate"
+                defaultValue={rates.rates[currency] ?? ""}
+                key={`${currency}-${rates.base}`}
+                onChange={(event) => setRate(currency, event.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+
+        {rows.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Trophy className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No open offers to compare</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto rounded-md border">
+            <table className="w-full text-sm">
+              <thead className="bg-muted">
+                <tr>
+                  <th scope="col" className="px-3 py-2" />
+                  {rows.map((row) => (
+                    <th
+                      key={row.job.id}
+                      scope="col"
+                      className="px-3 py-2 text-right font-medium"
+                    >
+                      <button
+                        type="button"
+                        className="hover:underline text-right"
+                        onClick={() => onOpenOffer(row.job)}
+                      >
+                        {row.job.company}
+                      </button>
+                      <div className="text-xs font-normal text-muted-foreground">
+                        {row.job.role}
+                      </div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {TOTAL_ROWS.map(({ key, label }) => (
+                  <tr
+                    key={key}
+                    className={`border-t ${
+                      key === "firstYear" ? "border-t-2" : ""
+                    }`}
+                  >
+                    <th
+                      scope="row"
+                      className="px-3 py-1.5 text-left font-medium"
+                    >
+                      {label}
+                    </th>
+                    {rows.map((row) => (
+                      <td
+                        key={row.job.id}
+                        className="px-3 py-1.5 text-right tabular-nums"
+                      >
+                        {renderTotal(row, key)}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="border-t">
+                  <th scope="row" className="px-3 py-1.5 text-left font-medium">
+                    Offered in
+                  </th>
+                  {rows.map((row) => (
+                    <td key={row.job.id} className="px-3 py-1.5 text-right">
+                      {row.offer.currency}
+                      {row.rate === undefined && (
+                        <div className="text-xs text-orange-600">
+                          Enter a rate to compare
+                        </div>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="border-t">
+                  <th scope="row" className="px-3 py-1.5 text-left font-medium">
+                    Start date
+                  </th>
+                  {rows.map((row) => (
+                    <td key={row.job.id} className="px-3 py-1.5 text-right">
+                      {formatDate(row.offer.startDate)}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="border-t">
+                  <th scope="row" className="px-3 py-1.5 text-left font-medium">
+                    Expires
+                  </th>
+                  {rows.map((row) => (
+                    <td key={row.job.id} className="px-3 py-1.5 text-right">
+                      {formatDate(row.offer.expiryDate)}
+                    </td>
+                  ))}
+                </tr>
+                <tr className="border-t align-top">
+                  <th scope="row" className="px-3 py-1.5 text-left font-medium">
+                    Benefits
+                  </th>
+                  {rows.map((row) => (
+                    <td
+                      key={row.job.id}
+                      className="px-3 py-1.5 text-right whitespace-pre-wrap text-muted-foreground"
+                    >
+                      {row.offer.benefitsNotes || "—"}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
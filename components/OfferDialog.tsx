@@ -0,0 +1,447 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import { JobApplication, Offer, OfferNegotiationEntry } from "@/types/job";
+import { DEFAULT_VESTING, formatMoney, offerTotals } from "@/lib/offers";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+const isAmount = (value: string) => !value || parseFloat(value) >= 0;
+const amount = z.string().refine(isAmount, "Enter an amount of 0 or more");
+
+// "25/25/25/25" style schedules, one percentage per year
+const parseVesting = (value: string): number[] =>
+  value
+    .split(/[\s/,]+/)
+    .filter(Boolean)
+    .map(Number);
+
+const offerSchema = z.object({
+  currency: z
+    .string()
+    .regex(/^[A-Za-z]{3}$/, "Use a three-letter code, e.g. USD"),
+  baseSalary: z
+    .string()
+    .min(1, "Base salary is required")
+    .refine(isAmount, "Enter an amount of 0 or more"),
+  bonus: amount,
+  signOnBonus: amount,
+  equityValue: amount,
+  vesting: z.string().refine((value) => {
+    const years = parseVesting(value);
+    return (
+      years.every((percent) => percent >= 0) &&
+      years.reduce((sum, percent) => sum + percent, 0) <= 100
+    );
+  }, "Percentages per year, adding up to 100 at most"),
+  equityNotes: z.string().optional(),
+  benefitsNotes: z.string().optional(),
+  startDate: z.string().optional(),
+  expiryDate: z.string().optional(),
+});
+
+type OfferFormData = z.infer<typeof offerSchema>;
+
+const toNumber = (value?: string) => {
+  const parsed = parseFloat(value || "");
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const toForm = (job: JobApplication): OfferFormData => {
+  const offer = job.offer;
+  return {
+    currency: offer?.currency || job.salaryRange?.currency || "USD",
+    baseSalary: offer?.baseSalary.toString() || "",
+    bonus: offer?.bonus?.toString() || "",
+    signOnBonus: offer?.signOnBonus?.toString() || "",
+    equityValue: offer?.equity?.grantValue.toString() || "",
+    vesting: (offer?.equity?.vesting || DEFAULT_VESTING).join("/"),
+    equityNotes: offer?.equity?.notes || "",
+    benefitsNotes: offer?.benefitsNotes || "",
+    startDate: offer?.startDate || "",
+    expiryDate: offer?.expiryDate || "",
+  };
+};
+
+const fromForm = (
+  data: OfferFormData,
+  negotiation: OfferNegotiationEntry[]
+): Offer => {
+  const grantValue = toNumber(data.equityValue);
+  return {
+    currency: data.currency.toUpperCase(),
+    baseSalary: toNumber(data.baseSalary) || 0,
+    bonus: toNumber(data.bonus),
+    signOnBonus: toNumber(data.signOnBonus),
+    equity: grantValue
+      ? {
+          grantValue,
+          vesting: parseVesting(data.vesting),
+          notes: data.equityNotes || undefined,
+        }
+      : undefined,
+    benefitsNotes: data.benefitsNotes || undefined,
+    startDate: data.startDate || undefined,
+    expiryDate: data.expiryDate || undefined,
+    negotiation: negotiation.length ? negotiation : undefined,
+  };
+};
+
+interface OfferDialogProps {
+  job: JobApplication | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (id: string, offer: Offer | undefined) => void;
+}
+
+export function OfferDialog({
+  job,
+  open,
+  onOpenChange,
+  onSave,
+}: OfferDialogProps) {
+  const [negotiation, setNegotiation] = useState<OfferNegotiationEntry[]>([]);
+  const [entryFrom, setEntryFrom] =
+    useState<OfferNegotiationEntry["from"]>("me");
+  const [entryNote, setEntryNote] = useState("");
+
+  const form = useForm<OfferFormData>({
+    resolver: zodResolver(offerSchema),
+    defaultValues: job ? toForm(job) : undefined,
+  });
+
+  // Start from the saved offer each time the dialog opens
+  useEffect(() => {
+    if (!open || !job) return;
+    form.reset(toForm(job));
+    setNegotiation(job.offer?.negotiation || []);
+    setEntryNote("");
+  }, [open, job, form]);
+
+  const values = form.watch();
+  const preview =
+    values.baseSalary && offerSchema.safeParse(values).success
+      ? offerTotals(fromForm(values, negotiation))
+      : null;
+
+  const onSubmit = (data: OfferFormData) => {
+    if (!job) return;
+    onSave(job.id, fromForm(data, negotiation));
+    onOpenChange(false);
+  };
+
+  const handleRemove = () => {
+    if (!job) return;
+    onSave(job.id, undefined);
+    onOpenChange(false);
+  };
+
+  const addEntry = () => {
+    if (!entryNote.trim()) return;
+    setNegotiation((entries) => [
+      ...entries,
+      {
+        id: crypto.randomUUID(),
+        date: format(new Date(), "yyyy-MM-dd"),
+        from: entryFrom,
+        note: entryNote.trim(),
+      },
+    ]);
+    setEntryNote("");
+  };
+
+  const renderAmount = (
+    name: "baseSalary" | "bonus" | "signOnBonus" | "equityValue",
+    label: string,
+    description?: string
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type="number" min={0} step="any" {...field} />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            Offer{job ? ` · ${job.company}, ${job.role}` : ""}
+          </DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input placeholder="USD" maxLength={3} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="col-span-2">
+                {renderAmount("baseSalary", "Base salary *", "Per year")}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {renderAmount("bonus", "Bonus", "Yearly target")}
+              {renderAmount("signOnBonus", "Sign-on bonus", "Paid once")}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {renderAmount(
+                "equityValue",
+                "Equity",
+                "Value of the whole grant"
+              )}
+              <FormField
+                control={form.control}
+                name="vesting"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Vesting schedule</FormLabel>
+                    <FormControl>
+                      <Input placeholder="25/25/25/25" {...field} />
+                    </FormControl>
+                    <FormDescription>Percent vesting each year</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="equityNotes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Equity notes</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="e.g., RSUs, 1 year cliff then quarterly"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="benefitsNotes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Benefits</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      placeholder="Health cover, pension match, PTO, remote budget..."
+                      rows={3}
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expiryDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expires</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {preview && (
+              <div className="grid grid-cols-2 gap-4 rounded-md bg-muted p-3 text-sm">
+                <div>
+                  <p className="text-muted-foreground">First year</p>
+                  <p className="font-semibold">
+                    {formatMoney(preview.firstYear, values.currency)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Four years</p>
+                  <p className="font-semibold">
+                    {formatMoney(preview.fourYear, values.currency)}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Negotiation history</h4>
+              {negotiation.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Nothing recorded yet
+                </p>
+              ) : (
+                negotiation.map((entry) => (
+                  <div
+                    key={entry.id}
+                    className="flex items-start gap-2 text-sm"
+                  >
+                    <span className="w-20 shrink-0 text-muted-foreground">
+                      {entry.date}
+                    </span>
+                    <Badge variant="outline" className="shrink-0">
+                      {entry.from === "me" ? "Me" : "Employer"}
+                    </Badge>
+                    <span className="flex-1 whitespace-pre-wrap">
+                      {entry.note}
+                    </span>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="ghost"
+                      className="h-6 w-6 p-0"
+                      onClick={() =>
+                        setNegotiation((entries) =>
+                          entries.filter((item) => item.id !== entry.id)
+                        )
+                      }
+                      aria-label="Remove entry"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))
+              )}
+              <div className="flex gap-2">
+                <Select
+                  value={entryFrom}
+                  onValueChange={(value) =>
+                    setEntryFrom(value as OfferNegotiationEntry["from"])
+                  }
+                >
+                  <SelectTrigger className="w-32" aria-label="From">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="me">Me</SelectItem>
+                    <SelectItem value="employer">Employer</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  placeholder="e.g., Asked for 10% more base"
+                  value={entryNote}
+                  onChange={(event) => setEntryNote(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key !== "Enter") return;
+                    event.preventDefault();
+                    addEntry();
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={addEntry}
+                  disabled={!entryNote.trim()}
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex justify-between">
+              <div>
+                {job?.offer && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="text-destructive"
+                    onClick={handleRemove}
+                  >
+                    Remove offer
+                  </Button>
+                )}
+              </div>
+              <div className="flex space-x-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => onOpenChange(false)}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit">Save Offer</Button>
+              </div>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useState } from "react";
+import { ChartBarDecreasing } from "lucide-react";
+import { ClosedBy, JobApplication, OutcomeReason } from "@/types/job";
+import {
+  STAGE_DOT_CLASSES,
+  pipelineStageService,
+} from "@/lib/pipelineStageService";
+import {
+  CLOSED_BY_LABELS,
+  OutcomeCount,
+  outcomeBreakdown,
+  reasonLabel,
+} from "@/lib/outcomes";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface OutcomeAnalyticsProps {
+  jobs: JobApplication[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const stageName = (id: string) =>
+  id ? pipelineStageService.getLabel(id) : "Unknown stage";
+
+const percent = (count: number, total: number) =>
+  total ? Math.round((count / total) * 100) : 0;
+
+export function OutcomeAnalytics({
+  jobs,
+  open,
+  onOpenChange,
+}: OutcomeAnalyticsProps) {
+  const [closedBy, setClosedBy] = useState<ClosedBy | "all">("all");
+
+  const all = outcomeBreakdown(jobs);
+  const breakdown = outcomeBreakdown(
+    jobs,
+    closedBy === "all" ? undefined : closedBy
+  );
+
+  const renderBar = (label: React.ReactNode, count: number, key: string) => (
+    <div key={key} className="space-y-1">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="flex items-center gap-2 truncate">{label}</span>
+        <span className="text-muted-foreground tabular-nums">
+          {count} · {percent(count, breakdown.total)}%
+        </span>
+      </div>
+      <div className="h-2 rounded-full bg-muted">
+        <div
+          className="h-2 rounded-full bg-primary"
+          style={{ width: `${percent(count, breakdown.total)}%` }}
+        />
+      </div>
+    </div>
+  );
+
+  const topReasons = (reasons: OutcomeCount[]) =>
+    reasons
+      .slice(0, 3)
+      .map(
+        (reason) =>
+          `${reasonLabel((reason.key || undefined) as OutcomeReason)} (${
+            reason.count
+          })`
+      )
+      .join(", ");
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Outcomes</DialogTitle>
+          <DialogDescription>
+            Where and why applications were lost. {all.total} closed:{" "}
+            {all.byClosedBy.employer} by employers, {all.byClosedBy.me} by you.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex rounded-md border w-fit" role="group">
+          {(["all", "employer", "me"] as const).map((item) => (
+            <Button
+              key={item}
+              variant={closedBy === item ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setClosedBy(item)}
+              aria-pressed={closedBy === item}
+            >
+              {item === "all" ? "All" : `Closed by ${CLOSED_BY_LABELS[item]}`}
+            </Button>
+          ))}
+        </div>
+
+        {breakdown.total === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <ChartBarDecreasing className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No lost applications yet</p>
+          </div>
+        ) : (
+          <div className="grid gap-6 sm:grid-cols-2">
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold">Where</h3>
+              {breakdown.byStage.map((stage) => {
+                const color = pipelineStageService.getStage(stage.key)?.color;
+                return (
+                  <div key={stage.key} className="space-y-1">
+                    {renderBar(
+                      <>
+                        <span
+                          className={`h-2 w-2 shrink-0 rounded-full ${
+                            color ? STAGE_DOT_CLASSES[color] : "bg-gray-300"
+                          }`}
+                        />
+                        {stageName(stage.key)}
+                      </>,
+                      stage.count,
+                      stage.key
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {topReasons(stage.reasons)}
+                    </p>
+                  </div>
+                );
+              })}
+            </section>
+
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold">Why</h3>
+              {breakdown.byReason.map((reason) =>
+                renderBar(
+                  reasonLabel((reason.key || undefined) as OutcomeReason),
+                  reason.count,
+                  reason.key
+                )
+              )}
+            </section>
+          </div>
+        )}
+
+        {breakdown.feedback.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold">Feedback</h3>
+            {breakdown.feedback.map(({ job, outcome }) => (
+              <div key={job.id} className="rounded-md border p-3 text-sm">
+                <p className="font-medium">
+                  {job.company}
+                  <span className="font-normal text-muted-foreground">
+                    {" "}
+                    · {job.role} · {stageName(outcome.stage)} ·{" "}
+                    {reasonLabel(outcome.reason)}
+                  </span>
+                </p>
+                <p className="mt-1 whitespace-pre-wrap">{outcome.feedback}</p>
+              </div>
+            ))}
+          </section>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
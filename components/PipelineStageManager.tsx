@@ -0,0 +1,463 @@
+"use client";
+
+import { useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  GitBranch,
+  Plus,
+  Settings2,
+  Trash2,
+  AlertTriangle,
+} from "lucide-react";
+import {
+  JobApplication,
+  PipelineStage,
+  StageCategory,
+  StageColor,
+  StageRequirement,
+} from "@/types/job";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  pipelineStageService,
+  STAGE_CATEGORY_LABELS,
+  STAGE_COLORS,
+  STAGE_DOT_CLASSES,
+} from "@/lib/pipelineStageService";
+import { jobStorage } from "@/lib/jobStorage";
+import { REQUIREMENT_LABELS } from "@/lib/statusTransitions";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+
+interface PipelineStageManagerProps {
+  jobs: JobApplication[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onJobsMoved?: (message: string) => void;
+}
+
+const CATEGORIES = Object.keys(STAGE_CATEGORY_LABELS) as StageCategory[];
+
+function ColorSelect({
+  value,
+  onChange,
+  label,
+}: {
+  value: StageColor;
+  onChange: (color: StageColor) => void;
+  label: string;
+}) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(color) => onChange(color as StageColor)}
+    >
+      <SelectTrigger className="w-16" aria-label={label}>
+        <span className={`h-3 w-3 rounded-full ${STAGE_DOT_CLASSES[value]}`} />
+      </SelectTrigger>
+      <SelectContent>
+        {STAGE_COLORS.map((color) => (
+          <SelectItem key={color} value={color}>
+            <span
+              className={`h-3 w-3 rounded-full ${STAGE_DOT_CLASSES[color]}`}
+            />
+            <span className="capitalize">{color}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function CategorySelect({
+  value,
+  onChange,
+  label,
+}: {
+  value: StageCategory;
+  onChange: (category: StageCategory) => void;
+  label: string;
+}) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(category) => onChange(category as StageCategory)}
+    >
+      <SelectTrigger className="w-36" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CATEGORIES.map((category) => (
+          <SelectItem key={category} value={category}>
+            {STAGE_CATEGORY_LABELS[category]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+// Where a stage may lead and what it asks for on entry
+function StageRules({
+  stage,
+  stages,
+}: {
+  stage: PipelineStage;
+  stages: PipelineStage[];
+}) {
+  const requires = stage.requires || [];
+  const others = stages.filter((other) => other.id !== stage.id);
+
+  const toggleRequirement = (requirement: StageRequirement) =>
+    pipelineStageService.updateStage(stage.id, {
+      requires: requires.includes(requirement)
+        ? requires.filter((item) => item !== requirement)
+        : [...requires, requirement],
+    });
+
+  const toggleNext = (id: string) => {
+    const next = stage.next || [];
+    pipelineStageService.updateStage(stage.id, {
+      next: next.includes(id)
+        ? next.filter((item) => item !== id)
+        : [...next, id],
+    });
+  };
+
+  return (
+    <div className="border-t pt-2 space-y-3 text-sm">
+      {(Object.keys(REQUIREMENT_LABELS) as StageRequirement[]).map(
+        (requirement) => (
+          <div
+            key={requirement}
+            className="flex items-center justify-between gap-2"
+          >
+            <Label htmlFor={`${stage.id}-requires-${requirement}`}>
+              Ask for {REQUIREMENT_LABELS[requirement].toLowerCase()} on entry
+            </Label>
+            <Switch
+              id={`${stage.id}-requires-${requirement}`}
+              checked={requires.includes(requirement)}
+              onCheckedChange={() => toggleRequirement(requirement)}
+            />
+          </div>
+        )
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={`${stage.id}-wip-limit`}>Board limit</Label>
+        <Input
+          id={`${stage.id}-wip-limit`}
+          type="number"
+          min={1}
+          className="w-20 h-8"
+          placeholder="None"
+          defaultValue={stage.wipLimit ?? ""}
+          onBlur={(event) => {
+            const limit = parseInt(event.target.value, 10);
+            pipelineStageService.updateStage(stage.id, {
+              wipLimit: limit > 0 ? limit : undefined,
+            });
+          }}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor={`${stage.id}-any-next`}>Can move to any stage</Label>
+        <Switch
+          id={`${stage.id}-any-next`}
+          checked={!stage.next}
+          onCheckedChange={(checked: boolean) =>
+            pipelineStageService.updateStage(stage.id, {
+              next: checked ? undefined : [],
+            })
+          }
+        />
+      </div>
+
+      {stage.next && (
+        <div className="flex flex-wrap gap-1">
+          {others.map((other) => (
+            <Badge
+              key={other.id}
+              variant={stage.next?.includes(other.id) ? "default" : "outline"}
+              className="cursor-pointer"
+              onClick={() => toggleNext(other.id)}
+            >
+              {other.name}
+            </Badge>
+          ))}
+          {stage.next.length === 0 && (
+            <p className="text-xs text-muted-foreground w-full">
+              A dead end: leaving it needs an override.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function PipelineStageManager({
+  jobs,
+  open,
+  onOpenChange,
+  onJobsMoved,
+}: PipelineStageManagerProps) {
+  const stages = usePipelineStages();
+  const [newName, setNewName] = useState("");
+  const [newColor, setNewColor] = useState<StageColor>("blue");
+  const [newCategory, setNewCategory] = useState<StageCategory>("active");
+  const [deleting, setDeleting] = useState<{
+    id: string;
+    target: string;
+  } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [rulesFor, setRulesFor] = useState<string | null>(null);
+
+  const countIn = (stageId: string) =>
+    jobs.filter((job) => job.status === stageId).length;
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+
+    pipelineStageService.addStage(newName, newColor, newCategory);
+    setNewName("");
+  };
+
+  const handleRename = (stageId: string, name: string) => {
+    if (!name.trim() || name === pipelineStageService.getLabel(stageId)) {
+      return;
+    }
+    pipelineStageService.updateStage(stageId, { name: name.trim() });
+  };
+
+  const handleDelete = async (stageId: string, target?: string) => {
+    setBusy(true);
+    try {
+      if (target) {
+        const moved = await jobStorage.reassignStatus(stageId, target);
+        if (moved > 0) {
+          onJobsMoved?.(
+            `Moved ${moved} application${moved === 1 ? "" : "s"} to ${pipelineStageService.getLabel(target)}`
+          );
+        }
+      }
+      pipelineStageService.deleteStage(stageId);
+      setDeleting(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const requestDelete = (stageId: string) => {
+    if (countIn(stageId) === 0) {
+      handleDelete(stageId);
+      return;
+    }
+    const target = stages.find((stage) => stage.id !== stageId);
+    setDeleting({ id: stageId, target: target?.id || "" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="!max-w-2xl w-full max-h-[85vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitBranch className="h-5 w-5" />
+            Pipeline stages
+          </DialogTitle>
+          <DialogDescription>
+            The stages an application moves through, in order. Closed stages
+            count as won or lost in the statistics.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[55vh] pr-3">
+          <div className="space-y-2">
+            {stages.map((stage, index) => (
+              <Card key={stage.id} className="p-2 gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <ColorSelect
+                    value={stage.color}
+                    onChange={(color) =>
+                      pipelineStageService.updateStage(stage.id, { color })
+                    }
+                    label={`${stage.name} color`}
+                  />
+                  <Input
+                    key={stage.name}
+                    defaultValue={stage.name}
+                    aria-label="Stage name"
+                    className="flex-1 min-w-[8rem]"
+                    onBlur={(event) =>
+                      handleRename(stage.id, event.target.value)
+                    }
+                    onKeyDown={(event) => {
+                      if (event.key === "Enter") event.currentTarget.blur();
+                    }}
+                  />
+                  <CategorySelect
+                    value={stage.category}
+                    onChange={(category) =>
+                      pipelineStageService.updateStage(stage.id, { category })
+                    }
+                    label={`${stage.name} category`}
+                  />
+                  <Badge variant="secondary" className="text-xs">
+                    {countIn(stage.id)}
+                  </Badge>
+                  <div className="flex">
+                    <Button
+                      variant={rulesFor === stage.id ? "secondary" : "ghost"}
+                      size="sm"
+                      className="px-2"
+                      onClick={() =>
+                        setRulesFor(rulesFor === stage.id ? null : stage.id)
+                      }
+                      aria-label={`${stage.name} rules`}
+                      aria-expanded={rulesFor === stage.id}
+                    >
+                      <Settings2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="px-2"
+                      disabled={index === 0}
+                      onClick={() =>
+                        pipelineStageService.moveStage(stage.id, -1)
+                      }
+                      aria-label={`Move ${stage.name} up`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="px-2"
+                      disabled={index === stages.length - 1}
+                      onClick={() =>
+                        pipelineStageService.moveStage(stage.id, 1)
+                      }
+                      aria-label={`Move ${stage.name} down`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="px-2 text-destructive"
+                      disabled={
+                        busy || !pipelineStageService.canDelete(stage.id)
+                      }
+                      onClick={() => requestDelete(stage.id)}
+                      aria-label={`Delete ${stage.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {rulesFor === stage.id && (
+                  <StageRules stage={stage} stages={stages} />
+                )}
+
+                {deleting?.id === stage.id && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <AlertTriangle className="h-4 w-4 text-destructive shrink-0" />
+                    <span>
+                      Move {countIn(stage.id)} application
+                      {countIn(stage.id) === 1 ? "" : "s"} to
+                    </span>
+                    <Select
+                      value={deleting.target}
+                      onValueChange={(target) =>
+                        setDeleting({ ...deleting, target })
+                      }
+                    >
+                      <SelectTrigger className="w-40" aria-label="Move to">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {stages
+                          .filter((other) => other.id !== stage.id)
+                          .map((other) => (
+                            <SelectItem key={other.id} value={other.id}>
+                              {other.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={busy || !deleting.target}
+                      onClick={() => handleDelete(stage.id, deleting.target)}
+                    >
+                      Move and delete
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setDeleting(null)}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+              </Card>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <form
+          onSubmit={handleAdd}
+          className="flex flex-wrap items-center gap-2 border-t pt-4"
+        >
+          <ColorSelect
+            value={newColor}
+            onChange={setNewColor}
+            label="New stage color"
+          />
+          <Input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            placeholder="New stage, e.g. Take-home"
+            aria-label="New stage name"
+            className="flex-1 min-w-[8rem]"
+          />
+          <CategorySelect
+            value={newCategory}
+            onChange={setNewCategory}
+            label="New stage category"
+          />
+          <Button type="submit" size="sm" disabled={!newName.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
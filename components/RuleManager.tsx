@@ -0,0 +1,749 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Pencil, Play, Plus, Trash2, X, Zap } from "lucide-react";
+import { JobApplication } from "@/types/job";
+import {
+  ACTION_LABELS,
+  OPERATORS_BY_KIND,
+  OPERATOR_LABELS,
+  RULE_FIELDS,
+  RuleAction,
+  RuleActionType,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleConditionLeaf,
+  RuleOperator,
+  UNARY_OPERATORS,
+  countConditions,
+  createAction,
+  createCondition,
+  createGroup,
+  describeAction,
+  getRuleField,
+} from "@/lib/ruleEngine";
+import {
+  StatusRule,
+  statusAutomationService,
+} from "@/lib/statusAutomationService";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+
+interface RuleManagerProps {
+  jobs: JobApplication[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRulesRun: (message: string) => void;
+}
+
+type RuleDraft = Pick<
+  StatusRule,
+  "name" | "description" | "conditions" | "actions" | "trigger" | "isActive"
+> & { id?: string };
+
+const ACTION_TYPES = Object.keys(ACTION_LABELS) as RuleActionType[];
+
+const newDraft = (): RuleDraft => ({
+  name: "",
+  description: "",
+  conditions: createGroup("and", [createCondition()]),
+  actions: [createAction("notify")],
+  trigger: "automatic",
+  isActive: true,
+});
+
+const plural = (count: number, word: string) =>
+  `${count} ${word}${count === 1 ? "" : "s"}`;
+
+// One field / operator / value row
+function ConditionRow({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: RuleConditionLeaf;
+  onChange: (condition: RuleConditionLeaf) => void;
+  onRemove: () => void;
+}) {
+  const field = getRuleField(condition.field) || RULE_FIELDS[0];
+  const options = field.options?.() || [];
+
+  const changeField = (id: string) => {
+    const next = getRuleField(id) || RULE_FIELDS[0];
+    onChange({
+      ...condition,
+      field: next.id,
+      operator: OPERATORS_BY_KIND[next.kind][0],
+      value: next.kind === "enum" ? next.options?.()[0]?.value : "",
+    });
+  };
+
+  const renderValue = () => {
+    if (UNARY_OPERATORS.includes(condition.operator)) return null;
+    if (field.kind === "enum") {
+      return (
+        <Select
+          value={condition.value || ""}
+          onValueChange={(value) => onChange({ ...condition, value })}
+        >
+          <SelectTrigger className="w-40" aria-label="Value">
+            <SelectValue placeholder="Choose" />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+    return (
+      <Input
+        type={field.kind === "number" ? "number" : "text"}
+        className="w-32"
+        aria-label="Value"
+        value={condition.value || ""}
+        onChange={(event) =>
+          onChange({ ...condition, value: event.target.value })
+        }
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select value={field.id} onValueChange={changeField}>
+        <SelectTrigger className="w-48" aria-label="Field">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RULE_FIELDS.map((item) => (
+            <SelectItem key={item.id} value={item.id}>
+              {item.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={condition.operator}
+        onValueChange={(operator) =>
+          onChange({ ...condition, operator: operator as RuleOperator })
+        }
+      >
+        <SelectTrigger className="w-36" aria-label="Operator">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {OPERATORS_BY_KIND[field.kind].map((operator) => (
+            <SelectItem key={operator} value={operator}>
+              {OPERATOR_LABELS[operator]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {renderValue()}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="px-2"
+        onClick={onRemove}
+        aria-label="Remove condition"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+// A group of conditions joined by "all" or "any"; groups nest
+function ConditionGroupEditor({
+  group,
+  onChange,
+  onRemove,
+}: {
+  group: RuleConditionGroup;
+  onChange: (group: RuleConditionGroup) => void;
+  onRemove?: () => void;
+}) {
+  const setChild = (index: number, child: RuleCondition) =>
+    onChange({
+      ...group,
+      conditions: group.conditions.map((item, i) =>
+        i === index ? child : item
+      ),
+    });
+
+  const removeChild = (index: number) =>
+    onChange({
+      ...group,
+      conditions: group.conditions.filter((_, i) => i !== index),
+    });
+
+  const addChild = (child: RuleCondition) =>
+    onChange({ ...group, conditions: [...group.conditions, child] });
+
+  return (
+    <div
+      className={`space-y-2 ${onRemove ? "rounded-md border-l-2 pl-3 py-1" : ""}`}
+    >
+      <div className="flex items-center gap-2 text-sm">
+        <span>Match</span>
+        <Select
+          value={group.combinator}
+          onValueChange={(combinator) =>
+            onChange({
+              ...group,
+              combinator: combinator as RuleConditionGroup["combinator"],
+            })
+          }
+        >
+          <SelectTrigger className="w-20 h-8" aria-label="Combinator">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">all</SelectItem>
+            <SelectItem value="or">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span>of these</span>
+        {onRemove && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="px-2 ml-auto"
+            onClick={onRemove}
+            aria-label="Remove group"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((child, index) =>
+        child.type === "group" ? (
+          <ConditionGroupEditor
+            key={child.id}
+            group={child}
+            onChange={(next) => setChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={child.id}
+            condition={child}
+            onChange={(next) => setChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        )
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => addChild(createCondition())}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Condition
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => addChild(createGroup("or", [createCondition()]))}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Group
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ActionEditor({
+  action,
+  onChange,
+  onRemove,
+}: {
+  action: RuleAction;
+  onChange: (action: RuleAction) => void;
+  onRemove: () => void;
+}) {
+  const stages = usePipelineStages();
+
+  const renderFields = () => {
+    switch (action.type) {
+      case "change_status":
+        return (
+          <Select
+            value={action.status}
+            onValueChange={(status) => onChange({ ...action, status })}
+          >
+            <SelectTrigger className="w-40" aria-label="Status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {stages.map((stage) => (
+                <SelectItem key={stage.id} value={stage.id}>
+                  {stage.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case "set_priority":
+        return (
+          <Select
+            value={action.priority}
+            onValueChange={(priority) =>
+              onChange({
+                ...action,
+                priority: priority as typeof action.priority,
+              })
+            }
+          >
+            <SelectTrigger className="w-32" aria-label="Priority">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="high">High</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="low">Low</SelectItem>
+            </SelectContent>
+          </Select>
+        );
+      case "set_follow_up":
+        return (
+          <div className="flex items-center gap-2 text-sm">
+            <Input
+              type="number"
+              min={0}
+              className="w-20"
+              aria-label="Days from the run"
+              value={action.days}
+              onChange={(event) =>
+                onChange({
+                  ...action,
+                  days: Math.max(0, parseInt(event.target.value, 10) || 0),
+                })
+              }
+            />
+            <span className="text-muted-foreground">days after the run</span>
+          </div>
+        );
+      case "archive":
+        return null;
+      case "add_note":
+        return (
+          <Input
+            className="flex-1 min-w-[12rem]"
+            aria-label="Note"
+            placeholder="e.g. Chased {company}"
+            value={action.text}
+            onChange={(event) =>
+              onChange({ ...action, text: event.target.value })
+            }
+          />
+        );
+      case "notify":
+        return (
+          <>
+            <Input
+              className="w-48"
+              aria-label="Notification title"
+              placeholder="Title"
+              value={action.title}
+              onChange={(event) =>
+                onChange({ ...action, title: event.target.value })
+              }
+            />
+            <Input
+              className="flex-1 min-w-[12rem]"
+              aria-label="Notification message"
+              placeholder="e.g. Follow up on {role} at {company}"
+              value={action.message}
+              onChange={(event) =>
+                onChange({ ...action, message: event.target.value })
+              }
+            />
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value={action.type}
+        onValueChange={(type) => onChange(createAction(type as RuleActionType))}
+      >
+        <SelectTrigger className="w-44" aria-label="Action">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ACTION_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>
+              {ACTION_LABELS[type]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {renderFields()}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="px-2"
+        onClick={onRemove}
+        aria-label="Remove action"
+      >
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+function RuleEditor({
+  initial,
+  jobs,
+  onSave,
+  onCancel,
+}: {
+  initial: RuleDraft;
+  jobs: JobApplication[];
+  onSave: (draft: RuleDraft) => void;
+  onCancel: () => void;
+}) {
+  const [draft, setDraft] = useState(initial);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (updates: Partial<RuleDraft>) =>
+    setDraft((current) => ({ ...current, ...updates }));
+
+  const matching = jobs.filter((job) =>
+    statusAutomationService.matches(draft, job)
+  );
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft.name.trim()) {
+      setError("Give the rule a name");
+    } else if (countConditions(draft.conditions) === 0) {
+      setError("Add at least one condition");
+    } else if (draft.actions.length === 0) {
+      setError("Add at least one action");
+    } else {
+      onSave({ ...draft, name: draft.name.trim() });
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-[1fr_auto]">
+        <div className="space-y-1">
+          <Label htmlFor="rule-name">Name</Label>
+          <Input
+            id="rule-name"
+            value={draft.name}
+            onChange={(event) => update({ name: event.target.value })}
+            placeholder="e.g. Chase quiet applications"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="rule-trigger">Runs</Label>
+          <Select
+            value={draft.trigger}
+            onValueChange={(trigger) =>
+              update({ trigger: trigger as StatusRule["trigger"] })
+            }
+          >
+            <SelectTrigger id="rule-trigger" className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="automatic">Automatically</SelectItem>
+              <SelectItem value="manual">Only when I run it</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="rule-description">Description</Label>
+        <Input
+          id="rule-description"
+          value={draft.description}
+          onChange={(event) => update({ description: event.target.value })}
+        />
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold">When</h3>
+        <ConditionGroupEditor
+          group={draft.conditions}
+          onChange={(conditions) => update({ conditions })}
+        />
+        <p className="text-xs text-muted-foreground">
+          Matches {plural(matching.length, "application")} right now
+          {matching.length > 0 &&
+            `: ${matching
+              .slice(0, 3)
+              .map((job) => job.company)
+              .join(", ")}${matching.length > 3 ? ", …" : ""}`}
+        </p>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-semibold">Then</h3>
+        {draft.actions.map((action, index) => (
+          <ActionEditor
+            key={index}
+            action={action}
+            onChange={(next) =>
+              update({
+                actions: draft.actions.map((item, i) =>
+                  i === index ? next : item
+                ),
+              })
+            }
+            onRemove={() =>
+              update({ actions: draft.actions.filter((_, i) => i !== index) })
+            }
+          />
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() =>
+            update({ actions: [...draft.actions, createAction("notify")] })
+          }
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Action
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Notes and notifications can use {"{company}"}, {"{role}"} and{" "}
+          {"{status}"}.
+        </p>
+      </section>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2 border-t pt-4">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit">Save rule</Button>
+      </div>
+    </form>
+  );
+}
+
+export function RuleManager({
+  jobs,
+  open,
+  onOpenChange,
+  onRulesRun,
+}: RuleManagerProps) {
+  const [rules, setRules] = useState(() => statusAutomationService.getRules());
+  const [editing, setEditing] = useState<RuleDraft | null>(null);
+  const [running, setRunning] = useState<string | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const update = () => setRules(statusAutomationService.getRules());
+    update();
+    return statusAutomationService.onChange(update);
+  }, []);
+
+  const handleSave = (draft: RuleDraft) => {
+    const { id, ...rule } = draft;
+    if (id) {
+      // Edited rules start over, so they fire on everything they match
+      statusAutomationService.updateRule(id, {
+        ...rule,
+        matchedJobIds: undefined,
+      });
+    } else {
+      statusAutomationService.createRule(rule);
+    }
+    setEditing(null);
+  };
+
+  const handleRun = async (rule: StatusRule) => {
+    setRunning(rule.id);
+    setRunError(null);
+    try {
+      const results = await statusAutomationService.runRule(rule.id, jobs);
+      const refused = results.filter((result) => result.error).length;
+      onRulesRun(
+        `"${rule.name}" ran on ${plural(results.length, "application")}${
+          refused ? `; ${refused} couldn't change status` : ""
+        }`
+      );
+    } catch (err) {
+      console.error("Failed to run rule:", err);
+      setRunError(
+        `"${rule.name}" didn't finish: ${
+          err instanceof Error ? err.message : "unknown error"
+        }`
+      );
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) setEditing(null);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="!max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="h-5 w-5" />
+            {editing ? (editing.id ? "Edit rule" : "New rule") : "Rules"}
+          </DialogTitle>
+          <DialogDescription>
+            Automatic rules act once when an application starts matching them.
+            Archived applications are never touched.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <RuleEditor
+            initial={editing}
+            jobs={jobs}
+            onSave={handleSave}
+            onCancel={() => setEditing(null)}
+          />
+        ) : (
+          <>
+            {runError && <p className="text-sm text-destructive">{runError}</p>}
+            <ScrollArea className="max-h-[60vh] pr-3">
+              <div className="space-y-2">
+                {rules.length === 0 && (
+                  <div className="text-center py-8 text-muted-foreground">
+                    <Zap className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                    <p>No rules yet</p>
+                  </div>
+                )}
+                {rules.map((rule) => {
+                  const matching = jobs.filter((job) =>
+                    statusAutomationService.matches(rule, job)
+                  ).length;
+                  return (
+                    <Card key={rule.id} className="p-3 gap-1">
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={rule.isActive}
+                          onCheckedChange={(isActive: boolean) =>
+                            statusAutomationService.updateRule(rule.id, {
+                              isActive,
+                            })
+                          }
+                          aria-label={`${rule.name} active`}
+                        />
+                        <span className="font-medium truncate">
+                          {rule.name}
+                        </span>
+                        <Badge variant="outline" className="text-xs">
+                          {rule.trigger === "automatic"
+                            ? "Automatic"
+                            : "Manual"}
+                        </Badge>
+                        <Badge variant="secondary" className="text-xs">
+                          {matching} matching
+                        </Badge>
+                        <div className="flex ml-auto">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="px-2"
+                            disabled={
+                              !rule.isActive ||
+                              matching === 0 ||
+                              running !== null
+                            }
+                            onClick={() => handleRun(rule)}
+                            title="Run now"
+                            aria-label={`Run ${rule.name} now`}
+                          >
+                            <Play className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="px-2"
+                            onClick={() => setEditing(structuredClone(rule))}
+                            aria-label={`Edit ${rule.name}`}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="px-2 text-destructive"
+                            onClick={() =>
+                              statusAutomationService.deleteRule(rule.id)
+                            }
+                            aria-label={`Delete ${rule.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+                      {rule.description && (
+                        <p className="text-sm text-muted-foreground">
+                          {rule.description}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {plural(countConditions(rule.conditions), "condition")}{" "}
+                        → {rule.actions.map(describeAction).join(", ")}
+                      </p>
+                    </Card>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+            <div className="flex justify-end border-t pt-4">
+              <Button size="sm" onClick={() => setEditing(newDraft())}>
+                <Plus className="h-4 w-4 mr-2" />
+                New rule
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
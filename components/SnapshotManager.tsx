@@ -0,0 +1,253 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  History,
+  Camera,
+  RotateCcw,
+  Trash2,
+  AlertTriangle,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { LoadingSpinner } from "@/components/ui/animations";
+import {
+  snapshotService,
+  SnapshotSummary,
+  SnapshotDiff,
+  SnapshotReason,
+} from "@/lib/snapshotService";
+import { syncService } from "@/lib/syncService";
+
+interface SnapshotManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored?: (snapshot: SnapshotSummary) => void;
+}
+
+const REASON_LABELS: Record<SnapshotReason, string> = {
+  daily: "Daily",
+  manual: "Manual",
+  "before-import": "Before import",
+  "before-migration": "Before upgrade",
+  "before-restore": "Before restore",
+};
+
+export function SnapshotManager({
+  open,
+  onOpenChange,
+  onRestored,
+}: SnapshotManagerProps) {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSnapshots = () => snapshotService.getSnapshots().then(setSnapshots);
+
+  useEffect(() => {
+    if (!open) return;
+
+    loadSnapshots();
+    // Snapshots taken by other tabs show up while the dialog is open
+    return syncService.subscribe("applitrack-snapshots", loadSnapshots);
+  }, [open]);
+
+  useEffect(() => {
+    setDiff(null);
+    setError(null);
+    if (!selectedId) return;
+
+    snapshotService.diff(selectedId).then(setDiff);
+  }, [selectedId]);
+
+  const handleCreateSnapshot = async () => {
+    setBusy(true);
+    try {
+      await snapshotService.createSnapshot("manual");
+      await loadSnapshots();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    await snapshotService.deleteSnapshot(id);
+    if (selectedId === id) setSelectedId(null);
+    await loadSnapshots();
+  };
+
+  const handleRestore = async (snapshot: SnapshotSummary) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await snapshotService.restore(snapshot.id);
+      setSelectedId(null);
+      await loadSnapshots();
+      onRestored?.(snapshot);
+    } catch (restoreError) {
+      console.error("Restore failed:", restoreError);
+      setError(
+        restoreError instanceof Error
+          ? restoreError.message
+          : "Failed to restore snapshot"
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const describeDiff = (diff: SnapshotDiff) => {
+    const parts = [
+      diff.restored > 0 && `bring back ${diff.restored} deleted`,
+      diff.removed > 0 && `remove ${diff.removed} added since`,
+      diff.reverted > 0 && `revert ${diff.reverted} edited`,
+    ].filter(Boolean);
+
+    return parts.length > 0
+      ? `Restoring will ${parts.join(", ")} application${
+          diff.restored + diff.removed + diff.reverted === 1 ? "" : "s"
+        }.`
+      : "Applications are identical to this snapshot.";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Snapshots
+          </DialogTitle>
+          <DialogDescription>
+            Taken daily and before every import, upgrade and restore. Document
+            files themselves are not included, only their details.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between pb-2 border-b">
+          <span className="text-sm text-muted-foreground">
+            {snapshots.length} snapshot{snapshots.length === 1 ? "" : "s"}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleCreateSnapshot}
+            disabled={busy}
+          >
+            <Camera className="h-4 w-4 mr-2" />
+            Take snapshot now
+          </Button>
+        </div>
+
+        <ScrollArea className="max-h-96">
+          {snapshots.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+              <p className="text-sm">No snapshots yet</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {snapshots.map((snapshot) => (
+                <Card
+                  key={snapshot.id}
+                  className={`p-3 cursor-pointer transition-colors ${
+                    selectedId === snapshot.id
+                      ? "border-primary bg-muted/50"
+                      : "hover:bg-muted/50"
+                  }`}
+                  onClick={() =>
+                    setSelectedId(
+                      selectedId === snapshot.id ? null : snapshot.id
+                    )
+                  }
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="text-sm font-medium">
+                          {new Date(snapshot.createdAt).toLocaleString()}
+                        </p>
+                        <Badge variant="secondary">
+                          {REASON_LABELS[snapshot.reason]}
+                        </Badge>
+                      </div>
+                      {snapshot.label && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {snapshot.label}
+                        </p>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {snapshot.counts.applications} applications ·{" "}
+                        {snapshot.counts.documents} documents ·{" "}
+                        {snapshot.counts.templates} templates ·{" "}
+                        {snapshot.counts.rules} rules ·{" "}
+                        {snapshot.counts.presets} presets
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(snapshot.id);
+                      }}
+                      className="h-6 w-6 p-0 opacity-50 hover:opacity-100"
+                      aria-label="Delete snapshot"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+
+                  {selectedId === snapshot.id && (
+                    <div
+                      className="mt-3 pt-3 border-t space-y-2"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      {!diff ? (
+                        <LoadingSpinner size="sm" />
+                      ) : (
+                        <>
+                          <p className="text-sm">{describeDiff(diff)}</p>
+                          {diff.changedStores.length > 0 && (
+                            <p className="text-xs text-muted-foreground">
+                              Also rolls back: {diff.changedStores.join(", ")}
+                            </p>
+                          )}
+                          {error && (
+                            <p className="text-xs text-destructive flex items-center gap-1">
+                              <AlertTriangle className="h-3 w-3" />
+                              {error}
+                            </p>
+                          )}
+                          <Button
+                            size="sm"
+                            onClick={() => handleRestore(snapshot)}
+                            disabled={busy}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Restore this snapshot
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </Card>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
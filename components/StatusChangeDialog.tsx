@@ -0,0 +1,315 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, ArrowRight } from "lucide-react";
+import { ClosedBy, JobApplication, OutcomeReason } from "@/types/job";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import {
+  canTransition,
+  checkTransition,
+  TransitionOptions,
+} from "@/lib/statusTransitions";
+import {
+  CLOSED_BY_LABELS,
+  defaultClosedBy,
+  isLostStage,
+  reasonsFor,
+} from "@/lib/outcomes";
+import { toLocalValue } from "@/lib/interviews";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+
+interface StatusChangeDialogProps {
+  job: JobApplication | null;
+  status?: string; // the stage picked before the dialog opened
+  updates?: Partial<JobApplication>; // other edits saved with the change
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (
+    id: string,
+    updates: Partial<JobApplication>,
+    transition: TransitionOptions
+  ) => Promise<unknown>;
+}
+
+// Interview dates can be a plain date (all day) or a local date and time;
+// plain dates show as midnight and are kept as they are unless edited
+const toDateTimeInput = (value: string): string => {
+  if (!value) return "";
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return `${value}T00:00`;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? "" : toLocalValue(date);
+};
+
+export function StatusChangeDialog({
+  job,
+  status,
+  updates,
+  open,
+  onOpenChange,
+  onConfirm,
+}: StatusChangeDialogProps) {
+  const stages = usePipelineStages();
+  const [target, setTarget] = useState("");
+  const [reason, setReason] = useState("");
+  const [interviewDate, setInterviewDate] = useState("");
+  const [closedBy, setClosedBy] = useState<ClosedBy>("employer");
+  const [outcomeReason, setOutcomeReason] = useState<OutcomeReason | "">("");
+  const [force, setForce] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open || !job) return;
+    setTarget(status || "");
+    setReason("");
+    setInterviewDate(updates?.interviewDate || job.interviewDate || "");
+    setClosedBy(defaultClosedBy(status || ""));
+    setOutcomeReason("");
+    setForce(false);
+    setError(null);
+  }, [open, job, status, updates]);
+
+  // Who closed it follows the stage until changed by hand
+  useEffect(() => {
+    setClosedBy(defaultClosedBy(target));
+    setOutcomeReason("");
+  }, [target]);
+
+  if (!job) return null;
+
+  const targetStage = stages.find((stage) => stage.id === target);
+  const needsDate = !!targetStage?.requires?.includes("interviewDate");
+  const needsReason = !!targetStage?.requires?.includes("reason");
+  const losing = !!target && isLostStage(target);
+  const outcome = losing
+    ? { closedBy, reason: outcomeReason || undefined }
+    : undefined;
+  const pending = {
+    ...job,
+    ...updates,
+    interviewDate: interviewDate || undefined,
+  };
+  const check = target
+    ? checkTransition(pending, job.status, target, { reason, outcome })
+    : null;
+
+  const handleConfirm = async () => {
+    if (!target) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      await onConfirm(
+        job.id,
+        {
+          ...updates,
+          status: target,
+          ...(needsDate ? { interviewDate } : {}),
+        },
+        { reason, force, outcome }
+      );
+      onOpenChange(false);
+    } catch (confirmError) {
+      setError(
+        confirmError instanceof Error
+          ? confirmError.message
+          : "Failed to change status"
+      );
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={busy ? undefined : onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Change status</DialogTitle>
+          <DialogDescription>
+            {job.role} at {job.company}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium">
+              {pipelineStageService.getLabel(job.status)}
+            </span>
+            <ArrowRight className="h-4 w-4 text-muted-foreground shrink-0" />
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger className="flex-1" aria-label="New status">
+                <SelectValue placeholder="Choose a stage" />
+              </SelectTrigger>
+              <SelectContent>
+                {stages
+                  .filter((stage) => stage.id !== job.status)
+                  .map((stage) => (
+                    <SelectItem key={stage.id} value={stage.id}>
+                      {stage.name}
+                      {!canTransition(job.status, stage.id) && (
+                        <span className="text-muted-foreground">
+                          (not allowed)
+                        </span>
+                      )}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {check && check.warnings.length > 0 && (
+            <div className="rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-900 space-y-1 dark:bg-yellow-950 dark:text-yellow-100">
+              {check.warnings.map((warning) => (
+                <p key={warning} className="flex gap-2">
+                  <AlertTriangle className="h-4 w-4 shrink-0" />
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {check && !check.allowed && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="status-force">Move anyway</Label>
+              <Switch
+                id="status-force"
+                checked={force}
+                onCheckedChange={(checked: boolean) => setForce(checked)}
+              />
+            </div>
+          )}
+
+          {needsDate && (
+            <div className="space-y-2">
+              <Label htmlFor="status-interview-date">Interview date</Label>
+              <Input
+                id="status-interview-date"
+                type="datetime-local"
+                value={toDateTimeInput(interviewDate)}
+                onChange={(event) => setInterviewDate(event.target.value)}
+              />
+            </div>
+          )}
+
+          {losing && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="status-closed-by">Closed by</Label>
+                <Select
+                  value={closedBy}
+                  onValueChange={(value) => {
+                    setClosedBy(value as ClosedBy);
+                    setOutcomeReason("");
+                  }}
+                >
+                  <SelectTrigger id="status-closed-by" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(CLOSED_BY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="status-outcome-reason">Reason</Label>
+                <Select
+                  value={outcomeReason}
+                  onValueChange={(value) =>
+                    setOutcomeReason(value as OutcomeReason)
+                  }
+                >
+                  <SelectTrigger id="status-outcome-reason" className="w-full">
+                    <SelectValue placeholder="Pick a reason" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {reasonsFor(closedBy).map((item) => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {target && (
+            <div className="space-y-2">
+              <Label htmlFor="status-reason">
+                {losing
+                  ? "Feedback"
+                  : needsReason
+                    ? "Reason"
+                    : "Note (optional)"}
+              </Label>
+              <Textarea
+                id="status-reason"
+                rows={2}
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+                placeholder={
+                  losing
+                    ? "What they said, or what you'd do differently"
+                    : needsReason
+                      ? "Why is this application closing?"
+                      : undefined
+                }
+              />
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={busy}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={
+              busy ||
+              !check ||
+              check.missing.length > 0 ||
+              (!check.allowed && !force)
+            }
+          >
+            Change status
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -109,6 +109,8 @@ export function TemplateManager({
 
   useEffect(() => {
     loadData();
+    // Pick up template edits made in other tabs
+    return templateService.onChange(loadData);
   }, []);
 
   const loadData = () => {
@@ -0,0 +1,69 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { SlideIn } from "@/components/ui/animations";
+import { Undo2, X } from "lucide-react";
+
+interface UndoToastProps {
+  message: string | null;
+  onUndo: () => void;
+  onDismiss: () => void;
+  duration?: number; // in ms
+}
+
+export function UndoToast({
+  message,
+  onUndo,
+  onDismiss,
+  duration = 6000,
+}: UndoToastProps) {
+  // Callers pass inline handlers; the timer shouldn't restart on each render
+  const dismissRef = useRef(onDismiss);
+  useEffect(() => {
+    dismissRef.current = onDismiss;
+  }, [onDismiss]);
+
+  useEffect(() => {
+    if (!message) return;
+
+    const timer = setTimeout(() => dismissRef.current(), duration);
+    return () => clearTimeout(timer);
+  }, [message, duration]);
+
+  if (!message) return null;
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 z-50 max-w-[calc(100vw-2rem)]"
+      role="status"
+      aria-live="polite"
+    >
+      <SlideIn key={message}>
+        <div className="flex items-center gap-3 rounded-lg border bg-card px-4 py-3 shadow-lg">
+          <span className="text-sm truncate">{message}</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              onUndo();
+              onDismiss();
+            }}
+          >
+            <Undo2 className="h-4 w-4 mr-1" />
+            Undo
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onDismiss}
+            className="h-6 w-6 p-0"
+            aria-label="Dismiss"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      </SlideIn>
+    </div>
+  );
+}
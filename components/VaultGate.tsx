@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Lock, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { vaultService } from "@/lib/vaultService";
+
+interface VaultGateProps {
+  children: React.ReactNode;
+}
+
+// Shows the lock screen instead of `children` while the vault is locked.
+// Stored data can't be read until then, so nothing behind it renders.
+export function VaultGate({ children }: VaultGateProps) {
+  // Unknown until mounted, since the vault lives in browser storage
+  const [state, setState] = useState<{
+    enabled: boolean;
+    locked: boolean;
+  } | null>(null);
+
+  useEffect(() => {
+    const update = () =>
+      setState({
+        enabled: vaultService.isEnabled(),
+        locked: vaultService.isLocked(),
+      });
+    update();
+    return vaultService.onChange(update);
+  }, []);
+
+  const watching = !!state?.enabled && !state.locked;
+  useEffect(() => {
+    if (!watching) return;
+    return vaultService.watchActivity();
+  }, [watching]);
+
+  if (!state) return null;
+  if (state.locked) return <LockScreen />;
+  return <>{children}</>;
+}
+
+function LockScreen() {
+  const [passphrase, setPassphrase] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!passphrase) return;
+
+    setUnlocking(true);
+    setError(null);
+    try {
+      await vaultService.unlock(passphrase);
+    } catch (unlockError) {
+      setError(
+        unlockError instanceof Error ? unlockError.message : "Failed to unlock"
+      );
+      setPassphrase("");
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-sm p-6">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex flex-col items-center text-center gap-2">
+            <div className="rounded-full bg-muted p-3">
+              <Lock className="h-6 w-6" />
+            </div>
+            <h1 className="text-xl font-semibold">AppliTrack is locked</h1>
+            <p className="text-sm text-muted-foreground">
+              Your data is encrypted. Enter your passphrase to continue.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vault-passphrase">Passphrase</Label>
+            <Input
+              id="vault-passphrase"
+              type="password"
+              autoComplete="current-password"
+              autoFocus
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              aria-invalid={!!error}
+            />
+            {error && (
+              <p className="text-sm text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={!passphrase || unlocking}
+          >
+            {unlocking ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Unlocking…
+              </>
+            ) : (
+              "Unlock"
+            )}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { AlertTriangle, Lock, ShieldCheck, ShieldOff } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { vaultService } from "@/lib/vaultService";
+
+interface VaultSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 0, label: "Never" },
+  { minutes: 5, label: "After 5 minutes" },
+  { minutes: 15, label: "After 15 minutes" },
+  { minutes: 30, label: "After 30 minutes" },
+  { minutes: 60, label: "After 1 hour" },
+];
+
+export function VaultSettingsDialog({
+  open,
+  onOpenChange,
+}: VaultSettingsDialogProps) {
+  const [enabled, setEnabled] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [autoLockMinutes, setAutoLockMinutes] = useState(15);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setEnabled(vaultService.isEnabled());
+    if (vaultService.isEnabled()) {
+      setAutoLockMinutes(vaultService.getAutoLockMinutes());
+    }
+    setPassphrase("");
+    setConfirmation("");
+    setError(null);
+  }, [open]);
+
+  const run = async (task: () => Promise<void>, fallback: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await task();
+      setEnabled(vaultService.isEnabled());
+      setPassphrase("");
+      setConfirmation("");
+    } catch (taskError) {
+      setError(taskError instanceof Error ? taskError.message : fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = () => {
+    if (passphrase !== confirmation) {
+      setError("The passphrases don't match");
+      return;
+    }
+    run(
+      () => vaultService.enable(passphrase, autoLockMinutes),
+      "Failed to turn on encryption"
+    );
+  };
+
+  const handleAutoLockChange = (value: string) => {
+    setAutoLockMinutes(Number(value));
+    if (enabled) vaultService.setAutoLockMinutes(Number(value));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={busy ? undefined : onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {enabled ? (
+              <ShieldCheck className="h-5 w-5" />
+            ) : (
+              <ShieldOff className="h-5 w-5" />
+            )}
+            Encryption
+          </DialogTitle>
+          <DialogDescription>
+            {enabled
+              ? "Everything stored in this browser is encrypted with your passphrase."
+              : "Encrypt applications, contacts, documents and settings stored in this browser with a passphrase."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="vault-auto-lock">Lock when idle</Label>
+            <Select
+              value={String(autoLockMinutes)}
+              onValueChange={handleAutoLockChange}
+            >
+              <SelectTrigger id="vault-auto-lock" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {AUTO_LOCK_OPTIONS.map((option) => (
+                  <SelectItem
+                    key={option.minutes}
+                    value={String(option.minutes)}
+                  >
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="vault-passphrase-input">
+              {enabled ? "Current passphrase" : "Passphrase"}
+            </Label>
+            <Input
+              id="vault-passphrase-input"
+              type="password"
+              autoComplete={enabled ? "current-password" : "new-password"}
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+            />
+          </div>
+
+          {!enabled && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="vault-passphrase-confirm">
+                  Repeat passphrase
+                </Label>
+                <Input
+                  id="vault-passphrase-confirm"
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmation}
+                  onChange={(event) => setConfirmation(event.target.value)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground flex gap-2">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                There is no way to recover a forgotten passphrase. Backups made
+                while encryption is on need it too.
+              </p>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+
+          {enabled ? (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Button onClick={() => vaultService.lock()} disabled={busy}>
+                <Lock className="h-4 w-4 mr-2" />
+                Lock now
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() =>
+                  run(
+                    () => vaultService.disable(passphrase),
+                    "Failed to turn off encryption"
+                  )
+                }
+                disabled={busy || !passphrase}
+              >
+                <ShieldOff className="h-4 w-4 mr-2" />
+                {busy ? "Decrypting…" : "Turn off encryption"}
+              </Button>
+            </div>
+          ) : (
+            <Button
+              onClick={handleEnable}
+              disabled={busy || !passphrase || !confirmation}
+              className="w-full"
+            >
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              {busy ? "Encrypting…" : "Turn on encryption"}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
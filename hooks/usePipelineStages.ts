@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+import { PipelineStage } from "@/types/job";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+
+// The user's pipeline stages, in order; re-renders whenever they change
+export function usePipelineStages(): PipelineStage[] {
+  const [stages, setStages] = useState(() => pipelineStageService.getStages());
+
+  useEffect(() => {
+    const update = () => setStages(pipelineStageService.getStages());
+    update();
+    return pipelineStageService.onChange(update);
+  }, []);
+
+  return stages;
+}
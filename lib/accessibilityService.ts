@@ -1,3 +1,6 @@
+import { storage } from "@/lib/storageAdapter";
+import { SyncedStore } from "@/lib/syncService";
+
 export interface AccessibilityOptions {
   focusManagement: boolean;
   announcements: boolean;
@@ -17,22 +20,38 @@ class AccessibilityService {
   private options: AccessibilityOptions;
   private focusHistory: HTMLElement[] = [];
   private activeFocusTrap: FocusTrap | null = null;
+  private optionsStore: SyncedStore<AccessibilityOptions>;
+  readonly ready: Promise<void>;
 
   constructor() {
-    this.options = this.loadOptions();
+    this.options = this.getDefaultOptions();
+    this.optionsStore = new SyncedStore({
+      key: this.STORAGE_KEY,
+      load: () => this.loadOptions(),
+      get: () => this.options,
+      set: (options) => (this.options = options),
+    });
+    this.optionsStore.onRemoteChange(() => {
+      if (typeof window !== "undefined") this.applySettings();
+    });
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    await this.optionsStore.load();
     this.initializeAccessibility();
   }
 
-  private loadOptions(): AccessibilityOptions {
+  private async loadOptions(): Promise<AccessibilityOptions> {
     if (typeof window === "undefined") {
       return this.getDefaultOptions();
     }
 
     try {
-      const saved = localStorage.getItem(this.STORAGE_KEY);
-      return saved
-        ? { ...this.getDefaultOptions(), ...JSON.parse(saved) }
-        : this.getDefaultOptions();
+      const saved = await storage.getItem<Partial<AccessibilityOptions>>(
+        this.STORAGE_KEY
+      );
+      return { ...this.getDefaultOptions(), ...saved };
     } catch {
       return this.getDefaultOptions();
     }
@@ -49,8 +68,7 @@ class AccessibilityService {
   }
 
   private saveOptions(): void {
-    if (typeof window === "undefined") return;
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.options));
+    this.optionsStore.save();
   }
 
   private initializeAccessibility(): void {
@@ -0,0 +1,375 @@
+import { Document } from "@/types/job";
+import { storage, blobStorage } from "@/lib/storageAdapter";
+import { syncService } from "@/lib/syncService";
+import { jobStorage } from "@/lib/jobStorage";
+import { snapshotService, SNAPSHOT_STORES } from "@/lib/snapshotService";
+import { createZip, readZip, ZipEntry } from "@/lib/zip";
+import {
+  CURRENT_SCHEMA_VERSION,
+  parseSchemaVersion,
+  SchemaVersionError,
+} from "@/lib/schemaMigrations";
+import {
+  decryptBytes,
+  deriveVaultKey,
+  encryptBytes,
+  fromBase64,
+  getVaultKey,
+  readVaultConfig,
+  toBase64,
+} from "@/lib/vault";
+
+// A full backup is a zip archive:
+//   manifest.json        format, counts and a SHA-256 of every other file
+//   applications.json    jobStorage.exportData() output
+//   stores/<key>.json    every other store, as saved
+//   documents/<id>/<name> document files from the blob store
+//
+// With encryption on, that archive is itself encrypted with the vault key
+// and wrapped in a second one holding the salt needed to derive it again.
+
+export const BACKUP_FORMAT = "applitrack-backup";
+export const BACKUP_VERSION = 1;
+
+// Snapshots leave these out since rolling them back would be surprising;
+// a backup restoring onto a fresh browser should bring them along
+const BACKUP_STORES = [
+  ...SNAPSHOT_STORES,
+  { key: "applitrack-accessibility-settings", label: "Accessibility settings" },
+  { key: "applitrack-notifications", label: "Notifications" },
+];
+
+const MANIFEST_PATH = "manifest.json";
+const APPLICATIONS_PATH = "applications.json";
+const ENCRYPTED_FORMAT = "applitrack-encrypted-backup";
+const ENCRYPTED_PATH = "backup.zip.enc";
+
+export interface BackupCounts {
+  applications: number;
+  documents: number;
+  documentFiles: number;
+  templates: number;
+  rules: number;
+  presets: number;
+}
+
+interface BackupFile {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  schemaVersion: number;
+  counts: BackupCounts;
+  stores: { key: string; path: string }[];
+  documents: { id: string; path: string }[];
+  files: BackupFile[];
+}
+
+interface EncryptedManifest {
+  format: typeof ENCRYPTED_FORMAT;
+  version: number;
+  salt: string; // base64
+  iterations: number;
+  iv: string; // base64
+}
+
+// A validated archive, ready to restore
+export interface BackupArchive {
+  createdAt: string;
+  schemaVersion: number;
+  counts: BackupCounts;
+  storeLabels: string[];
+  manifest: BackupManifest;
+  files: Map<string, Uint8Array>;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+// The archive is encrypted; ask for the passphrase and read it again
+export class BackupPassphraseError extends BackupError {
+  constructor(message: string = "This backup is encrypted") {
+    super(message);
+    this.name = "BackupPassphraseError";
+  }
+}
+
+const countOf = (value: unknown): number =>
+  Array.isArray(value) ? value.length : 0;
+
+const storePath = (key: string) => `stores/${key}.json`;
+
+// Keeps the original name readable while staying a safe single path segment
+const documentPath = (doc: Document) =>
+  `documents/${doc.id}/${doc.name.replace(/[\\/:*?"<>|\x00-\x1f]/g, "_")}`;
+
+async function sha256(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data as BufferSource);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+const parseJSON = <T>(data: Uint8Array, path: string): T => {
+  try {
+    return JSON.parse(new TextDecoder().decode(data)) as T;
+  } catch {
+    throw new BackupError(`${path} in the backup is not valid JSON`);
+  }
+};
+
+class BackupService {
+  async createBackup(): Promise<Blob> {
+    const encoder = new TextEncoder();
+    const entries: ZipEntry[] = [];
+    const add = (path: string, data: Uint8Array) =>
+      entries.push({ name: path, data });
+
+    const jobs = await jobStorage.exportData();
+    add(APPLICATIONS_PATH, encoder.encode(jobs));
+
+    const stores: BackupManifest["stores"] = [];
+    const values: Record<string, unknown> = {};
+    for (const { key } of BACKUP_STORES) {
+      const value = await storage.getItem(key);
+      values[key] = value;
+      // Stores that were never written stay unset on restore too
+      if (value === null || value === undefined) continue;
+
+      add(storePath(key), encoder.encode(JSON.stringify(value, null, 2)));
+      stores.push({ key, path: storePath(key) });
+    }
+
+    const documents: BackupManifest["documents"] = [];
+    const metadata = (values["applitrack-documents"] as Document[]) || [];
+    for (const doc of metadata) {
+      const content = await blobStorage.getItem<Blob>(doc.id);
+      if (!content) continue;
+
+      const path = documentPath(doc);
+      add(path, new Uint8Array(await content.arrayBuffer()));
+      documents.push({ id: doc.id, path });
+    }
+
+    const files: BackupFile[] = [];
+    for (const entry of entries) {
+      const data = entry.data as Uint8Array;
+      files.push({
+        path: entry.name,
+        size: data.length,
+        sha256: await sha256(data),
+      });
+    }
+
+    const manifest: BackupManifest = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      counts: {
+        applications: countOf(JSON.parse(jobs).applications),
+        documents: metadata.length,
+        documentFiles: documents.length,
+        templates: countOf(values["applitrack-templates"]),
+        rules: countOf(values["applitrack-status-rules"]),
+        presets: countOf(values["job-tracker-filter-presets"]),
+      },
+      stores,
+      documents,
+      files,
+    };
+
+    // The manifest goes first so it is easy to find in any zip tool
+    const archive = createZip([
+      { name: MANIFEST_PATH, data: JSON.stringify(manifest, null, 2) },
+      ...entries,
+    ]);
+    return new Blob([(await this.encrypt(archive)) as BlobPart], {
+      type: "application/zip",
+    });
+  }
+
+  // Backups are as private as the data they come from
+  private async encrypt(archive: Uint8Array): Promise<Uint8Array> {
+    const config = readVaultConfig();
+    const key = getVaultKey();
+    if (!config || !key) return archive;
+
+    const { iv, data } = await encryptBytes(archive, key);
+    const manifest: EncryptedManifest = {
+      format: ENCRYPTED_FORMAT,
+      version: BACKUP_VERSION,
+      salt: config.salt,
+      iterations: config.iterations,
+      iv: toBase64(iv),
+    };
+    return createZip([
+      { name: MANIFEST_PATH, data: JSON.stringify(manifest, null, 2) },
+      { name: ENCRYPTED_PATH, data },
+    ]);
+  }
+
+  private async decrypt(
+    files: Map<string, Uint8Array>,
+    manifest: EncryptedManifest,
+    passphrase: string | undefined
+  ): Promise<Uint8Array> {
+    if (!passphrase) throw new BackupPassphraseError();
+    const data = files.get(ENCRYPTED_PATH);
+    if (!data) throw new BackupError(`The backup is missing ${ENCRYPTED_PATH}`);
+
+    const key = await deriveVaultKey(
+      passphrase,
+      fromBase64(manifest.salt),
+      manifest.iterations
+    );
+    try {
+      return await decryptBytes(data, fromBase64(manifest.iv), key);
+    } catch {
+      throw new BackupPassphraseError("Wrong passphrase for this backup");
+    }
+  }
+
+  // Checks the manifest and every checksum before anything is touched.
+  // Encrypted backups need `passphrase`.
+  async readBackup(file: Blob, passphrase?: string): Promise<BackupArchive> {
+    let files: Map<string, Uint8Array>;
+    try {
+      files = await readZip(await file.arrayBuffer());
+    } catch {
+      throw new BackupError("This file is not a backup archive");
+    }
+
+    const manifestData = files.get(MANIFEST_PATH);
+    if (!manifestData) {
+      throw new BackupError("This archive has no backup manifest");
+    }
+    const manifest = parseJSON<BackupManifest | EncryptedManifest>(
+      manifestData,
+      MANIFEST_PATH
+    );
+    if (manifest.format === ENCRYPTED_FORMAT) {
+      const archive = await this.decrypt(files, manifest, passphrase);
+      return this.readBackup(new Blob([archive as BlobPart]));
+    }
+    if (
+      manifest.format !== BACKUP_FORMAT ||
+      !Array.isArray(manifest.files) ||
+      !Array.isArray(manifest.stores) ||
+      !Array.isArray(manifest.documents)
+    ) {
+      throw new BackupError("This archive is not an AppliTrack backup");
+    }
+    if (manifest.version > BACKUP_VERSION) {
+      throw new BackupError(
+        "This backup was made by a newer version of AppliTrack"
+      );
+    }
+
+    const schemaVersion = parseSchemaVersion(manifest.schemaVersion);
+    if (schemaVersion > CURRENT_SCHEMA_VERSION) {
+      throw new SchemaVersionError(schemaVersion);
+    }
+
+    const listed = new Set(manifest.files.map((entry) => entry.path));
+    const referenced = [
+      APPLICATIONS_PATH,
+      ...manifest.stores.map((store) => store.path),
+      ...manifest.documents.map((doc) => doc.path),
+    ];
+    const unlisted = referenced.find((path) => !listed.has(path));
+    if (unlisted) {
+      throw new BackupError(`The manifest has no checksum for ${unlisted}`);
+    }
+
+    for (const entry of manifest.files) {
+      const data = files.get(entry.path);
+      if (!data) throw new BackupError(`The backup is missing ${entry.path}`);
+      if (data.length !== entry.size || (await sha256(data)) !== entry.sha256) {
+        throw new BackupError(`${entry.path} is damaged (checksum mismatch)`);
+      }
+    }
+
+    const jobs = parseJSON<{ applications?: unknown }>(
+      files.get(APPLICATIONS_PATH)!,
+      APPLICATIONS_PATH
+    );
+    if (!Array.isArray(jobs.applications)) {
+      throw new BackupError("The backup has no applications list");
+    }
+
+    const known = new Map(BACKUP_STORES.map(({ key, label }) => [key, label]));
+    return {
+      createdAt: manifest.createdAt,
+      schemaVersion,
+      counts: manifest.counts,
+      storeLabels: manifest.stores
+        .map((store) => known.get(store.key))
+        .filter((label): label is string => !!label),
+      manifest,
+      files,
+    };
+  }
+
+  // Replaces every store with the backup's contents. The current state is
+  // snapshotted first; document files already stored are kept, since that
+  // snapshot still refers to them.
+  async restore(archive: BackupArchive): Promise<void> {
+    const { manifest, files } = archive;
+
+    await snapshotService.createSnapshot("before-restore", {
+      label: `Backup from ${new Date(manifest.createdAt).toLocaleString()}`,
+    });
+
+    const result = await jobStorage.importData(
+      new TextDecoder().decode(files.get(APPLICATIONS_PATH)),
+      `Restore backup from ${new Date(manifest.createdAt).toLocaleString()}`
+    );
+    if (!result.success) throw new BackupError(result.message);
+    syncService.notifyLocal("job-applications");
+
+    const included = new Map(
+      manifest.stores.map((store) => [store.key, store.path])
+    );
+    const values: Record<string, unknown> = {};
+    for (const { key } of BACKUP_STORES) {
+      const path = included.get(key);
+      values[key] = path ? parseJSON(files.get(path)!, path) : null;
+    }
+
+    // Files go in before their metadata, so nothing lists a missing file
+    const metadata = (values["applitrack-documents"] as Document[]) || [];
+    for (const { id, path } of manifest.documents) {
+      const doc = metadata.find((item) => item.id === id);
+      await blobStorage.setItem(
+        id,
+        new Blob([files.get(path)! as BlobPart], {
+          type: doc?.mimeType || "application/octet-stream",
+        })
+      );
+    }
+
+    for (const { key } of BACKUP_STORES) {
+      const value = values[key];
+      if (value === null) {
+        await storage.removeItem(key);
+      } else {
+        await storage.setItem(key, value);
+      }
+      // Services hold cached copies, so reload them here and in other tabs
+      syncService.publish(key);
+      syncService.notifyLocal(key);
+    }
+  }
+}
+
+export const backupService = new BackupService();
@@ -0,0 +1,111 @@
+import { format, isSameDay } from "date-fns";
+import { Interview, JobApplication } from "@/types/job";
+import { parseDate } from "@/lib/calendarExport";
+import { interviewStart, isAllDay } from "@/lib/interviews";
+import { SmartNotification } from "@/lib/notificationService";
+
+export type CalendarEventKind = "interview" | "follow-up" | "reminder";
+
+export interface CalendarEvent {
+  id: string;
+  kind: CalendarEventKind;
+  date: Date;
+  allDay: boolean;
+  title: string;
+  job: JobApplication;
+  interview?: Interview; // set for interviews
+  notification?: SmartNotification; // set for reminders
+}
+
+export const EVENT_KIND_LABELS: Record<CalendarEventKind, string> = {
+  interview: "Interview",
+  "follow-up": "Follow-up",
+  reminder: "Reminder",
+};
+
+// Spelled out in full so Tailwind keeps every class in the build
+export const EVENT_KIND_CLASSES: Record<CalendarEventKind, string> = {
+  interview: "bg-purple-100 text-purple-800 border-purple-200",
+  "follow-up": "bg-blue-100 text-blue-800 border-blue-200",
+  reminder: "bg-gray-100 text-gray-700 border-gray-200",
+};
+
+// Interview rounds and follow-ups come from the jobs themselves; reminders
+// from the notifications scheduled for them. Archived jobs and cancelled
+// rounds are left out.
+export function collectCalendarEvents(
+  jobs: JobApplication[],
+  notifications: SmartNotification[]
+): CalendarEvent[] {
+  const events: CalendarEvent[] = [];
+  const byId = new Map(jobs.map((job) => [job.id, job]));
+
+  jobs
+    .filter((job) => !job.archived)
+    .forEach((job) => {
+      (job.interviews || [])
+        .filter((interview) => interview.outcome !== "cancelled")
+        .forEach((interview) => {
+          const date = interviewStart(interview);
+          if (!date) return;
+
+          events.push({
+            id: `interview-${interview.id}`,
+            kind: "interview",
+            date,
+            allDay: isAllDay(interview),
+            title: `${job.company}: ${interview.round}`,
+            job,
+            interview,
+          });
+        });
+
+      const followUp = job.followUpDate && parseDate(job.followUpDate);
+      if (followUp) {
+        events.push({
+          id: `follow-up-${job.id}`,
+          kind: "follow-up",
+          ...followUp,
+          title: `Follow up with ${job.company}`,
+          job,
+        });
+      }
+    });
+
+  // Status and rule notifications are sent as they happen, not scheduled
+  notifications
+    .filter(
+      (notification) =>
+        notification.type !== "status-update" && notification.type !== "rule"
+    )
+    .forEach((notification) => {
+      const job = byId.get(notification.jobId);
+      if (!job || job.archived) return;
+
+      events.push({
+        id: notification.id,
+        kind: "reminder",
+        date: new Date(notification.scheduledFor),
+        allDay: false,
+        title: notification.title,
+        job,
+        notification,
+      });
+    });
+
+  return events.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+export const eventsOn = (events: CalendarEvent[], day: Date) =>
+  events.filter((event) => isSameDay(event.date, day));
+
+// Moves a stored yyyy-mm-dd value to another day, keeping any time part
+export const moveDateValue = (value: string, day: Date): string =>
+  format(day, "yyyy-MM-dd") + value.slice(10);
+
+// Moves a reminder to another day at the same time of day
+export const moveToDay = (date: Date, day: Date): Date => {
+  const moved = new Date(day);
+  moved.setHours(date.getHours(), date.getMinutes(), 0, 0);
+  return moved;
+};
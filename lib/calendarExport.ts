@@ -0,0 +1,257 @@
+import { Interview, JobApplication } from "@/types/job";
+import {
+  ICSComponent,
+  ICSProperty,
+  escapeICSText,
+  formatICSDate,
+  formatICSDateTime,
+  stringifyICS,
+} from "@/lib/ics";
+import { interviewStart, isAllDay } from "@/lib/interviews";
+
+export interface CalendarExportOptions {
+  followUps?: "todo" | "event" | "none";
+  // Alarms mirror the in-app reminders; leave unset for no alarm
+  interviewReminderHours?: number;
+  followUpReminderDays?: number;
+}
+
+const PRODID = "-//AppliTrack//Job Tracker//EN";
+const UID_DOMAIN = "applitrack";
+const INTERVIEW_MINUTES = 60;
+
+// Stable per round, so importing again updates the existing events
+export const interviewUID = (job: JobApplication, interview: Interview) =>
+  `interview-${job.id}-${interview.id}@${UID_DOMAIN}`;
+// Exports from before rounds had one interview event per job
+export const legacyInterviewUID = (job: JobApplication) =>
+  `interview-${job.id}@${UID_DOMAIN}`;
+const followUpUID = (job: JobApplication) =>
+  `follow-up-${job.id}@${UID_DOMAIN}`;
+
+// Date inputs store yyyy-mm-dd, which become all-day entries; values with
+// a time become timed ones
+export const parseDate = (
+  value: string
+): { date: Date; allDay: boolean } | undefined => {
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = dateOnly
+    ? new Date(
+        Number(dateOnly[1]),
+        Number(dateOnly[2]) - 1,
+        Number(dateOnly[3])
+      )
+    : new Date(value);
+  return isNaN(date.getTime()) ? undefined : { date, allDay: !!dateOnly };
+};
+
+const nextDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+
+const text = (name: string, value: string): ICSProperty => ({
+  name,
+  value: escapeICSText(value),
+});
+
+// Tasks have no start, so their alarms count back from DUE instead
+const alarm = (
+  trigger: string,
+  description: string,
+  relatedToEnd: boolean = false
+): ICSComponent => ({
+  type: "VALARM",
+  properties: [
+    { name: "ACTION", value: "DISPLAY" },
+    {
+      name: "TRIGGER",
+      params: relatedToEnd ? { RELATED: "END" } : undefined,
+      value: trigger,
+    },
+    text("DESCRIPTION", description),
+  ],
+});
+
+const describe = (job: JobApplication): string =>
+  [
+    `${job.role} at ${job.company}`,
+    job.workLocation && `Location: ${job.workLocation}`,
+    job.jobPostingUrl && `Posting: ${job.jobPostingUrl}`,
+    ...(job.contacts || []).map(
+      (contact) =>
+        `Contact: ${contact.name}` +
+        (contact.title ? `, ${contact.title}` : "") +
+        (contact.phone ? ` (${contact.phone})` : "")
+    ),
+    job.notes && `\n${job.notes}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+function interviewEvent(
+  job: JobApplication,
+  interview: Interview,
+  stamp: string,
+  options: CalendarExportOptions
+): ICSComponent | undefined {
+  const start = interviewStart(interview);
+  if (!start) return undefined;
+
+  const minutes = interview.durationMinutes || INTERVIEW_MINUTES;
+  const timing: ICSProperty[] = isAllDay(interview)
+    ? [
+        {
+          name: "DTSTART",
+          params: { VALUE: "DATE" },
+          value: formatICSDate(start),
+        },
+        {
+          name: "DTEND",
+          params: { VALUE: "DATE" },
+          value: formatICSDate(nextDay(start)),
+        },
+      ]
+    : [
+        { name: "DTSTART", value: formatICSDateTime(start) },
+        {
+          name: "DTEND",
+          value: formatICSDateTime(
+            new Date(start.getTime() + minutes * 60 * 1000)
+          ),
+        },
+      ];
+
+  const properties: ICSProperty[] = [
+    { name: "UID", value: interviewUID(job, interview) },
+    { name: "DTSTAMP", value: stamp },
+    ...timing,
+    text("SUMMARY", `${interview.round}: ${job.role} at ${job.company}`),
+    text("DESCRIPTION", describe(job)),
+    { name: "CATEGORIES", value: "Interview" },
+  ];
+
+  if (interview.link) {
+    properties.push(text("LOCATION", interview.link));
+    properties.push({ name: "URL", value: interview.link });
+  }
+
+  // Attendees need an address; contacts without email stay in the description
+  const interviewerIds = new Set(interview.interviewerIds || []);
+  (job.contacts || [])
+    .filter((contact) => interviewerIds.has(contact.id) && contact.email)
+    .forEach((contact) =>
+      properties.push({
+        name: "ATTENDEE",
+        params: {
+          CN: contact.name,
+          ROLE: "REQ-PARTICIPANT",
+          PARTSTAT: "ACCEPTED",
+        },
+        value: `mailto:${contact.email}`,
+      })
+    );
+
+  return {
+    type: "VEVENT",
+    properties,
+    components:
+      options.interviewReminderHours !== undefined
+        ? [
+            alarm(
+              `-PT${options.interviewReminderHours}H`,
+              `Interview with ${job.company}`
+            ),
+          ]
+        : [],
+  };
+}
+
+function followUpComponent(
+  job: JobApplication,
+  stamp: string,
+  options: CalendarExportOptions
+): ICSComponent | undefined {
+  const due = job.followUpDate && parseDate(job.followUpDate);
+  if (!due || options.followUps === "none") return undefined;
+
+  const date = due.allDay
+    ? { params: { VALUE: "DATE" }, value: formatICSDate(due.date) }
+    : { value: formatICSDateTime(due.date) };
+  const asEvent = options.followUps === "event";
+  const alarms =
+    options.followUpReminderDays !== undefined
+      ? [
+          alarm(
+            `-P${options.followUpReminderDays}D`,
+            `Follow up with ${job.company}`,
+            !asEvent
+          ),
+        ]
+      : [];
+  const common: ICSProperty[] = [
+    { name: "UID", value: followUpUID(job) },
+    { name: "DTSTAMP", value: stamp },
+    text("SUMMARY", `Follow up: ${job.role} at ${job.company}`),
+    text("DESCRIPTION", describe(job)),
+    { name: "CATEGORIES", value: "Follow-up" },
+  ];
+
+  // Many calendar apps ignore tasks, so follow-ups can be events instead
+  if (asEvent) {
+    return {
+      type: "VEVENT",
+      properties: [
+        ...common,
+        { name: "DTSTART", ...date },
+        ...(due.allDay
+          ? [
+              {
+                name: "DTEND",
+                params: { VALUE: "DATE" },
+                value: formatICSDate(nextDay(due.date)),
+              },
+            ]
+          : []),
+        { name: "TRANSP", value: "TRANSPARENT" },
+      ],
+      components: alarms,
+    };
+  }
+
+  return {
+    type: "VTODO",
+    properties: [
+      ...common,
+      { name: "DUE", ...date },
+      { name: "STATUS", value: "NEEDS-ACTION" },
+    ],
+    components: alarms,
+  };
+}
+
+export function buildJobCalendar(
+  jobs: JobApplication[],
+  options: CalendarExportOptions = {},
+  name: string = "AppliTrack"
+): string {
+  const stamp = formatICSDateTime(new Date());
+
+  return stringifyICS({
+    type: "VCALENDAR",
+    properties: [
+      { name: "VERSION", value: "2.0" },
+      { name: "PRODID", value: PRODID },
+      { name: "CALSCALE", value: "GREGORIAN" },
+      { name: "METHOD", value: "PUBLISH" },
+      text("X-WR-CALNAME", name),
+    ],
+    components: jobs.flatMap((job) =>
+      [
+        // One event per round; cancelled ones are left off
+        ...(job.interviews || [])
+          .filter((interview) => interview.outcome !== "cancelled")
+          .map((interview) => interviewEvent(job, interview, stamp, options)),
+        followUpComponent(job, stamp, options),
+      ].filter((component): component is ICSComponent => !!component)
+    ),
+  });
+}
@@ -0,0 +1,339 @@
+import { Contact, JobApplication } from "@/types/job";
+import {
+  ICSComponent,
+  ICSProperty,
+  findICSComponents,
+  getICSProperty,
+  parseICS,
+  parseICSDate,
+  unescapeICSText,
+} from "@/lib/ics";
+import { interviewUID, legacyInterviewUID } from "@/lib/calendarExport";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import { createInterview, nextInterview } from "@/lib/interviews";
+
+export interface InvitePerson {
+  name?: string;
+  email: string;
+}
+
+export interface CalendarInvite {
+  uid?: string;
+  summary: string;
+  description: string;
+  location: string;
+  start: Date;
+  allDay: boolean;
+  meetingLink?: string;
+  organizer?: InvitePerson;
+  attendees: InvitePerson[];
+}
+
+export type InviteMatchReason = "uid" | "organizer" | "company" | "role";
+
+export interface InviteMatch {
+  job: JobApplication;
+  reason: InviteMatchReason; // the strongest signal
+  score: number;
+}
+
+export class CalendarImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalendarImportError";
+  }
+}
+
+// Mail and scheduling providers say nothing about the employer
+const GENERIC_DOMAINS = new Set([
+  "gmail",
+  "googlemail",
+  "google",
+  "outlook",
+  "hotmail",
+  "live",
+  "yahoo",
+  "icloud",
+  "me",
+  "aol",
+  "proton",
+  "protonmail",
+  "calendly",
+  "greenhouse",
+  "lever",
+  "ashbyhq",
+  "workday",
+  "myworkday",
+  "goodtime",
+  "zoom",
+]);
+
+const LEGAL_SUFFIXES =
+  /\b(inc|llc|ltd|limited|gmbh|corp|corporation|co|company|plc|ag|sa|bv|group)\b/g;
+
+// Conference links some providers put in their own properties
+const CONFERENCE_PROPERTIES = [
+  "X-GOOGLE-CONFERENCE",
+  "X-MICROSOFT-SKYPETEAMSMEETINGURL",
+  "X-MICROSOFT-ONLINEMEETINGCONFLINK",
+];
+
+const MEETING_URL =
+  /https?:\/\/[^\s<>"]*(zoom\.us|meet\.google\.com|teams\.microsoft\.com|teams\.live\.com|webex\.com|whereby\.com|gotomeeting\.com|chime\.aws)[^\s<>"]*/i;
+
+const SCORES: Record<InviteMatchReason, number> = {
+  uid: 100,
+  organizer: 60,
+  company: 40,
+  role: 20,
+};
+
+const normalizeText = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// "Acme, Inc." and "ACME" compare equal
+export const normalizeCompany = (company: string): string =>
+  normalizeText(company)
+    .replace(LEGAL_SUFFIXES, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const containsWords = (text: string, words: string): boolean =>
+  !!words && ` ${text} `.includes(` ${words} `);
+
+// "jane@mail.acme.co.uk" -> "acme"
+const domainLabel = (email: string): string | undefined => {
+  const host = email.split("@")[1]?.toLowerCase();
+  if (!host) return undefined;
+
+  const labels = host.split(".");
+  // Skip second-level registries like co.uk or com.au
+  const index =
+    labels.length >= 3 && labels[labels.length - 2].length <= 3
+      ? labels.length - 3
+      : labels.length - 2;
+  const label = labels[Math.max(index, 0)];
+  return label && !GENERIC_DOMAINS.has(label) ? label : undefined;
+};
+
+function readPerson(property: ICSProperty): InvitePerson | undefined {
+  const email = property.value.replace(/^mailto:/i, "").trim();
+  if (!email.includes("@")) return undefined;
+  return { name: property.params?.CN, email };
+}
+
+function readInvite(event: ICSComponent): CalendarInvite | undefined {
+  const startProperty = getICSProperty(event, "DTSTART");
+  const start = startProperty && parseICSDate(startProperty);
+  if (!start) return undefined;
+
+  const text = (name: string) => {
+    const property = getICSProperty(event, name);
+    return property ? unescapeICSText(property.value).trim() : "";
+  };
+
+  const description = text("DESCRIPTION");
+  const location = text("LOCATION");
+  const conferenceLink = CONFERENCE_PROPERTIES.map(text).find(Boolean);
+  const url = text("URL");
+  const meetingLink =
+    conferenceLink ||
+    (url.startsWith("http") ? url : undefined) ||
+    `${location}\n${description}`.match(MEETING_URL)?.[0] ||
+    (location.startsWith("http") ? location : undefined);
+
+  const organizerProperty = getICSProperty(event, "ORGANIZER");
+
+  return {
+    uid: text("UID") || undefined,
+    summary: text("SUMMARY"),
+    description,
+    location,
+    start: start.date,
+    allDay: start.allDay,
+    meetingLink,
+    organizer: organizerProperty ? readPerson(organizerProperty) : undefined,
+    attendees: event.properties
+      .filter((property) => property.name === "ATTENDEE")
+      .map(readPerson)
+      .filter((person): person is InvitePerson => !!person),
+  };
+}
+
+// Events in the file, earliest first; cancelled ones are left out
+export function parseCalendarInvites(text: string): CalendarInvite[] {
+  const events = findICSComponents(parseICS(text), "VEVENT").filter(
+    (event) =>
+      getICSProperty(event, "STATUS")?.value.toUpperCase() !== "CANCELLED"
+  );
+  if (events.length === 0) {
+    throw new CalendarImportError("No events found in the calendar file");
+  }
+
+  return events
+    .map(readInvite)
+    .filter((invite): invite is CalendarInvite => !!invite)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// Applications the invite is likely about, best match first
+export function matchInvite(
+  invite: CalendarInvite,
+  jobs: JobApplication[]
+): InviteMatch[] {
+  const text = normalizeText(
+    [invite.summary, invite.description, invite.location].join(" ")
+  );
+  const summary = normalizeText(invite.summary);
+  const labels = [invite.organizer, ...invite.attendees]
+    .map((person) => person && domainLabel(person.email))
+    .filter((label): label is string => !!label && label.length >= 3);
+
+  return jobs
+    .map((job) => {
+      const company = normalizeCompany(job.company);
+      const compactCompany = company.replace(/\s/g, "");
+      const postingHost = (job.jobPostingUrl || "").toLowerCase();
+      const reasons: InviteMatchReason[] = [];
+
+      if (
+        invite.uid &&
+        (invite.uid === legacyInterviewUID(job) ||
+          job.interviews?.some(
+            (interview) =>
+              interview.calendarUid === invite.uid ||
+              interviewUID(job, interview) === invite.uid
+          ))
+      ) {
+        reasons.push("uid");
+      }
+      if (
+        labels.some(
+          (label) =>
+            (compactCompany.length >= 3 &&
+              (compactCompany.startsWith(label) ||
+                label.startsWith(compactCompany))) ||
+            postingHost.includes(`${label}.`)
+        )
+      ) {
+        reasons.push("organizer");
+      }
+      if (containsWords(text, company)) reasons.push("company");
+      if (containsWords(summary, normalizeText(job.role))) {
+        reasons.push("role");
+      }
+
+      // Closed applications rarely get new invites
+      const penalty =
+        job.archived || pipelineStageService.isClosed(job.status) ? 5 : 0;
+      return {
+        job,
+        reason: reasons[0],
+        score:
+          reasons.reduce((total, reason) => total + SCORES[reason], 0) -
+          penalty,
+      };
+    })
+    .filter((match): match is InviteMatch => !!match.reason && match.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Same shape as the date input for all-day invites, local time otherwise
+export const inviteInterviewDate = (invite: CalendarInvite): string => {
+  const { start } = invite;
+  const date = `${start.getFullYear()}-${pad(start.getMonth() + 1)}-${pad(
+    start.getDate()
+  )}`;
+  return invite.allDay
+    ? date
+    : `${date}T${pad(start.getHours())}:${pad(start.getMinutes())}`;
+};
+
+// The organizer as a new contact, unless they are one already or the
+// invite came from an automated sender
+export function inviteOrganizerContact(
+  invite: CalendarInvite,
+  job: JobApplication
+): Contact | undefined {
+  const organizer = invite.organizer;
+  if (!organizer || /no-?reply|calendar-notification/i.test(organizer.email)) {
+    return undefined;
+  }
+
+  const email = organizer.email.toLowerCase();
+  if ((job.contacts || []).some((c) => c.email?.toLowerCase() === email)) {
+    return undefined;
+  }
+
+  return {
+    id: crypto.randomUUID(),
+    name: organizer.name || organizer.email,
+    email: organizer.email,
+    // Invites usually come from whoever runs the process
+    type: "recruiter",
+  };
+}
+
+// Adds the invite as an interview round, or updates the round an earlier
+// copy of the same invite created or our own export came from (the next
+// round for exports that had one event per job)
+export function applyInvite(
+  job: JobApplication,
+  invite: CalendarInvite
+): Partial<JobApplication> {
+  const updates: Partial<JobApplication> = {};
+  const contact = inviteOrganizerContact(invite, job);
+  const contacts = contact
+    ? [...(job.contacts || []), contact]
+    : job.contacts || [];
+  if (contact) updates.contacts = contacts;
+
+  // Known contacts on the invite become the round's interviewers
+  const emails = new Set(
+    [invite.organizer, ...invite.attendees]
+      .filter((person): person is InvitePerson => !!person)
+      .map((person) => person.email.toLowerCase())
+  );
+  const interviewerIds = contacts
+    .filter((c) => c.email && emails.has(c.email.toLowerCase()))
+    .map((c) => c.id);
+
+  const fields = {
+    round: invite.summary || "Interview",
+    scheduledAt: inviteInterviewDate(invite),
+    timeZone: undefined,
+    format: invite.meetingLink
+      ? ("video" as const)
+      : invite.location
+        ? ("onsite" as const)
+        : ("other" as const),
+    link: invite.meetingLink,
+    interviewerIds,
+    calendarUid: invite.uid,
+  };
+  const interviews = job.interviews || [];
+  const existing = invite.uid
+    ? interviews.find(
+        (interview) =>
+          interview.calendarUid === invite.uid ||
+          interviewUID(job, interview) === invite.uid
+      ) ||
+      (invite.uid === legacyInterviewUID(job) ? nextInterview(job) : undefined)
+    : undefined;
+
+  updates.interviews = existing
+    ? interviews.map((interview) =>
+        interview.id === existing.id ? { ...interview, ...fields } : interview
+      )
+    : [...interviews, createInterview(fields)];
+
+  return updates;
+}
+
+export const isCalendarFile = (file: File): boolean =>
+  file.type === "text/calendar" || file.name.toLowerCase().endsWith(".ics");
@@ -0,0 +1,73 @@
+// RFC 4180 reader/writer. Fields may be quoted, contain commas, doubled
+// quotes and line breaks; records end in CRLF, LF or a bare CR.
+
+const BOM = "\uFEFF";
+
+export function parseCSV(text: string): string[][] {
+  const input = text.startsWith(BOM) ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(field);
+    field = "";
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row);
+    row = [];
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      endField();
+    } else if (char === "\r" || char === "\n") {
+      endRow();
+      if (char === "\r" && input[i + 1] === "\n") i++;
+    } else {
+      // Stray quotes inside unquoted fields are kept literally
+      field += char;
+    }
+    i++;
+  }
+
+  // No trailing newline: flush the last record
+  if (field !== "" || row.length > 0) endRow();
+
+  // Blank lines are not records
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+const needsQuotes = (value: string): boolean =>
+  /[",\r\n]/.test(value) || value !== value.trim();
+
+export function escapeCSVField(value: unknown): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  return needsQuotes(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function stringifyCSV(rows: unknown[][]): string {
+  return rows.map((row) => row.map(escapeCSVField).join(",")).join("\r\n");
+}
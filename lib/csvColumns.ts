@@ -0,0 +1,293 @@
+import { JobApplication } from "@/types/job";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+
+type JobDraft = Omit<JobApplication, "id">;
+
+export interface CSVColumn {
+  id: string;
+  header: string; // written on export
+  aliases: string[]; // other spreadsheet headers that mean the same thing
+  required?: boolean;
+  get: (job: JobApplication) => string;
+  set: (job: JobDraft, value: string) => void;
+}
+
+// Column index -> CSVColumn id, or null when the column is ignored
+export type CSVMapping = (string | null)[];
+
+const normalizeHeader = (header: string): string =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const normalizeToken = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_]+/g, "-");
+
+const SYNONYMS: Record<string, string> = {
+  offer: "offered",
+  interviewing: "interview",
+  interviewed: "interview",
+  reject: "rejected",
+  declined: "rejected",
+  "short-listed": "shortlisted",
+  fulltime: "full-time",
+  parttime: "part-time",
+  onsite: "on-site",
+  "in-office": "on-site",
+  office: "on-site",
+  junior: "entry",
+  "mid-level": "mid",
+  intermediate: "mid",
+};
+
+// Maps free text like "Full Time" or "Onsite" onto one of `allowed`
+export const toEnum = <T extends string>(
+  value: string,
+  allowed: readonly T[],
+  fallback?: T
+): T | undefined => {
+  const token = normalizeToken(value);
+  const candidate = SYNONYMS[token] || SYNONYMS[token.replace(/-/g, "")];
+  const match = allowed.find(
+    (option) => option === token || option === candidate
+  );
+  return match || fallback;
+};
+
+// Maps free text like "Phone Screen" or "Offer" onto a pipeline stage id;
+// anything unrecognised starts at the first stage
+export const toStage = (value: string): string => {
+  const token = normalizeToken(value);
+  const candidate = SYNONYMS[token] || SYNONYMS[token.replace(/-/g, "")];
+  const stage =
+    pipelineStageService.findStage(token) ||
+    (candidate ? pipelineStageService.findStage(candidate) : undefined);
+  return (stage || pipelineStageService.getInitialStage()).id;
+};
+
+// Spreadsheets hand back all kinds of date formats; store yyyy-mm-dd
+const toDate = (value: string): string | undefined => {
+  const trimmed = value.trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+
+  const parsed = new Date(trimmed);
+  if (isNaN(parsed.getTime())) return undefined;
+  return [
+    parsed.getFullYear(),
+    String(parsed.getMonth() + 1).padStart(2, "0"),
+    String(parsed.getDate()).padStart(2, "0"),
+  ].join("-");
+};
+
+const JOB_TYPES = [
+  "full-time",
+  "part-time",
+  "contract",
+  "freelance",
+  "internship",
+] as const;
+const WORK_MODES = ["remote", "on-site", "hybrid"] as const;
+const EXPERIENCE_LEVELS = [
+  "entry",
+  "mid",
+  "senior",
+  "lead",
+  "executive",
+] as const;
+const PRIORITIES = ["low", "medium", "high"] as const;
+
+// Export order; the first 17 match the headers older exports used
+export const CSV_COLUMNS: CSVColumn[] = [
+  {
+    id: "company",
+    header: "Company",
+    aliases: ["Company Name", "Employer", "Organization", "Organisation"],
+    required: true,
+    get: (job) => job.company,
+    set: (job, value) => (job.company = value.trim()),
+  },
+  {
+    id: "role",
+    header: "Role",
+    aliases: ["Position", "Job Title", "Title", "Job"],
+    required: true,
+    get: (job) => job.role,
+    set: (job, value) => (job.role = value.trim()),
+  },
+  {
+    id: "status",
+    header: "Status",
+    aliases: ["Stage", "Application Status"],
+    get: (job) => pipelineStageService.getLabel(job.status),
+    set: (job, value) => (job.status = toStage(value)),
+  },
+  {
+    id: "appliedDate",
+    header: "Applied Date",
+    aliases: ["Date Applied", "Application Date", "Applied", "Date"],
+    get: (job) => job.appliedDate,
+    set: (job, value) => {
+      job.appliedDate = toDate(value) || job.appliedDate;
+    },
+  },
+  {
+    id: "workLocation",
+    header: "Work Location",
+    aliases: ["Location", "City"],
+    get: (job) => job.workLocation,
+    set: (job, value) => (job.workLocation = value.trim()),
+  },
+  {
+    id: "jobType",
+    header: "Job Type",
+    aliases: ["Type", "Employment Type"],
+    get: (job) => job.jobType,
+    set: (job, value) => (job.jobType = toEnum(value, JOB_TYPES, "full-time")!),
+  },
+  {
+    id: "workMode",
+    header: "Work Mode",
+    aliases: ["Remote", "Workplace", "Workplace Type", "Arrangement"],
+    get: (job) => job.workMode,
+    set: (job, value) => (job.workMode = toEnum(value, WORK_MODES, "on-site")!),
+  },
+  {
+    id: "experienceLevel",
+    header: "Experience Level",
+    aliases: ["Level", "Seniority"],
+    get: (job) => job.experienceLevel || "",
+    set: (job, value) =>
+      (job.experienceLevel = toEnum(value, EXPERIENCE_LEVELS)),
+  },
+  {
+    id: "category",
+    header: "Category",
+    aliases: ["Field", "Department", "Industry"],
+    get: (job) => job.category || "",
+    set: (job, value) => (job.category = value.trim()),
+  },
+  {
+    id: "salaryMin",
+    header: "Salary Min",
+    aliases: ["Min Salary", "Minimum Salary", "Salary From", "Salary"],
+    get: (job) => job.salaryRange?.min || "",
+    set: (job, value) =>
+      (job.salaryRange = { ...job.salaryRange, min: value.trim() }),
+  },
+  {
+    id: "salaryMax",
+    header: "Salary Max",
+    aliases: ["Max Salary", "Maximum Salary", "Salary To"],
+    get: (job) => job.salaryRange?.max || "",
+    set: (job, value) =>
+      (job.salaryRange = { ...job.salaryRange, max: value.trim() }),
+  },
+  {
+    id: "salaryCurrency",
+    header: "Currency",
+    aliases: ["Salary Currency"],
+    get: (job) => job.salaryRange?.currency || "",
+    set: (job, value) =>
+      (job.salaryRange = {
+        ...job.salaryRange,
+        currency: value.trim().toUpperCase(),
+      }),
+  },
+  {
+    id: "priority",
+    header: "Priority",
+    aliases: ["Importance"],
+    get: (job) => job.priority || "",
+    set: (job, value) => (job.priority = toEnum(value, PRIORITIES)),
+  },
+  {
+    id: "interviewDate",
+    header: "Interview Date",
+    aliases: ["Interview", "Interview On"],
+    get: (job) => job.interviewDate || "",
+    set: (job, value) => (job.interviewDate = value.trim() || undefined),
+  },
+  {
+    id: "jobPostingUrl",
+    header: "Job Posting URL",
+    aliases: ["URL", "Link", "Job URL", "Posting", "Job Link"],
+    get: (job) => job.jobPostingUrl || "",
+    set: (job, value) => (job.jobPostingUrl = value.trim()),
+  },
+  {
+    id: "interviewLink",
+    header: "Interview Link",
+    aliases: ["Meeting Link", "Interview URL"],
+    get: (job) => job.interviewLink || "",
+    set: (job, value) => (job.interviewLink = value.trim()),
+  },
+  {
+    id: "notes",
+    header: "Notes",
+    aliases: ["Note", "Comments", "Description"],
+    get: (job) => job.notes || "",
+    set: (job, value) => (job.notes = value),
+  },
+  {
+    id: "followUpDate",
+    header: "Follow-up Date",
+    aliases: ["Follow Up", "Next Step Date"],
+    get: (job) => job.followUpDate || "",
+    set: (job, value) => (job.followUpDate = toDate(value)),
+  },
+];
+
+export const getCSVColumn = (id: string): CSVColumn | undefined =>
+  CSV_COLUMNS.find((column) => column.id === id);
+
+// Matches spreadsheet headers to columns by name or alias, each used once
+export function guessCSVMapping(headers: string[]): CSVMapping {
+  const used = new Set<string>();
+
+  return headers.map((header) => {
+    const normalized = normalizeHeader(header);
+    const column = CSV_COLUMNS.find(
+      (candidate) =>
+        !used.has(candidate.id) &&
+        [candidate.header, ...candidate.aliases].some(
+          (name) => normalizeHeader(name) === normalized
+        )
+    );
+    if (!column) return null;
+
+    used.add(column.id);
+    return column.id;
+  });
+}
+
+// Required columns the mapping leaves out
+export function missingCSVColumns(mapping: CSVMapping): CSVColumn[] {
+  return CSV_COLUMNS.filter(
+    (column) => column.required && !mapping.includes(column.id)
+  );
+}
+
+export function csvRowToJob(
+  row: string[],
+  mapping: CSVMapping
+): JobApplication {
+  const job: JobDraft = {
+    company: "",
+    role: "",
+    status: pipelineStageService.getInitialStage().id,
+    appliedDate: new Date().toISOString().split("T")[0],
+    workLocation: "",
+    jobType: "full-time",
+    workMode: "on-site",
+    salaryRange: { currency: "USD" },
+  };
+
+  mapping.forEach((columnId, index) => {
+    const value = row[index];
+    if (!columnId || value === undefined || value.trim() === "") return;
+    getCSVColumn(columnId)?.set(job, value);
+  });
+
+  return { ...job, id: crypto.randomUUID() };
+}
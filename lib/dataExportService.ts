@@ -1,70 +1,81 @@
-import { JobApplication } from "@/types/job";
+import { Contact, JobApplication } from "@/types/job";
+import { parseCSV, stringifyCSV } from "@/lib/csv";
+import { buildPDFReport, PDFReportOptions } from "@/lib/pdfReport";
+import { buildXLSX, readXLSX, XLSX_MIME_TYPE } from "@/lib/xlsx";
+import { jobsToWorkbook, workbookToJobs } from "@/lib/xlsxWorkbook";
+import { buildJobCalendar, CalendarExportOptions } from "@/lib/calendarExport";
+import { notificationService } from "@/lib/notificationService";
+import {
+  contactsToVCard,
+  ImportedContact,
+  parseVCards,
+  VCARD_MIME_TYPE,
+  VCardEntry,
+} from "@/lib/vcard";
+import {
+  DEFAULT_EXPORT_FIELDS,
+  exportFieldText,
+  projectJob,
+  resolveExportFields,
+} from "@/lib/exportFields";
+import {
+  CSVMapping,
+  csvRowToJob,
+  guessCSVMapping,
+  missingCSVColumns,
+} from "@/lib/csvColumns";
+import {
+  migrateApplications,
+  parseSchemaVersion,
+  CURRENT_SCHEMA_VERSION,
+  SchemaVersionError,
+} from "@/lib/schemaMigrations";
 
 export interface ExportOptions {
-  format: "csv" | "json" | "pdf";
+  format: "csv" | "json" | "pdf" | "xlsx" | "ics";
   includeArchived?: boolean;
   dateRange?: {
     start: string;
     end: string;
   };
-  fields?: string[];
+  fields?: string[]; // export field ids in column order; all fields if unset
+  pdf?: PDFReportOptions;
+  calendar?: CalendarExportOptions;
 }
 
 export class DataExportService {
-  static exportToCSV(jobs: JobApplication[]): string {
-    const headers = [
-      "Company",
-      "Role",
-      "Status",
-      "Applied Date",
-      "Work Location",
-      "Job Type",
-      "Work Mode",
-      "Experience Level",
-      "Category",
-      "Salary Min",
-      "Salary Max",
-      "Currency",
-      "Priority",
-      "Interview Date",
-      "Job Posting URL",
-      "Interview Link",
-      "Notes",
-    ];
-
-    const csvContent = [
-      headers.join(","),
-      ...jobs.map((job) =>
-        [
-          `"${job.company}"`,
-          `"${job.role}"`,
-          job.status,
-          job.appliedDate,
-          `"${job.workLocation}"`,
-          job.jobType,
-          job.workMode,
-          job.experienceLevel || "",
-          `"${job.category || ""}"`,
-          job.salaryRange?.min || "",
-          job.salaryRange?.max || "",
-          job.salaryRange?.currency || "",
-          job.priority || "",
-          job.interviewDate || "",
-          job.jobPostingUrl || "",
-          job.interviewLink || "",
-          `"${(job.notes || "").replace(/"/g, '""')}"`,
-        ].join(",")
-      ),
-    ].join("\n");
-
-    return csvContent;
+  static exportToCSV(
+    jobs: JobApplication[],
+    fieldIds: string[] = DEFAULT_EXPORT_FIELDS
+  ): string {
+    const fields = resolveExportFields(fieldIds);
+    return stringifyCSV([
+      fields.map((field) => field.label),
+      ...jobs.map((job) => fields.map((field) => exportFieldText(field, job))),
+    ]);
   }
 
-  static exportToJSON(jobs: JobApplication[]): string {
+  // Without `fieldIds` this is a full, re-importable export
+  static exportToJSON(jobs: JobApplication[], fieldIds?: string[]): string {
+    if (fieldIds) {
+      const fields = resolveExportFields(fieldIds);
+      return JSON.stringify(
+        {
+          exportDate: new Date().toISOString(),
+          version: "1.0",
+          fields: fields.map(({ id, label }) => ({ id, label })),
+          records: jobs.map((job) => projectJob(job, fields)),
+        },
+        null,
+        2
+      );
+    }
+
     return JSON.stringify(
       {
         exportDate: new Date().toISOString(),
         version: "1.0",
+        schemaVersion: CURRENT_SCHEMA_VERSION,
         jobs: jobs,
       },
       null,
@@ -72,8 +83,79 @@ export class DataExportService {
     );
   }
 
-  static downloadFile(content: string, filename: string, mimeType: string) {
-    const blob = new Blob([content], { type: mimeType });
+  // Alarms follow the notification settings unless `options` overrides them
+  static exportToICS(
+    jobs: JobApplication[],
+    options: CalendarExportOptions = {}
+  ): string {
+    const settings = notificationService.getSettings();
+    return buildJobCalendar(jobs, {
+      interviewReminderHours:
+        settings.enabled && settings.interviewReminders
+          ? settings.interviewReminderHours
+          : undefined,
+      // Same lead time as the in-app follow-up date reminder
+      followUpReminderDays:
+        settings.enabled && settings.applicationDeadlines ? 2 : undefined,
+      ...options,
+    });
+  }
+
+  // Interview and follow-up entries for one application
+  static exportJobCalendar(job: JobApplication) {
+    const name = job.company.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    this.downloadFile(
+      this.exportToICS([job]),
+      `${name || "application"}-calendar.ics`,
+      "text/calendar;charset=utf-8"
+    );
+  }
+
+  // Each person once, even when they are a contact on several applications
+  static exportContactsToVCard(jobs: JobApplication[]): string {
+    const seen = new Set<string>();
+    const entries: VCardEntry[] = [];
+
+    jobs.forEach((job) =>
+      (job.contacts || []).forEach((contact) => {
+        const key = contact.email?.toLowerCase() || contact.id;
+        if (seen.has(key)) return;
+        seen.add(key);
+        entries.push({ contact, company: job.company });
+      })
+    );
+
+    return contactsToVCard(entries);
+  }
+
+  static exportContacts(jobs: JobApplication[]) {
+    const timestamp = new Date().toISOString().split("T")[0];
+    this.downloadFile(
+      this.exportContactsToVCard(jobs),
+      `contacts-${timestamp}.vcf`,
+      VCARD_MIME_TYPE
+    );
+  }
+
+  // One application's contacts, which may not be saved yet
+  static exportContactList(contacts: Contact[], company?: string) {
+    const name = (company || "").toLowerCase().replace(/[^a-z0-9]+/g, "-");
+    this.downloadFile(
+      contactsToVCard(contacts.map((contact) => ({ contact, company }))),
+      `${name || "application"}-contacts.vcf`,
+      VCARD_MIME_TYPE
+    );
+  }
+
+  static downloadFile(
+    content: string | Blob,
+    filename: string,
+    mimeType: string
+  ) {
+    const blob =
+      content instanceof Blob
+        ? content
+        : new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
 
     const link = document.createElement("a");
@@ -106,16 +188,18 @@ export class DataExportService {
 
     switch (options.format) {
       case "csv":
-        const csvContent = this.exportToCSV(filteredJobs);
+        // The BOM makes Excel read the file as UTF-8
+        const csvContent =
+          "\uFEFF" + this.exportToCSV(filteredJobs, options.fields);
         this.downloadFile(
           csvContent,
           `job-applications-${timestamp}.csv`,
-          "text/csv"
+          "text/csv;charset=utf-8"
         );
         break;
 
       case "json":
-        const jsonContent = this.exportToJSON(filteredJobs);
+        const jsonContent = this.exportToJSON(filteredJobs, options.fields);
         this.downloadFile(
           jsonContent,
           `job-applications-${timestamp}.json`,
@@ -123,53 +207,42 @@ export class DataExportService {
         );
         break;
 
+      case "xlsx":
+        this.downloadFile(
+          buildXLSX(jobsToWorkbook(filteredJobs, options.fields)),
+          `job-applications-${timestamp}.xlsx`,
+          XLSX_MIME_TYPE
+        );
+        break;
+
+      case "ics":
+        this.downloadFile(
+          this.exportToICS(filteredJobs, options.calendar),
+          `job-applications-${timestamp}.ics`,
+          "text/calendar;charset=utf-8"
+        );
+        break;
+
       case "pdf":
-        // For PDF, we'll create a simple text-based report
-        const pdfContent = this.generatePDFContent(filteredJobs);
         this.downloadFile(
-          pdfContent,
-          `job-applications-${timestamp}.txt`,
-          "text/plain"
+          buildPDFReport(filteredJobs, {
+            ...options.pdf,
+            fields: options.fields,
+          }),
+          `job-applications-${timestamp}.pdf`,
+          "application/pdf"
         );
         break;
     }
   }
 
-  static generatePDFContent(jobs: JobApplication[]): string {
-    const lines = [
-      "=== JOB APPLICATIONS REPORT ===",
-      `Generated: ${new Date().toLocaleDateString()}`,
-      `Total Applications: ${jobs.length}`,
-      "",
-      "=== SUMMARY ===",
-      `Applied: ${jobs.filter((j) => j.status === "applied").length}`,
-      `Shortlisted: ${jobs.filter((j) => j.status === "shortlisted").length}`,
-      `Interview: ${jobs.filter((j) => j.status === "interview").length}`,
-      `Offered: ${jobs.filter((j) => j.status === "offered").length}`,
-      `Rejected: ${jobs.filter((j) => j.status === "rejected").length}`,
-      "",
-      "=== APPLICATIONS ===",
-      "",
-    ];
-
-    jobs.forEach((job, index) => {
-      lines.push(`${index + 1}. ${job.company} - ${job.role}`);
-      lines.push(`   Status: ${job.status.toUpperCase()}`);
-      lines.push(`   Applied: ${job.appliedDate}`);
-      lines.push(`   Location: ${job.workLocation}`);
-      if (job.salaryRange?.min || job.salaryRange?.max) {
-        const min = job.salaryRange.min || "N/A";
-        const max = job.salaryRange.max || "N/A";
-        const currency = job.salaryRange.currency || "";
-        lines.push(`   Salary: ${currency} ${min} - ${currency} ${max}`);
-      }
-      if (job.notes) {
-        lines.push(`   Notes: ${job.notes}`);
-      }
-      lines.push("");
-    });
-
-    return lines.join("\n");
+  // Picks the parser from the file extension
+  static async importFromFile(file: File): Promise<JobApplication[]> {
+    const name = file.name.toLowerCase();
+    if (name.endsWith(".json")) return this.importFromJSON(file);
+    if (name.endsWith(".csv")) return this.importFromCSV(file);
+    if (name.endsWith(".xlsx")) return this.importFromXLSX(file);
+    throw new Error("Unsupported file format");
   }
 
   static async importFromJSON(file: File): Promise<JobApplication[]> {
@@ -181,14 +254,34 @@ export class DataExportService {
           const content = e.target?.result as string;
           const data = JSON.parse(content);
 
+          if (!data.jobs && Array.isArray(data.records)) {
+            reject(
+              new Error(
+                "This file only contains selected fields and can't be imported"
+              )
+            );
+            return;
+          }
+
           // Validate the structure
-          if (data.jobs && Array.isArray(data.jobs)) {
-            resolve(data.jobs);
-          } else {
+          if (!data.jobs || !Array.isArray(data.jobs)) {
             reject(new Error("Invalid JSON format"));
+            return;
           }
+
+          // Files from before schema stamping replay the whole chain
+          resolve(
+            migrateApplications(
+              data.jobs,
+              parseSchemaVersion(data.schemaVersion)
+            )
+          );
         } catch (error) {
-          reject(new Error("Failed to parse JSON file"));
+          reject(
+            error instanceof SchemaVersionError
+              ? error
+              : new Error("Failed to parse JSON file")
+          );
         }
       };
 
@@ -197,83 +290,47 @@ export class DataExportService {
     });
   }
 
-  static async importFromCSV(file: File): Promise<JobApplication[]> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
+  // Raw header row and records, for the column mapping step
+  static async readCSV(
+    file: File
+  ): Promise<{ headers: string[]; rows: string[][] }> {
+    const [headers = [], ...rows] = parseCSV(await this.readText(file));
+    if (headers.length === 0) throw new Error("The CSV file is empty");
+    return { headers, rows };
+  }
 
-      reader.onload = (e) => {
-        try {
-          const content = e.target?.result as string;
-          const lines = content.split("\n");
-          const headers = lines[0].split(",").map((h) => h.replace(/"/g, ""));
-
-          const jobs: JobApplication[] = lines
-            .slice(1)
-            .filter((line) => line.trim())
-            .map((line) => {
-              const values = this.parseCSVLine(line);
-
-              return {
-                id: crypto.randomUUID(),
-                company: values[0] || "",
-                role: values[1] || "",
-                status: (values[2] || "applied") as any,
-                appliedDate:
-                  values[3] || new Date().toISOString().split("T")[0],
-                workLocation: values[4] || "",
-                jobType: (values[5] || "full-time") as any,
-                workMode: (values[6] || "on-site") as any,
-                experienceLevel: values[7] as any,
-                category: values[8],
-                salaryRange: {
-                  min: values[9],
-                  max: values[10],
-                  currency: values[11] || "USD",
-                },
-                priority: values[12] as any,
-                interviewDate: values[13],
-                jobPostingUrl: values[14],
-                interviewLink: values[15],
-                notes: values[16],
-              };
-            });
-
-          resolve(jobs);
-        } catch (error) {
-          reject(new Error("Failed to parse CSV file"));
-        }
-      };
+  static async importFromCSV(
+    file: File,
+    mapping?: CSVMapping
+  ): Promise<JobApplication[]> {
+    const { headers, rows } = await this.readCSV(file);
+    const columns = mapping || guessCSVMapping(headers);
+
+    if (missingCSVColumns(columns).length > 0) {
+      throw new Error(
+        `Missing columns: ${missingCSVColumns(columns)
+          .map((column) => column.header)
+          .join(", ")}`
+      );
+    }
+    return rows.map((row) => csvRowToJob(row, columns));
+  }
 
-      reader.onerror = () => reject(new Error("Failed to read file"));
-      reader.readAsText(file);
-    });
+  // Reads the workbook layout that the xlsx export writes
+  static async importFromXLSX(file: File): Promise<JobApplication[]> {
+    return workbookToJobs(await readXLSX(await file.arrayBuffer()));
   }
 
-  private static parseCSVLine(line: string): string[] {
-    const result = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-
-      if (char === '"' && (i === 0 || line[i - 1] === ",")) {
-        inQuotes = true;
-      } else if (
-        char === '"' &&
-        inQuotes &&
-        (i === line.length - 1 || line[i + 1] === ",")
-      ) {
-        inQuotes = false;
-      } else if (char === "," && !inQuotes) {
-        result.push(current);
-        current = "";
-      } else {
-        current += char;
-      }
-    }
+  static async importFromVCard(file: File): Promise<ImportedContact[]> {
+    return parseVCards(await this.readText(file));
+  }
 
-    result.push(current);
-    return result.map((val) => val.replace(/^"|"$/g, ""));
+  private static readText(file: File): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = (e) => resolve(e.target?.result as string);
+      reader.onerror = () => reject(new Error("Failed to read file"));
+      reader.readAsText(file);
+    });
   }
 }
@@ -1,8 +1,11 @@
 import { Document } from "@/types/job";
+import { storage, blobStorage } from "@/lib/storageAdapter";
+import { SyncedStore } from "@/lib/syncService";
+import { snapshotService } from "@/lib/snapshotService";
 
 export interface DocumentWithFile extends Document {
   file?: File;
-  content?: string;
+  content?: string; // Legacy base64 data URL, moved to the blob store on load
 }
 
 export interface DocumentCategory {
@@ -18,43 +21,98 @@ class DocumentService {
   private readonly CATEGORIES_KEY = "applitrack-document-categories";
   private documents: Document[] = [];
   private categories: DocumentCategory[] = [];
+  private documentStore: SyncedStore<Document[]>;
+  private categoryStore: SyncedStore<DocumentCategory[]>;
+  private listeners: Set<() => void> = new Set();
+  readonly ready: Promise<void>;
 
   constructor() {
-    this.documents = this.loadDocuments();
-    this.categories = this.loadCategories();
+    this.documentStore = new SyncedStore({
+      key: this.STORAGE_KEY,
+      load: () => this.loadDocuments(),
+      get: () => this.documents,
+      set: (documents) => (this.documents = documents),
+    });
+    this.categoryStore = new SyncedStore({
+      key: this.CATEGORIES_KEY,
+      load: () => this.loadCategories(),
+      get: () => this.categories,
+      set: (categories) => (this.categories = categories),
+    });
+    this.documentStore.onRemoteChange(() => this.notifyChange());
+    this.categoryStore.onRemoteChange(() => this.notifyChange());
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    await this.documentStore.load();
+    await this.categoryStore.load();
     this.initializeDefaultCategories();
+    await this.migrateInlineContent();
+  }
+
+  // Older versions stored files as data URLs inside the metadata list
+  private async migrateInlineContent(): Promise<void> {
+    let migrated = 0;
+
+    for (const doc of this.documents as DocumentWithFile[]) {
+      if (!doc.content) continue;
+
+      try {
+        const blob = await (await fetch(doc.content)).blob();
+        await blobStorage.setItem(doc.id, blob);
+        delete doc.content;
+        migrated++;
+      } catch (error) {
+        console.error(`Failed to migrate content of ${doc.name}:`, error);
+      }
+    }
+
+    if (migrated > 0) {
+      this.saveDocuments();
+    }
   }
 
-  private loadDocuments(): Document[] {
+  private async loadDocuments(): Promise<Document[]> {
     if (typeof window === "undefined") return [];
 
     try {
-      const saved = localStorage.getItem(this.STORAGE_KEY);
-      return saved ? JSON.parse(saved) : [];
+      return (await storage.getItem<Document[]>(this.STORAGE_KEY)) || [];
     } catch {
       return [];
     }
   }
 
-  private loadCategories(): DocumentCategory[] {
+  private async loadCategories(): Promise<DocumentCategory[]> {
     if (typeof window === "undefined") return [];
 
     try {
-      const saved = localStorage.getItem(this.CATEGORIES_KEY);
-      return saved ? JSON.parse(saved) : [];
+      return (
+        (await storage.getItem<DocumentCategory[]>(this.CATEGORIES_KEY)) || []
+      );
     } catch {
       return [];
     }
   }
 
   private saveDocuments(): void {
-    if (typeof window === "undefined") return;
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.documents));
+    this.documentStore.save();
   }
 
   private saveCategories(): void {
-    if (typeof window === "undefined") return;
-    localStorage.setItem(this.CATEGORIES_KEY, JSON.stringify(this.categories));
+    this.categoryStore.save();
+  }
+
+  private notifyChange(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Fires when another tab changes documents or categories
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   private initializeDefaultCategories(): void {
@@ -144,9 +202,6 @@ class DocumentService {
         throw new Error(`File size exceeds ${category.maxSize}MB limit`);
       }
 
-      // Convert file to base64 for storage
-      const base64Content = await this.fileToBase64(file);
-
       const document: Document = {
         id: this.generateId(),
         name: file.name,
@@ -154,10 +209,12 @@ class DocumentService {
         fileSize: file.size,
         mimeType: file.type,
         uploadDate: new Date().toISOString(),
-        content: base64Content,
         jobId,
       };
 
+      // Binary goes to the blob store; only metadata is kept in the list
+      await blobStorage.setItem(document.id, file);
+
       this.documents.push(document);
       this.saveDocuments();
 
@@ -168,15 +225,6 @@ class DocumentService {
     }
   }
 
-  private fileToBase64(file: File): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = (error) => reject(error);
-    });
-  }
-
   getDocuments(jobId?: string): Document[] {
     if (jobId) {
       return this.documents.filter((d) => d.jobId === jobId);
@@ -216,25 +264,64 @@ class DocumentService {
 
     this.documents.splice(index, 1);
     this.saveDocuments();
+    // Restoring a snapshot that lists the document brings it back, so its
+    // file stays until the last such snapshot is removed
+    snapshotService
+      .referencedDocumentIds()
+      .then((referenced) =>
+        referenced.has(id) ? undefined : blobStorage.removeItem(id)
+      )
+      .catch((error) =>
+        console.error("Failed to delete document content:", error)
+      );
     return true;
   }
 
-  downloadDocument(id: string): void {
+  async getDocumentContent(id: string): Promise<Blob | null> {
+    try {
+      return await blobStorage.getItem<Blob>(id);
+    } catch (error) {
+      console.error("Failed to load document content:", error);
+      return null;
+    }
+  }
+
+  // Object URL for previews; the caller must revoke it when done
+  async getDocumentUrl(id: string): Promise<string | null> {
+    const content = await this.getDocumentContent(id);
+    return content ? URL.createObjectURL(content) : null;
+  }
+
+  async downloadDocument(id: string): Promise<void> {
     const doc = this.getDocument(id);
-    if (!doc || !doc.content) return;
+    if (!doc) return;
+
+    const url = await this.getDocumentUrl(id);
+    if (!url) return;
 
     try {
       const link = window.document.createElement("a");
-      link.href = doc.content;
+      link.href = url;
       link.download = doc.name;
       window.document.body.appendChild(link);
       link.click();
       window.document.body.removeChild(link);
     } catch (error) {
       console.error("Failed to download document:", error);
+    } finally {
+      URL.revokeObjectURL(url);
     }
   }
 
+  async previewDocument(id: string): Promise<void> {
+    const url = await this.getDocumentUrl(id);
+    if (!url) return;
+
+    window.open(url, "_blank", "noopener,noreferrer");
+    // Give the new tab time to load the blob before releasing it
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  }
+
   attachDocumentToJob(documentId: string, jobId: string): boolean {
     console.log(`Attempting to attach document ${documentId} to job ${jobId}`);
 
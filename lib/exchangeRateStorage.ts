@@ -0,0 +1,34 @@
+import { ExchangeRates } from "@/types/job";
+import { storage } from "@/lib/storageAdapter";
+import { syncService } from "@/lib/syncService";
+
+const STORAGE_KEY = "applitrack-exchange-rates";
+
+export const exchangeRateStorage = {
+  async get(): Promise<ExchangeRates | null> {
+    if (typeof window === "undefined") return null;
+
+    try {
+      return await storage.getItem<ExchangeRates>(STORAGE_KEY);
+    } catch (error) {
+      console.error("Error loading exchange rates:", error);
+      return null;
+    }
+  },
+
+  async save(rates: ExchangeRates): Promise<void> {
+    if (typeof window === "undefined") return;
+
+    try {
+      await storage.setItem(STORAGE_KEY, rates);
+      syncService.publish(STORAGE_KEY);
+    } catch (error) {
+      console.error("Error saving exchange rates:", error);
+    }
+  },
+
+  // Runs `listener` when another tab changes the rates
+  subscribe(listener: () => void): () => void {
+    return syncService.subscribe(STORAGE_KEY, listener);
+  },
+};
@@ -0,0 +1,70 @@
+import { ExportFieldSet } from "@/types/job";
+import { storage } from "@/lib/storageAdapter";
+import { syncService } from "@/lib/syncService";
+
+const STORAGE_KEY = "applitrack-export-field-sets";
+
+export const exportFieldSetStorage = {
+  async getAll(): Promise<ExportFieldSet[]> {
+    if (typeof window === "undefined") return [];
+
+    try {
+      return (await storage.getItem<ExportFieldSet[]>(STORAGE_KEY)) || [];
+    } catch (error) {
+      console.error("Error loading export field sets:", error);
+      return [];
+    }
+  },
+
+  async add(name: string, fields: string[]): Promise<ExportFieldSet> {
+    const newSet: ExportFieldSet = {
+      id: crypto.randomUUID(),
+      name,
+      fields,
+      createdDate: new Date().toISOString(),
+    };
+
+    await syncService.withLock(STORAGE_KEY, async () => {
+      const sets = await this.getAll();
+      sets.push(newSet);
+      await this.saveAll(sets);
+    });
+
+    return newSet;
+  },
+
+  async update(id: string, updates: Partial<ExportFieldSet>): Promise<void> {
+    await syncService.withLock(STORAGE_KEY, async () => {
+      const sets = await this.getAll();
+      const index = sets.findIndex((set) => set.id === id);
+
+      if (index !== -1) {
+        sets[index] = { ...sets[index], ...updates };
+        await this.saveAll(sets);
+      }
+    });
+  },
+
+  async delete(id: string): Promise<void> {
+    await syncService.withLock(STORAGE_KEY, async () => {
+      const sets = (await this.getAll()).filter((set) => set.id !== id);
+      await this.saveAll(sets);
+    });
+  },
+
+  async saveAll(sets: ExportFieldSet[]): Promise<void> {
+    if (typeof window === "undefined") return;
+
+    try {
+      await storage.setItem(STORAGE_KEY, sets);
+      syncService.publish(STORAGE_KEY);
+    } catch (error) {
+      console.error("Error saving export field sets:", error);
+    }
+  },
+
+  // Runs `listener` when another tab changes the field sets
+  subscribe(listener: () => void): () => void {
+    return syncService.subscribe(STORAGE_KEY, listener);
+  },
+};
@@ -0,0 +1,249 @@
+import { JobApplication } from "@/types/job";
+import { CSV_COLUMNS } from "@/lib/csvColumns";
+import { documentService } from "@/lib/documentService";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+
+export type ExportFieldGroup =
+  | "Application"
+  | "Compensation"
+  | "Dates"
+  | "Contacts"
+  | "Documents"
+  | "Status history";
+
+// Plain values for JSON; formatExportValue flattens them for CSV and PDF
+export type ExportValue =
+  string | number | boolean | string[] | Record<string, unknown>[] | undefined;
+
+export interface ExportField {
+  id: string;
+  label: string; // CSV header and PDF column title
+  group: ExportFieldGroup;
+  value: (job: JobApplication) => ExportValue;
+  text?: (job: JobApplication) => string; // when the flat form differs
+  width?: number; // relative PDF table column width, default 1
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const daysSince = (
+  date: string,
+  now: Date = new Date()
+): number | undefined => {
+  const time = new Date(date).getTime();
+  return isNaN(time) ? undefined : Math.floor((now.getTime() - time) / DAY);
+};
+
+// The most recent move into the current status, falling back to the
+// applied date for applications without history
+export const currentStatusSince = (job: JobApplication): string => {
+  const entry = [...(job.statusHistory || [])]
+    .reverse()
+    .find((item) => item.status === job.status);
+  return entry?.date || job.appliedDate;
+};
+
+// Documents can be attached on the job itself or through the library
+export const documentsFor = (job: JobApplication) => {
+  const byId = new Map(
+    [...(job.documents || []), ...documentService.getDocuments(job.id)].map(
+      (doc) => [doc.id, doc]
+    )
+  );
+  return Array.from(byId.values());
+};
+
+const CSV_COLUMN_GROUPS: Record<string, ExportFieldGroup> = {
+  salaryMin: "Compensation",
+  salaryMax: "Compensation",
+  salaryCurrency: "Compensation",
+  appliedDate: "Dates",
+  interviewDate: "Dates",
+  followUpDate: "Dates",
+};
+
+const CSV_COLUMN_WIDTHS: Record<string, number> = {
+  company: 1.4,
+  role: 1.6,
+  workLocation: 1.4,
+  jobPostingUrl: 2,
+  interviewLink: 2,
+  notes: 2.5,
+};
+
+// The spreadsheet columns come first, under the same headers, so a CSV
+// built from them can be imported again
+export const EXPORT_FIELDS: ExportField[] = [
+  ...CSV_COLUMNS.map((column): ExportField => ({
+    id: column.id,
+    label: column.header,
+    group: CSV_COLUMN_GROUPS[column.id] || "Application",
+    value: (job) => column.get(job) || undefined,
+    width: CSV_COLUMN_WIDTHS[column.id],
+  })),
+  {
+    id: "archived",
+    label: "Archived",
+    group: "Application",
+    value: (job) => !!job.archived,
+    width: 0.7,
+  },
+  {
+    id: "contactCount",
+    label: "Contact Count",
+    group: "Contacts",
+    value: (job) => job.contacts?.length || 0,
+    width: 0.7,
+  },
+  {
+    id: "contactNames",
+    label: "Contact Names",
+    group: "Contacts",
+    value: (job) => (job.contacts || []).map((contact) => contact.name),
+    width: 1.6,
+  },
+  {
+    id: "contactEmails",
+    label: "Contact Emails",
+    group: "Contacts",
+    value: (job) =>
+      (job.contacts || [])
+        .map((contact) => contact.email || "")
+        .filter(Boolean),
+    width: 1.8,
+  },
+  {
+    id: "contacts",
+    label: "Contacts",
+    group: "Contacts",
+    value: (job) =>
+      (job.contacts || []).map((contact) => ({
+        name: contact.name,
+        title: contact.title,
+        type: contact.type,
+        email: contact.email,
+        phone: contact.phone,
+        linkedIn: contact.linkedIn,
+      })),
+    text: (job) =>
+      (job.contacts || [])
+        .map(
+          (contact) =>
+            contact.name +
+            (contact.title ? ` (${contact.title})` : "") +
+            (contact.email ? ` <${contact.email}>` : "")
+        )
+        .join("; "),
+    width: 2.5,
+  },
+  {
+    id: "documentCount",
+    label: "Document Count",
+    group: "Documents",
+    value: (job) => documentsFor(job).length,
+    width: 0.7,
+  },
+  {
+    id: "documentNames",
+    label: "Document Names",
+    group: "Documents",
+    value: (job) => documentsFor(job).map((doc) => doc.name),
+    width: 2,
+  },
+  {
+    id: "statusHistory",
+    label: "Status Timeline",
+    group: "Status history",
+    value: (job) =>
+      (job.statusHistory || []).map((entry) => ({
+        status: entry.status,
+        date: entry.date,
+        notes: entry.notes,
+      })),
+    text: (job) =>
+      (job.statusHistory || [])
+        .map(
+          (entry) =>
+            `${entry.date.split("T")[0]} ${pipelineStageService.getLabel(
+              entry.status
+            )}`
+        )
+        .join(" > "),
+    width: 3,
+  },
+  {
+    id: "statusChanges",
+    label: "Status Changes",
+    group: "Status history",
+    value: (job) => job.statusHistory?.length || 0,
+    width: 0.7,
+  },
+  {
+    id: "statusSince",
+    label: "In Status Since",
+    group: "Status history",
+    value: (job) => currentStatusSince(job).split("T")[0],
+  },
+  {
+    id: "daysInStatus",
+    label: "Days In Status",
+    group: "Status history",
+    value: (job) => daysSince(currentStatusSince(job)),
+    width: 0.7,
+  },
+  {
+    id: "daysSinceApplied",
+    label: "Days Since Applied",
+    group: "Dates",
+    value: (job) => daysSince(job.appliedDate),
+    width: 0.7,
+  },
+];
+
+export const EXPORT_FIELD_GROUPS: ExportFieldGroup[] = [
+  "Application",
+  "Compensation",
+  "Dates",
+  "Contacts",
+  "Documents",
+  "Status history",
+];
+
+// What CSV exports contained before fields were selectable
+export const DEFAULT_EXPORT_FIELDS: string[] = CSV_COLUMNS.map(
+  (column) => column.id
+);
+
+export const getExportField = (id: string): ExportField | undefined =>
+  EXPORT_FIELDS.find((field) => field.id === id);
+
+// Known fields in the requested order; unknown ids (e.g. from a field set
+// saved by a newer version) are dropped
+export const resolveExportFields = (ids: string[]): ExportField[] =>
+  ids
+    .map(getExportField)
+    .filter((field): field is ExportField => field !== undefined);
+
+export function formatExportValue(value: ExportValue): string {
+  if (value === undefined) return "";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => (typeof item === "string" ? item : JSON.stringify(item)))
+      .join("; ");
+  }
+  return String(value);
+}
+
+export const exportFieldText = (
+  field: ExportField,
+  job: JobApplication
+): string =>
+  field.text ? field.text(job) : formatExportValue(field.value(job));
+
+// One object per job holding only the selected fields, keyed by field id
+export const projectJob = (
+  job: JobApplication,
+  fields: ExportField[]
+): Record<string, ExportValue> =>
+  Object.fromEntries(fields.map((field) => [field.id, field.value(job)]));
@@ -1,21 +1,26 @@
 import { FilterPreset, FilterOptions, SortOptions } from "@/types/job";
+import { storage } from "@/lib/storageAdapter";
+import { syncService } from "@/lib/syncService";
 
 const STORAGE_KEY = "job-tracker-filter-presets";
 
 export const filterPresetStorage = {
-  getAll(): FilterPreset[] {
+  async getAll(): Promise<FilterPreset[]> {
     if (typeof window === "undefined") return [];
 
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      return stored ? JSON.parse(stored) : [];
+      return (await storage.getItem<FilterPreset[]>(STORAGE_KEY)) || [];
     } catch (error) {
       console.error("Error loading filter presets:", error);
       return [];
     }
   },
 
-  add(name: string, filters: FilterOptions, sort: SortOptions): FilterPreset {
+  async add(
+    name: string,
+    filters: FilterOptions,
+    sort: SortOptions
+  ): Promise<FilterPreset> {
     const newPreset: FilterPreset = {
       id: crypto.randomUUID(),
       name,
@@ -24,35 +29,49 @@ export const filterPresetStorage = {
       createdDate: new Date().toISOString(),
     };
 
-    const presets = this.getAll();
-    presets.push(newPreset);
-    this.saveAll(presets);
+    await syncService.withLock(STORAGE_KEY, async () => {
+      const presets = await this.getAll();
+      presets.push(newPreset);
+      await this.saveAll(presets);
+    });
 
     return newPreset;
   },
 
-  update(id: string, updates: Partial<FilterPreset>): void {
-    const presets = this.getAll();
-    const index = presets.findIndex((preset) => preset.id === id);
+  async update(id: string, updates: Partial<FilterPreset>): Promise<void> {
+    await syncService.withLock(STORAGE_KEY, async () => {
+      const presets = await this.getAll();
+      const index = presets.findIndex((preset) => preset.id === id);
 
-    if (index !== -1) {
-      presets[index] = { ...presets[index], ...updates };
-      this.saveAll(presets);
-    }
+      if (index !== -1) {
+        presets[index] = { ...presets[index], ...updates };
+        await this.saveAll(presets);
+      }
+    });
   },
 
-  delete(id: string): void {
-    const presets = this.getAll().filter((preset) => preset.id !== id);
-    this.saveAll(presets);
+  async delete(id: string): Promise<void> {
+    await syncService.withLock(STORAGE_KEY, async () => {
+      const presets = (await this.getAll()).filter(
+        (preset) => preset.id !== id
+      );
+      await this.saveAll(presets);
+    });
   },
 
-  saveAll(presets: FilterPreset[]): void {
+  async saveAll(presets: FilterPreset[]): Promise<void> {
     if (typeof window === "undefined") return;
 
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+      await storage.setItem(STORAGE_KEY, presets);
+      syncService.publish(STORAGE_KEY);
     } catch (error) {
       console.error("Error saving filter presets:", error);
     }
   },
+
+  // Runs `listener` when another tab changes the presets
+  subscribe(listener: () => void): () => void {
+    return syncService.subscribe(STORAGE_KEY, listener);
+  },
 };
@@ -0,0 +1,142 @@
+import { JobApplication } from "@/types/job";
+import { storage } from "@/lib/storageAdapter";
+import { SyncedStore } from "@/lib/syncService";
+
+export interface JobChange {
+  jobId: string;
+  before: JobApplication | null; // null when the job was created
+  after: JobApplication | null; // null when the job was deleted
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: string;
+  changes: JobChange[];
+}
+
+interface HistoryState {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+class HistoryService {
+  private readonly STORAGE_KEY = "applitrack-history";
+  private readonly MAX_ENTRIES = 50;
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private listeners: Set<() => void> = new Set();
+  private historyStore: SyncedStore<HistoryState>;
+  readonly ready: Promise<void>;
+
+  constructor() {
+    this.historyStore = new SyncedStore({
+      key: this.STORAGE_KEY,
+      load: () => this.loadHistory(),
+      get: () => ({ undo: this.undoStack, redo: this.redoStack }),
+      set: (state) => {
+        this.undoStack = state.undo;
+        this.redoStack = state.redo;
+      },
+    });
+    this.historyStore.onRemoteChange(() => this.notifyChange());
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    await this.historyStore.load();
+    this.notifyChange();
+  }
+
+  private async loadHistory(): Promise<HistoryState> {
+    if (typeof window === "undefined") return { undo: [], redo: [] };
+
+    try {
+      const saved = await storage.getItem<HistoryState>(this.STORAGE_KEY);
+      return { undo: saved?.undo || [], redo: saved?.redo || [] };
+    } catch {
+      return { undo: [], redo: [] };
+    }
+  }
+
+  private saveHistory(): void {
+    this.notifyChange();
+    this.historyStore.save();
+  }
+
+  private notifyChange(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  record(label: string, changes: JobChange[]): HistoryEntry | null {
+    if (changes.length === 0) return null;
+
+    const entry: HistoryEntry = {
+      id: `history-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      label,
+      timestamp: new Date().toISOString(),
+      changes,
+    };
+
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.MAX_ENTRIES) {
+      this.undoStack.splice(0, this.undoStack.length - this.MAX_ENTRIES);
+    }
+    // A new mutation invalidates anything that was undone before it
+    this.redoStack = [];
+    this.saveHistory();
+
+    return entry;
+  }
+
+  // Moves the latest entry onto the redo stack; the caller applies `before`
+  takeUndo(): HistoryEntry | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+
+    this.redoStack.push(entry);
+    this.saveHistory();
+    return entry;
+  }
+
+  // Moves the latest undone entry back; the caller applies `after`
+  takeRedo(): HistoryEntry | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+
+    this.undoStack.push(entry);
+    this.saveHistory();
+    return entry;
+  }
+
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  peekUndo(): HistoryEntry | null {
+    return this.undoStack[this.undoStack.length - 1] || null;
+  }
+
+  peekRedo(): HistoryEntry | null {
+    return this.redoStack[this.redoStack.length - 1] || null;
+  }
+
+  clear(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.saveHistory();
+  }
+}
+
+export const historyService = new HistoryService();
@@ -0,0 +1,258 @@
+// iCalendar (RFC 5545) content lines: escaping, folding and the
+// component tree they serialize from.
+
+export interface ICSProperty {
+  name: string;
+  params?: Record<string, string>;
+  value: string; // already formatted; TEXT values go through escapeICSText
+}
+
+export interface ICSComponent {
+  type: string; // VCALENDAR, VEVENT, VTODO, VALARM, ...
+  properties: ICSProperty[];
+  components?: ICSComponent[];
+}
+
+const MAX_LINE_OCTETS = 75;
+
+export const escapeICSText = (value: string): string =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+
+// Parameter values can't contain quotes; ones with separators are quoted
+const formatParam = (value: string): string => {
+  const clean = value.replace(/"/g, "'");
+  return /[:;,]/.test(clean) ? `"${clean}"` : clean;
+};
+
+const octets = (char: string): number => {
+  const code = char.codePointAt(0) || 0;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+};
+
+// Long lines continue on the next line after a single space, without
+// splitting multi-byte characters
+export function foldICSLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+
+  for (const char of Array.from(line)) {
+    const length = octets(char);
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (size + length > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += length;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+}
+
+const pad = (value: number, length: number = 2) =>
+  String(value).padStart(length, "0");
+
+// DATE value, e.g. 20240315
+export const formatICSDate = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+// DATE-TIME value in UTC, e.g. 20240315T143000Z
+export const formatICSDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate()
+  )}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(
+    date.getUTCSeconds()
+  )}Z`;
+
+function componentLines(component: ICSComponent): string[] {
+  return [
+    `BEGIN:${component.type}`,
+    ...component.properties.map(
+      ({ name, params, value }) =>
+        name +
+        Object.entries(params || {})
+          .map(([key, param]) => `;${key}=${formatParam(param)}`)
+          .join("") +
+        `:${value}`
+    ),
+    ...(component.components || []).flatMap(componentLines),
+    `END:${component.type}`,
+  ];
+}
+
+export function stringifyICS(calendar: ICSComponent): string {
+  return componentLines(calendar).map(foldICSLine).join("\r\n") + "\r\n";
+}
+
+export const unescapeICSText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+// Splits NAME;PARAM=a;PARAM="b:c":value, honouring quoted parameters
+function parseContentLine(line: string): ICSProperty | undefined {
+  let index = 0;
+  let inQuotes = false;
+  const sections: string[] = [];
+  let current = "";
+
+  for (; index < line.length; index++) {
+    const char = line[index];
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && (char === ";" || char === ":")) {
+      sections.push(current);
+      current = "";
+      if (char === ":") break;
+      continue;
+    }
+    current += char;
+  }
+  if (index >= line.length) return undefined; // no value separator
+
+  const [name, ...rawParams] = sections;
+  const params: Record<string, string> = {};
+  rawParams.forEach((param) => {
+    const separator = param.indexOf("=");
+    if (separator === -1) return;
+    params[param.slice(0, separator).toUpperCase()] = param
+      .slice(separator + 1)
+      .replace(/^"|"$/g, "");
+  });
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(index + 1),
+  };
+}
+
+// Top-level components of an .ics file, usually a single VCALENDAR.
+// Malformed lines are skipped rather than failing the whole file.
+export function parseICS(text: string): ICSComponent[] {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n|\r/g, "\n")
+    .replace(/\n[ \t]/g, "") // unfold
+    .split("\n");
+
+  const roots: ICSComponent[] = [];
+  const stack: ICSComponent[] = [];
+
+  lines.forEach((line) => {
+    if (!line.trim()) return;
+    const property = parseContentLine(line);
+    if (!property) return;
+
+    if (property.name === "BEGIN") {
+      const component: ICSComponent = {
+        type: property.value.toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      const parent = stack[stack.length - 1];
+      if (parent) parent.components!.push(component);
+      else roots.push(component);
+      stack.push(component);
+    } else if (property.name === "END") {
+      stack.pop();
+    } else {
+      stack[stack.length - 1]?.properties.push(property);
+    }
+  });
+
+  return roots;
+}
+
+// Components of `type` anywhere below `components`
+export function findICSComponents(
+  components: ICSComponent[],
+  type: string
+): ICSComponent[] {
+  return components.flatMap((component) => [
+    ...(component.type === type ? [component] : []),
+    ...findICSComponents(component.components || [], type),
+  ]);
+}
+
+export const getICSProperty = (
+  component: ICSComponent,
+  name: string
+): ICSProperty | undefined =>
+  component.properties.find((property) => property.name === name);
+
+// Milliseconds to add to UTC to get wall-clock time in `timeZone`
+const zoneOffset = (time: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(time));
+  const part = (type: string) =>
+    Number(parts.find((item) => item.type === type)?.value);
+
+  return (
+    Date.UTC(
+      part("year"),
+      part("month") - 1,
+      part("day"),
+      part("hour"),
+      part("minute"),
+      part("second")
+    ) - time
+  );
+};
+
+// DATE and DATE-TIME values: UTC ("Z"), with a TZID, or floating (local).
+// Unknown zone names, like Outlook's Windows ones, fall back to local time.
+export function parseICSDate(
+  property: ICSProperty
+): { date: Date; allDay: boolean } | undefined {
+  const match = property.value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second = "0", utc] = match;
+  const fields = [
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour || 0),
+    Number(minute || 0),
+    Number(second),
+  ] as const;
+
+  if (hour === undefined || property.params?.VALUE === "DATE") {
+    return { date: new Date(fields[0], fields[1], fields[2]), allDay: true };
+  }
+  if (utc) return { date: new Date(Date.UTC(...fields)), allDay: false };
+
+  const timeZone = property.params?.TZID;
+  if (timeZone) {
+    try {
+      const wallClock = Date.UTC(...fields);
+      // Second pass settles times next to a DST change
+      let time = wallClock - zoneOffset(wallClock, timeZone);
+      time = wallClock - zoneOffset(time, timeZone);
+      return { date: new Date(time), allDay: false };
+    } catch {
+      // Not an IANA zone name
+    }
+  }
+  return { date: new Date(...fields), allDay: false };
+}
@@ -0,0 +1,220 @@
+import { JobApplication } from "@/types/job";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+
+export type ImportRowKind = "new" | "changed" | "duplicate";
+export type ImportAction = "add" | "merge" | "replace" | "skip";
+export type ImportMatchReason = "id" | "url" | "company-role-date" | "file";
+
+export interface ImportRow {
+  index: number; // position in the source file
+  incoming: JobApplication;
+  kind: ImportRowKind;
+  match?: JobApplication;
+  matchedBy?: ImportMatchReason;
+  changedFields: (keyof JobApplication)[];
+  action: ImportAction;
+}
+
+export interface ImportPlan {
+  additions: Omit<JobApplication, "id">[];
+  updates: JobApplication[];
+  skipped: number;
+}
+
+// Bookkeeping that differs between any two copies of the same application
+const IGNORED_FIELDS: (keyof JobApplication)[] = ["id", "statusHistory"];
+
+const normalize = (value?: string): string =>
+  (value || "").trim().toLowerCase();
+
+// Ignore scheme, "www.", trailing slashes, query and hash
+const normalizeUrl = (url?: string): string =>
+  normalize(url)
+    .replace(/^https?:\/\/(www\.)?/, "")
+    .replace(/[?#].*$/, "")
+    .replace(/\/+$/, "");
+
+const identityKey = (job: JobApplication): string =>
+  [
+    normalize(job.company),
+    normalize(job.role),
+    (job.appliedDate || "").slice(0, 10),
+  ].join("|");
+
+const isEmpty = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  value === "" ||
+  (Array.isArray(value) && value.length === 0);
+
+const isSame = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// Fields the file would change; blanks in the file never count as changes
+export function diffImportedJob(
+  existing: JobApplication,
+  incoming: JobApplication
+): (keyof JobApplication)[] {
+  return (Object.keys(incoming) as (keyof JobApplication)[]).filter((field) => {
+    if (IGNORED_FIELDS.includes(field) || isEmpty(incoming[field])) {
+      return false;
+    }
+    if (field === "salaryRange") {
+      const range = incoming.salaryRange;
+      if (!range?.min && !range?.max) return false;
+    }
+    return !isSame(existing[field], incoming[field]);
+  });
+}
+
+export function findImportMatch(
+  incoming: JobApplication,
+  existing: JobApplication[]
+): { match: JobApplication; matchedBy: ImportMatchReason } | null {
+  const byId = existing.find((job) => job.id === incoming.id);
+  if (byId) return { match: byId, matchedBy: "id" };
+
+  const url = normalizeUrl(incoming.jobPostingUrl);
+  if (url) {
+    const byUrl = existing.find(
+      (job) => normalizeUrl(job.jobPostingUrl) === url
+    );
+    if (byUrl) return { match: byUrl, matchedBy: "url" };
+  }
+
+  const key = identityKey(incoming);
+  const byIdentity = existing.find((job) => identityKey(job) === key);
+  if (byIdentity) return { match: byIdentity, matchedBy: "company-role-date" };
+
+  return null;
+}
+
+/**
+ * Classifies each incoming row against the current board. Rows that repeat
+ * an earlier row of the same file are treated as duplicates of that row.
+ */
+export function analyzeImport(
+  incoming: JobApplication[],
+  existing: JobApplication[]
+): ImportRow[] {
+  const seen: JobApplication[] = [];
+
+  return incoming.map((job, index) => {
+    const existingMatch = findImportMatch(job, existing);
+    const fileMatch = existingMatch ? null : findImportMatch(job, seen);
+    seen.push(job);
+
+    if (existingMatch) {
+      const changedFields = diffImportedJob(existingMatch.match, job);
+      const kind = changedFields.length > 0 ? "changed" : "duplicate";
+      return {
+        index,
+        incoming: job,
+        kind,
+        ...existingMatch,
+        changedFields,
+        action: kind === "changed" ? "merge" : "skip",
+      };
+    }
+
+    if (fileMatch) {
+      return {
+        index,
+        incoming: job,
+        kind: "duplicate",
+        match: fileMatch.match,
+        matchedBy: "file",
+        changedFields: [],
+        action: "skip",
+      };
+    }
+
+    return {
+      index,
+      incoming: job,
+      kind: "new",
+      changedFields: [],
+      action: "add",
+    };
+  });
+}
+
+// Actions that make sense for a row; matched rows can't be "added" again
+export function availableImportActions(row: ImportRow): ImportAction[] {
+  if (!row.match || row.matchedBy === "file") return ["add", "skip"];
+  return ["merge", "replace", "skip"];
+}
+
+const withStatusChange = (
+  existing: JobApplication,
+  next: JobApplication
+): JobApplication => {
+  if (next.status === existing.status) return next;
+
+  return {
+    ...next,
+    statusHistory: [
+      ...(existing.statusHistory || []),
+      {
+        id: crypto.randomUUID(),
+        status: next.status,
+        date: new Date().toISOString(),
+        notes: `Status changed from ${pipelineStageService.getLabel(
+          existing.status
+        )} to ${pipelineStageService.getLabel(next.status)} by import`,
+      },
+    ],
+  };
+};
+
+// Merge keeps existing values wherever the file is blank
+export function mergeImportedJob(
+  existing: JobApplication,
+  incoming: JobApplication
+): JobApplication {
+  const merged = { ...existing };
+  diffImportedJob(existing, incoming).forEach((field) => {
+    Object.assign(merged, { [field]: incoming[field] });
+  });
+  return withStatusChange(existing, merged);
+}
+
+// Replace takes the file's version but keeps the board's id and history
+export function replaceWithImportedJob(
+  existing: JobApplication,
+  incoming: JobApplication
+): JobApplication {
+  return withStatusChange(existing, {
+    ...incoming,
+    id: existing.id,
+    statusHistory: existing.statusHistory,
+  });
+}
+
+export function buildImportPlan(rows: ImportRow[]): ImportPlan {
+  const plan: ImportPlan = { additions: [], updates: [], skipped: 0 };
+
+  rows.forEach((row) => {
+    switch (row.action) {
+      case "add":
+        // jobStorage assigns a fresh id
+        plan.additions.push(row.incoming);
+        break;
+      case "merge":
+        if (row.match) {
+          plan.updates.push(mergeImportedJob(row.match, row.incoming));
+        }
+        break;
+      case "replace":
+        if (row.match) {
+          plan.updates.push(replaceWithImportedJob(row.match, row.incoming));
+        }
+        break;
+      case "skip":
+        plan.skipped++;
+        break;
+    }
+  });
+
+  return plan;
+}
@@ -0,0 +1,191 @@
+import { format } from "date-fns";
+import {
+  Interview,
+  InterviewFormat,
+  InterviewOutcome,
+  JobApplication,
+} from "@/types/job";
+import { parseDate } from "@/lib/calendarExport";
+
+export const INTERVIEW_FORMAT_LABELS: Record<InterviewFormat, string> = {
+  phone: "Phone",
+  video: "Video",
+  onsite: "Onsite",
+  "take-home": "Take-home",
+  other: "Other",
+};
+
+export const INTERVIEW_OUTCOME_LABELS: Record<InterviewOutcome, string> = {
+  pending: "Pending",
+  passed: "Passed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+};
+
+export const localTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// Minutes `timeZone` is ahead of UTC at `date`
+const zoneOffset = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(date);
+  const part = (type: string) =>
+    Number(parts.find((item) => item.type === type)?.value);
+  const asUTC = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute")
+  );
+  return Math.round((asUTC - date.getTime()) / 60000);
+};
+
+// When the interview starts; all-day entries start at local midnight
+export function interviewStart(interview: Interview): Date | undefined {
+  const parsed = parseDate(interview.scheduledAt);
+  const wallTime = interview.scheduledAt.match(
+    /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/
+  );
+  if (!parsed || parsed.allDay || !wallTime || !interview.timeZone) {
+    return parsed?.date;
+  }
+
+  const [, year, month, day, hour, minute] = wallTime.map(Number);
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  try {
+    // Read the offset at the guess, then again at the result, so times
+    // next to a daylight saving change land on the right side of it
+    const first = guess - zoneOffset(new Date(guess), interview.timeZone) * 6e4;
+    return new Date(
+      guess - zoneOffset(new Date(first), interview.timeZone) * 6e4
+    );
+  } catch {
+    // Unknown zone names fall back to the user's own
+    return parsed.date;
+  }
+}
+
+export const isAllDay = (interview: Interview): boolean =>
+  !!parseDate(interview.scheduledAt)?.allDay;
+
+// Stored values in the user's zone, as the date and time inputs produce
+export const toLocalValue = (date: Date, allDay = false): string =>
+  format(date, allDay ? "yyyy-MM-dd" : "yyyy-MM-dd'T'HH:mm");
+
+const startTime = (interview: Interview): number =>
+  interviewStart(interview)?.getTime() ?? NaN;
+
+export const sortInterviews = (interviews: Interview[]): Interview[] =>
+  [...interviews].sort((a, b) => startTime(a) - startTime(b));
+
+// Pending rounds that have not started yet, soonest first. All-day rounds
+// count for the whole of their day.
+export function upcomingInterviews(
+  job: JobApplication,
+  now: Date = new Date()
+): Interview[] {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return sortInterviews(job.interviews || []).filter(
+    (interview) =>
+      interview.outcome === "pending" &&
+      startTime(interview) >= (isAllDay(interview) ? today : now).getTime()
+  );
+}
+
+export const nextInterview = (job: JobApplication): Interview | undefined =>
+  upcomingInterviews(job)[0];
+
+export const hasInterviews = (job: JobApplication): boolean =>
+  (job.interviews || []).some((interview) => interview.outcome !== "cancelled");
+
+// The round `interviewDate` and `interviewLink` describe: the next one,
+// otherwise the most recent that went ahead
+const summaryInterview = (job: JobApplication): Interview | undefined =>
+  nextInterview(job) ||
+  sortInterviews(job.interviews || [])
+    .filter((interview) => interview.outcome !== "cancelled")
+    .pop();
+
+export function createInterview(
+  fields: Partial<Interview> & Pick<Interview, "scheduledAt">
+): Interview {
+  return {
+    round: "Interview",
+    format: fields.link ? "video" : "other",
+    outcome: "pending",
+    ...fields,
+    id: crypto.randomUUID(),
+  };
+}
+
+/**
+ * Keeps the interview list and the single `interviewDate`/`interviewLink`
+ * fields in step. An edit to the list wins; an edit to the single fields
+ * (from forms, imports and status changes that only know those) moves,
+ * adds or removes the round they describe.
+ */
+export function syncInterviews(
+  job: JobApplication,
+  previous?: JobApplication
+): JobApplication {
+  let interviews = job.interviews || [];
+  const listEdited = previous
+    ? job.interviews !== previous.interviews
+    : !!job.interviews;
+  const dateEdited = job.interviewDate !== previous?.interviewDate;
+  const linkEdited = job.interviewLink !== previous?.interviewLink;
+
+  if (!listEdited && (dateEdited || linkEdited)) {
+    const current = previous && summaryInterview(previous);
+    const date = job.interviewDate;
+
+    if (dateEdited && !date) {
+      interviews = interviews.filter((item) => item.id !== current?.id);
+    } else if (current) {
+      interviews = interviews.map((item) =>
+        item.id === current.id
+          ? {
+              ...item,
+              ...(dateEdited && date
+                ? { scheduledAt: date, timeZone: undefined }
+                : {}),
+              link: job.interviewLink,
+            }
+          : item
+      );
+    } else if (date) {
+      interviews = [
+        ...interviews,
+        createInterview({
+          scheduledAt: date,
+          link: job.interviewLink,
+        }),
+      ];
+    }
+  }
+
+  const synced = { ...job, interviews };
+  const summary = summaryInterview(synced);
+  if (!summary) {
+    // Without a round there is no date, but a link on its own is kept
+    return { ...synced, interviewDate: undefined };
+  }
+
+  const start = interviewStart(summary);
+  return {
+    ...synced,
+    interviewDate:
+      start && summary.timeZone
+        ? toLocalValue(start, isAllDay(summary))
+        : summary.scheduledAt,
+    interviewLink: summary.link,
+  };
+}
@@ -1,91 +1,107 @@
 import { JobApplication, StatusHistoryEntry } from "@/types/job";
+import { storage } from "@/lib/storageAdapter";
+import { historyService, JobChange, HistoryEntry } from "@/lib/historyService";
+import { syncService } from "@/lib/syncService";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import { assertTransition, TransitionOptions } from "@/lib/statusTransitions";
+import { syncInterviews } from "@/lib/interviews";
+import { outcomeAfterMove, reasonLabel } from "@/lib/outcomes";
+import { ImportPlan } from "@/lib/importService";
+import {
+  migrateApplications,
+  parseSchemaVersion,
+  CURRENT_SCHEMA_VERSION,
+  SchemaVersionError,
+} from "@/lib/schemaMigrations";
 
 const STORAGE_KEY = "job-applications";
-const STORAGE_VERSION = "2.0";
-
-// Enhanced migration function to handle old data structure and add new fields
-const migrateJobApplication = (job: any): JobApplication => {
-  // If it's already the new format, return as is
-  if (job.salaryRange && job.workLocation && job.jobType && job.workMode) {
-    return {
-      ...job,
-      statusHistory: job.statusHistory || [
-        {
-          id: crypto.randomUUID(),
-          status: job.status,
-          date: job.appliedDate + "T00:00:00.000Z",
-          notes: "Migrated from old format",
-        },
-      ],
-      contacts: job.contacts || [],
-      documents: job.documents || [],
-      priority: job.priority || "medium",
-      archived: job.archived || false,
-      interviewDate: job.interviewDate || undefined,
-      followUpDate: job.followUpDate || undefined,
-    };
-  }
-
-  // Migrate from old format
-  return {
-    ...job,
-    salaryRange: {
-      min: job.expectedSalary ? job.expectedSalary.split("-")[0]?.trim() : "",
-      max: job.expectedSalary ? job.expectedSalary.split("-")[1]?.trim() : "",
-      currency: "USD",
-    },
-    workLocation: job.workLocation || "Not specified",
-    jobType: job.jobType || "full-time",
-    workMode: job.workMode || "on-site",
-    category: job.category || "",
-    experienceLevel: job.experienceLevel || "mid",
-    jobPostingUrl: job.jobPostingUrl || "",
-    statusHistory: [
+// Every read-modify-write runs under a cross-tab lock so no tab's write is lost
+const withJobsLock = <R>(task: () => Promise<R>): Promise<R> =>
+  syncService.withLock(STORAGE_KEY, task);
+
+const generateJobId = (): string =>
+  Date.now().toString() + Math.random().toString(36).substr(2, 9);
+
+const createImportedApplication = (
+  application: Omit<JobApplication, "id">
+): JobApplication =>
+  syncInterviews({
+    ...application,
+    id: generateJobId(),
+    statusHistory: application.statusHistory || [
       {
         id: crypto.randomUUID(),
-        status: job.status,
-        date: job.appliedDate + "T00:00:00.000Z",
-        notes: "Migrated from old format",
+        status: application.status,
+        date: new Date().toISOString(),
+        notes: "Application imported",
       },
     ],
-    contacts: [],
-    documents: [],
-    priority: "medium",
-    archived: false,
-  };
+    contacts: application.contacts || [],
+    documents: application.documents || [],
+    archived: application.archived || false,
+  });
+
+// Puts each job back into the state on one side of a recorded change
+const applyChanges = (
+  applications: JobApplication[],
+  changes: JobChange[],
+  side: "before" | "after"
+): JobApplication[] => {
+  const result = [...applications];
+
+  changes.forEach((change) => {
+    const target = change[side];
+    const index = result.findIndex((app) => app.id === change.jobId);
+
+    if (target && index !== -1) {
+      result[index] = target;
+    } else if (target) {
+      result.push(target);
+    } else if (index !== -1) {
+      result.splice(index, 1);
+    }
+  });
+
+  return result;
 };
 
 export const jobStorage = {
-  getAll: (): JobApplication[] => {
+  getAll: async (): Promise<JobApplication[]> => {
     if (typeof window === "undefined") return [];
 
     try {
-      const stored = localStorage.getItem(STORAGE_KEY);
-      const jobs = stored ? JSON.parse(stored) : [];
-      // Migrate all jobs to new format
-      return jobs.map(migrateJobApplication);
+      // Stored data is brought up to date once at startup by migrationService
+      return (await storage.getItem<JobApplication[]>(STORAGE_KEY)) || [];
     } catch (error) {
       console.error("Error loading job applications:", error);
       return [];
     }
   },
 
-  save: (applications: JobApplication[]): void => {
+  save: async (applications: JobApplication[]): Promise<void> => {
     if (typeof window === "undefined") return;
 
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(applications));
+      await storage.setItem(STORAGE_KEY, applications);
+      syncService.publish(STORAGE_KEY);
     } catch (error) {
       console.error("Error saving job applications:", error);
     }
   },
 
-  add: (application: Omit<JobApplication, "id">): JobApplication => {
+  // Fires when another tab changes the stored applications
+  subscribe: (listener: () => void): (() => void) => {
+    return syncService.subscribe(STORAGE_KEY, listener);
+  },
+
+  add: async (
+    application: Omit<JobApplication, "id">
+  ): Promise<JobApplication> => {
     console.log("jobStorage.add called with:", application);
 
-    const newApplication: JobApplication = {
+    const newApplication: JobApplication = syncInterviews({
       ...application,
-      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      id: generateJobId(),
       statusHistory: [
         {
           id: crypto.randomUUID(),
@@ -97,13 +113,20 @@ export const jobStorage = {
       contacts: application.contacts || [],
       documents: application.documents || [],
       archived: false,
-    };
+    });
 
     console.log("Created new application:", newApplication);
 
-    const applications = jobStorage.getAll();
-    applications.push(newApplication);
-    jobStorage.save(applications);
+    const applications = await withJobsLock(async () => {
+      const applications = await jobStorage.getAll();
+      applications.push(newApplication);
+      await jobStorage.save(applications);
+      return applications;
+    });
+    historyService.record(
+      `Add ${newApplication.role} at ${newApplication.company}`,
+      [{ jobId: newApplication.id, before: null, after: newApplication }]
+    );
 
     console.log(
       "Saved applications to storage, total count:",
@@ -113,51 +136,216 @@ export const jobStorage = {
     return newApplication;
   },
 
-  update: (id: string, updates: Partial<JobApplication>): void => {
-    const applications = jobStorage.getAll();
-    const index = applications.findIndex((app) => app.id === id);
+  // Bulk add recorded as a single undoable step (used by imports)
+  addMany: async (
+    incoming: Omit<JobApplication, "id">[],
+    label: string = "Import applications"
+  ): Promise<JobApplication[]> => {
+    const created = incoming.map(createImportedApplication);
+
+    await withJobsLock(async () => {
+      const applications = await jobStorage.getAll();
+      await jobStorage.save([...applications, ...created]);
+    });
+    historyService.record(
+      label,
+      created.map((app) => ({ jobId: app.id, before: null, after: app }))
+    );
+
+    return created;
+  },
+
+  // Applies a reviewed merge import (see importService) as one undoable step
+  commitImport: async (
+    plan: ImportPlan,
+    label: string = "Merge imported applications"
+  ): Promise<void> => {
+    const created = plan.additions.map(createImportedApplication);
+
+    const changes = await withJobsLock(async () => {
+      const applications = await jobStorage.getAll();
+      const changes: JobChange[] = created.map((app) => ({
+        jobId: app.id,
+        before: null,
+        after: app,
+      }));
+
+      plan.updates.forEach((updated) => {
+        const index = applications.findIndex((app) => app.id === updated.id);
+        if (index === -1) return;
+
+        const after = syncInterviews(updated, applications[index]);
+        changes.push({
+          jobId: updated.id,
+          before: applications[index],
+          after,
+        });
+        applications[index] = after;
+      });
+
+      await jobStorage.save([...applications, ...created]);
+      return changes;
+    });
+    historyService.record(label, changes);
+  },
+
+  // Status changes must pass the stage transition rules (statusTransitions).
+  // Resolves to the application as saved, with its status history and
+  // outcome, or null when there is no application with that id
+  update: (
+    id: string,
+    updates: Partial<JobApplication>,
+    transition: TransitionOptions = {}
+  ): Promise<JobApplication | null> =>
+    withJobsLock(async () => {
+      const applications = await jobStorage.getAll();
+      const index = applications.findIndex((app) => app.id === id);
+      if (index === -1) return null;
 
-    if (index !== -1) {
       const oldApp = applications[index];
-      const updatedApp = { ...oldApp, ...updates };
+      const updatedApp = syncInterviews({ ...oldApp, ...updates }, oldApp);
+
+      const to = pipelineStageService.getLabel(updates.status || "");
 
       // If status changed, add to status history
       if (updates.status && updates.status !== oldApp.status) {
-        const statusHistory = oldApp.statusHistory || [];
+        assertTransition(updatedApp, oldApp.status, updates.status, transition);
+
+        const from = pipelineStageService.getLabel(oldApp.status);
+        const date = new Date().toISOString();
+        const reason = [
+          transition.outcome?.reason && reasonLabel(transition.outcome.reason),
+          transition.reason?.trim(),
+          transition.note,
+        ]
+          .filter(Boolean)
+          .join(" – ");
+        const statusHistory = [...(oldApp.statusHistory || [])];
         statusHistory.push({
           id: crypto.randomUUID(),
           status: updates.status,
-          date: new Date().toISOString(),
-          notes: `Status changed from ${oldApp.status} to ${updates.status}`,
+          date,
+          notes: `Status changed from ${from} to ${to}${
+            reason ? `: ${reason}` : ""
+          }`,
         });
         updatedApp.statusHistory = statusHistory;
+        updatedApp.outcome = outcomeAfterMove(
+          oldApp,
+          oldApp.status,
+          updates.status,
+          transition,
+          date
+        );
       }
 
       applications[index] = updatedApp;
-      jobStorage.save(applications);
-    }
-  },
+      await jobStorage.save(applications);
+      historyService.record(
+        updates.status && updates.status !== oldApp.status
+          ? `Change ${oldApp.company} status to ${to}`
+          : `Edit ${oldApp.role} at ${oldApp.company}`,
+        [{ jobId: id, before: oldApp, after: updatedApp }]
+      );
+      return updatedApp;
+    }),
 
-  delete: (id: string): void => {
-    const applications = jobStorage.getAll();
-    const filtered = applications.filter((app) => app.id !== id);
-    jobStorage.save(filtered);
-  },
+  // Moves every application in one stage to another, as one undoable step
+  reassignStatus: (
+    from: string,
+    to: string,
+    label: string = `Move applications to ${pipelineStageService.getLabel(to)}`
+  ): Promise<number> =>
+    withJobsLock(async () => {
+      const applications = await jobStorage.getAll();
+      const changes: JobChange[] = [];
+      const date = new Date().toISOString();
+      const notes = `Status changed from ${pipelineStageService.getLabel(
+        from
+      )} to ${pipelineStageService.getLabel(to)}`;
+
+      const updated = applications.map((app) => {
+        if (app.status !== from) return app;
+
+        const moved: JobApplication = {
+          ...app,
+          status: to,
+          outcome: outcomeAfterMove(app, from, to, {}, date),
+          statusHistory: [
+            ...(app.statusHistory || []),
+            {
+              id: crypto.randomUUID(),
+              status: to,
+              date,
+              notes,
+            },
+          ],
+        };
+        changes.push({ jobId: app.id, before: app, after: moved });
+        return moved;
+      });
 
-  archive: (id: string): void => {
-    jobStorage.update(id, { archived: true });
+      if (changes.length > 0) {
+        await jobStorage.save(updated);
+        historyService.record(label, changes);
+      }
+      return changes.length;
+    }),
+
+  delete: (id: string): Promise<void> =>
+    withJobsLock(async () => {
+      const applications = await jobStorage.getAll();
+      const deleted = applications.find((app) => app.id === id);
+      const filtered = applications.filter((app) => app.id !== id);
+      await jobStorage.save(filtered);
+
+      if (deleted) {
+        historyService.record(`Delete ${deleted.role} at ${deleted.company}`, [
+          { jobId: id, before: deleted, after: null },
+        ]);
+      }
+    }),
+
+  archive: (id: string): Promise<JobApplication | null> => {
+    return jobStorage.update(id, { archived: true });
   },
 
-  unarchive: (id: string): void => {
-    jobStorage.update(id, { archived: false });
+  unarchive: (id: string): Promise<JobApplication | null> => {
+    return jobStorage.update(id, { archived: false });
   },
 
+  // Undo/redo replay recorded changes without recording new history
+  undo: (): Promise<HistoryEntry | null> =>
+    withJobsLock(async () => {
+      const entry = historyService.takeUndo();
+      if (!entry) return null;
+
+      const applications = await jobStorage.getAll();
+      await jobStorage.save(
+        applyChanges(applications, entry.changes, "before")
+      );
+      return entry;
+    }),
+
+  redo: (): Promise<HistoryEntry | null> =>
+    withJobsLock(async () => {
+      const entry = historyService.takeRedo();
+      if (!entry) return null;
+
+      const applications = await jobStorage.getAll();
+      await jobStorage.save(applyChanges(applications, entry.changes, "after"));
+      return entry;
+    }),
+
   // Export/Import functionality
-  exportData: (): string => {
-    const applications = jobStorage.getAll();
+  // Pass the stored version when exporting data that is not migrated yet
+  exportData: async (
+    schemaVersion: number = CURRENT_SCHEMA_VERSION
+  ): Promise<string> => {
+    const applications = await jobStorage.getAll();
     return JSON.stringify(
       {
-        version: STORAGE_VERSION,
+        schemaVersion,
         exportDate: new Date().toISOString(),
         applications,
       },
@@ -166,9 +354,10 @@ export const jobStorage = {
     );
   },
 
-  importData: (
-    jsonData: string
-  ): { success: boolean; message: string; imported: number } => {
+  importData: async (
+    jsonData: string,
+    label: string = "Replace all applications from import"
+  ): Promise<{ success: boolean; message: string; imported: number }> => {
     try {
       const data = JSON.parse(jsonData);
 
@@ -176,8 +365,29 @@ export const jobStorage = {
         return { success: false, message: "Invalid data format", imported: 0 };
       }
 
-      const migratedApps = data.applications.map(migrateJobApplication);
-      jobStorage.save(migratedApps);
+      // Older exports stamped a "2.0"-style `version` instead
+      const migratedApps = migrateApplications(
+        data.applications,
+        parseSchemaVersion(data.schemaVersion ?? data.version)
+      );
+      const previousApps = await withJobsLock(async () => {
+        const previousApps = await jobStorage.getAll();
+        await jobStorage.save(migratedApps);
+        return previousApps;
+      });
+
+      const changedIds = new Set([
+        ...previousApps.map((app) => app.id),
+        ...migratedApps.map((app) => app.id),
+      ]);
+      historyService.record(
+        label,
+        Array.from(changedIds).map((jobId) => ({
+          jobId,
+          before: previousApps.find((app) => app.id === jobId) || null,
+          after: migratedApps.find((app) => app.id === jobId) || null,
+        }))
+      );
 
       return {
         success: true,
@@ -185,6 +395,9 @@ export const jobStorage = {
         imported: migratedApps.length,
       };
     } catch (error) {
+      if (error instanceof SchemaVersionError) {
+        return { success: false, message: error.message, imported: 0 };
+      }
       return {
         success: false,
         message: "Failed to parse import data",
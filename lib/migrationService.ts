@@ -0,0 +1,62 @@
+import { storage } from "@/lib/storageAdapter";
+import { syncService } from "@/lib/syncService";
+import { snapshotService } from "@/lib/snapshotService";
+import {
+  CURRENT_SCHEMA_VERSION,
+  migrateApplications,
+  parseSchemaVersion,
+} from "@/lib/schemaMigrations";
+
+const JOBS_KEY = "job-applications";
+const VERSION_KEY = "applitrack-schema-version";
+
+// Brings stored applications up to the current schema once per version bump
+class MigrationService {
+  readonly ready: Promise<void>;
+
+  constructor() {
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    if (typeof window === "undefined") return;
+
+    try {
+      // Only one tab may migrate; the others see the stamp once it is done
+      await syncService.withLock(JOBS_KEY, () => this.runPendingMigrations());
+    } catch (error) {
+      console.error("Failed to migrate stored applications:", error);
+    }
+  }
+
+  private async runPendingMigrations(): Promise<void> {
+    const storedVersion = parseSchemaVersion(
+      await storage.getItem<number>(VERSION_KEY)
+    );
+
+    if (storedVersion > CURRENT_SCHEMA_VERSION) {
+      console.warn(
+        `Stored data is schema v${storedVersion}; leaving it untouched`
+      );
+      return;
+    }
+    if (storedVersion === CURRENT_SCHEMA_VERSION) return;
+
+    const jobs = await storage.getItem<unknown[]>(JOBS_KEY);
+    if (jobs && jobs.length > 0) {
+      // Restoring this snapshot replays the chain, so nothing is lost
+      await snapshotService.createSnapshot("before-migration", {
+        schemaVersion: storedVersion,
+      });
+      await storage.setItem(JOBS_KEY, migrateApplications(jobs, storedVersion));
+      syncService.publish(JOBS_KEY);
+      console.log(
+        `Migrated ${jobs.length} applications from schema v${storedVersion} to v${CURRENT_SCHEMA_VERSION}`
+      );
+    }
+
+    await storage.setItem(VERSION_KEY, CURRENT_SCHEMA_VERSION);
+  }
+}
+
+export const migrationService = new MigrationService();
@@ -1,10 +1,20 @@
 import { JobApplication } from "@/types/job";
+import { storage } from "@/lib/storageAdapter";
+import { SyncedStore } from "@/lib/syncService";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import {
+  interviewStart,
+  sortInterviews,
+  upcomingInterviews,
+} from "@/lib/interviews";
+import { offerExpiry } from "@/lib/offers";
 
 export interface NotificationSettings {
   enabled: boolean;
   followUpReminders: boolean;
   interviewReminders: boolean;
   applicationDeadlines: boolean;
+  offerExpiryReminders: boolean;
   statusUpdates: boolean;
   reminderDays: number;
   interviewReminderHours: number;
@@ -12,10 +22,17 @@ export interface NotificationSettings {
 
 export interface SmartNotification {
   id: string;
-  type: "follow-up" | "interview" | "deadline" | "status-update";
+  type:
+    | "follow-up"
+    | "interview"
+    | "deadline"
+    | "offer-expiry"
+    | "status-update"
+    | "rule";
   title: string;
   message: string;
   jobId: string;
+  interviewId?: string; // the round an interview reminder is for
   scheduledFor: Date;
   isRead: boolean;
   isSent: boolean;
@@ -28,21 +45,45 @@ class NotificationService {
   private notifications: SmartNotification[] = [];
   private settings: NotificationSettings;
   private eventListeners: Set<(count: number) => void> = new Set();
+  private notificationStore: SyncedStore<SmartNotification[]>;
+  private settingsStore: SyncedStore<NotificationSettings>;
+  readonly ready: Promise<void>;
 
   constructor() {
-    this.settings = this.loadSettings();
-    this.notifications = this.loadNotifications();
+    this.settings = this.getDefaultSettings();
+    this.notificationStore = new SyncedStore({
+      key: this.STORAGE_KEY,
+      load: () => this.loadNotifications(),
+      get: () => this.notifications,
+      set: (notifications) => (this.notifications = notifications),
+      revive: (notifications) => notifications.map(this.reviveNotification),
+    });
+    this.settingsStore = new SyncedStore({
+      key: this.SETTINGS_KEY,
+      load: () => this.loadSettings(),
+      get: () => this.settings,
+      set: (settings) => (this.settings = settings),
+    });
+    this.notificationStore.onRemoteChange(() => this.notifyUnreadCountChange());
+    this.settingsStore.onRemoteChange(() => this.notifyUnreadCountChange());
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    await this.settingsStore.load();
+    await this.notificationStore.load();
+    this.notifyUnreadCountChange();
     this.setupPeriodicCheck();
   }
 
-  private loadSettings(): NotificationSettings {
+  private async loadSettings(): Promise<NotificationSettings> {
     if (typeof window === "undefined") return this.getDefaultSettings();
 
     try {
-      const saved = localStorage.getItem(this.SETTINGS_KEY);
-      return saved
-        ? { ...this.getDefaultSettings(), ...JSON.parse(saved) }
-        : this.getDefaultSettings();
+      const saved = await storage.getItem<Partial<NotificationSettings>>(
+        this.SETTINGS_KEY
+      );
+      return { ...this.getDefaultSettings(), ...saved };
     } catch {
       return this.getDefaultSettings();
     }
@@ -54,32 +95,39 @@ class NotificationService {
       followUpReminders: true,
       interviewReminders: true,
       applicationDeadlines: true,
+      offerExpiryReminders: true,
       statusUpdates: true,
       reminderDays: 7,
       interviewReminderHours: 24,
     };
   }
 
-  private loadNotifications(): SmartNotification[] {
+  private async loadNotifications(): Promise<SmartNotification[]> {
     if (typeof window === "undefined") return [];
 
     try {
-      const saved = localStorage.getItem(this.STORAGE_KEY);
+      const saved = await storage.getItem<SmartNotification[]>(
+        this.STORAGE_KEY
+      );
       if (!saved) return [];
 
-      return JSON.parse(saved).map((n: any) => ({
-        ...n,
-        scheduledFor: new Date(n.scheduledFor),
-        createdAt: new Date(n.createdAt),
-      }));
+      return saved.map(this.reviveNotification);
     } catch {
       return [];
     }
   }
 
+  // Dates come back as strings when the fallback store serializes to JSON
+  private reviveNotification(n: SmartNotification): SmartNotification {
+    return {
+      ...n,
+      scheduledFor: new Date(n.scheduledFor),
+      createdAt: new Date(n.createdAt),
+    };
+  }
+
   private saveNotifications(): void {
-    if (typeof window === "undefined") return;
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.notifications));
+    this.notificationStore.save();
     this.notifyUnreadCountChange();
   }
 
@@ -98,8 +146,7 @@ class NotificationService {
   }
 
   private saveSettings(): void {
-    if (typeof window === "undefined") return;
-    localStorage.setItem(this.SETTINGS_KEY, JSON.stringify(this.settings));
+    this.settingsStore.save();
   }
 
   updateSettings(newSettings: Partial<NotificationSettings>): void {
@@ -162,30 +209,36 @@ class NotificationService {
     this.saveNotifications();
   }
 
+  // One reminder per upcoming round; rounds that already have one are skipped
   scheduleInterviewReminder(job: JobApplication): void {
-    if (
-      !this.settings.enabled ||
-      !this.settings.interviewReminders ||
-      !job.interviewDate
-    )
-      return;
+    if (!this.settings.enabled || !this.settings.interviewReminders) return;
 
-    const reminderDate = new Date(job.interviewDate);
-    reminderDate.setHours(
-      reminderDate.getHours() - this.settings.interviewReminderHours
+    const pending = upcomingInterviews(job).filter(
+      (interview) =>
+        !this.notifications.some(
+          (n) => n.interviewId === interview.id && !n.isSent
+        )
     );
+    if (pending.length === 0) return;
 
-    const notification = this.createNotification(
-      "interview",
-      "Interview Reminder",
-      `Interview tomorrow at ${new Date(
-        job.interviewDate
-      ).toLocaleTimeString()} with ${job.company}`,
-      job.id,
-      reminderDate
-    );
+    pending.forEach((interview) => {
+      const start = interviewStart(interview) as Date;
+      const reminderDate = new Date(start);
+      reminderDate.setHours(
+        reminderDate.getHours() - this.settings.interviewReminderHours
+      );
 
-    this.notifications.push(notification);
+      this.notifications.push({
+        ...this.createNotification(
+          "interview",
+          "Interview Reminder",
+          `${interview.round} with ${job.company} on ${start.toLocaleString()}`,
+          job.id,
+          reminderDate
+        ),
+        interviewId: interview.id,
+      });
+    });
     this.saveNotifications();
   }
 
@@ -212,6 +265,66 @@ class NotificationService {
     this.saveNotifications();
   }
 
+  // Two days before an offer lapses, or straight away when that has passed
+  scheduleOfferExpiryReminder(job: JobApplication): void {
+    const expiry = job.offer && offerExpiry(job.offer);
+    if (
+      !this.settings.enabled ||
+      !this.settings.offerExpiryReminders ||
+      !expiry ||
+      expiry < new Date()
+    )
+      return;
+
+    const reminderDate = new Date(expiry);
+    reminderDate.setDate(reminderDate.getDate() - 2);
+    reminderDate.setHours(9, 0, 0, 0);
+
+    const notification = this.createNotification(
+      "offer-expiry",
+      "Offer Expiry Reminder",
+      `Your offer from ${job.company} for ${
+        job.role
+      } expires on ${expiry.toLocaleDateString()}`,
+      job.id,
+      reminderDate
+    );
+
+    this.notifications.push(notification);
+    this.saveNotifications();
+  }
+
+  // Replaces a job's unsent interview, follow-up and offer reminders after
+  // its dates move
+  rescheduleJobReminders(job: JobApplication): void {
+    this.notifications = this.notifications.filter(
+      (n) =>
+        n.jobId !== job.id ||
+        n.isSent ||
+        (n.type !== "interview" &&
+          n.type !== "deadline" &&
+          n.type !== "offer-expiry")
+    );
+    this.scheduleInterviewReminder(job);
+    this.scheduleDeadlineReminder(job);
+    this.scheduleOfferExpiryReminder(job);
+    this.saveNotifications();
+  }
+
+  // Moving a reminder sends it again at the new time
+  rescheduleNotification(id: string, scheduledFor: Date): void {
+    const index = this.notifications.findIndex((n) => n.id === id);
+    if (index === -1) return;
+
+    this.notifications[index] = {
+      ...this.notifications[index],
+      scheduledFor,
+      isSent: false,
+      isRead: false,
+    };
+    this.saveNotifications();
+  }
+
   notifyStatusUpdate(
     job: JobApplication,
     oldStatus: string,
@@ -232,6 +345,23 @@ class NotificationService {
     this.sendBrowserNotification(notification);
   }
 
+  // Rules are opted into one by one, so only the master switch applies
+  notifyFromRule(job: JobApplication, title: string, message: string): void {
+    if (!this.settings.enabled) return;
+
+    const notification = this.createNotification(
+      "rule",
+      title,
+      message || `${job.company} - ${job.role}`,
+      job.id,
+      new Date()
+    );
+
+    this.notifications.push(notification);
+    this.saveNotifications();
+    this.sendBrowserNotification(notification);
+  }
+
   private async sendBrowserNotification(
     notification: SmartNotification
   ): Promise<void> {
@@ -341,7 +471,7 @@ class NotificationService {
     // Find applications needing follow-up
     const needingFollowUp = jobs.filter(
       (job) =>
-        job.status === "applied" &&
+        job.status === pipelineStageService.getInitialStage().id &&
         new Date(job.appliedDate) <= oneWeekAgo &&
         !job.followUpDate
     );
@@ -356,30 +486,34 @@ class NotificationService {
     });
 
     // Find upcoming interviews
-    const upcomingInterviews = jobs.filter(
-      (job) =>
-        job.interviewDate &&
-        new Date(job.interviewDate) >= now &&
-        new Date(job.interviewDate).getTime() - now.getTime() <=
+    jobs.forEach((job) => {
+      const soon = upcomingInterviews(job, now).find(
+        (interview) =>
+          (interviewStart(interview) as Date).getTime() - now.getTime() <=
           48 * 60 * 60 * 1000
-    );
+      );
+      if (!soon) return;
 
-    upcomingInterviews.forEach((job) => {
       suggestions.push({
         type: "interview-prep",
-        message: `Prepare for your interview with ${job.company} - research the company and practice common questions`,
+        message: `Prepare for your ${soon.round.toLowerCase()} with ${job.company} - research the company and practice common questions`,
         jobId: job.id,
         action: "interview-prep",
       });
     });
 
-    // Find stale applications
-    const staleApplications = jobs.filter(
-      (job) =>
-        job.status === "interview" &&
-        job.interviewDate &&
-        new Date(job.interviewDate) <= oneWeekAgo
-    );
+    // Find stale applications: the last round was over a week ago and
+    // nothing else is booked
+    const staleApplications = jobs.filter((job) => {
+      if (pipelineStageService.isClosed(job.status)) return false;
+      if (upcomingInterviews(job, now).length > 0) return false;
+
+      const last = sortInterviews(job.interviews || [])
+        .filter((interview) => interview.outcome !== "cancelled")
+        .pop();
+      const start = last && interviewStart(last);
+      return !!start && start <= oneWeekAgo;
+    });
 
     staleApplications.forEach((job) => {
       suggestions.push({
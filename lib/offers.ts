@@ -0,0 +1,137 @@
+import { endOfDay } from "date-fns";
+import { ExchangeRates, JobApplication, Offer, OfferEquity } from "@/types/job";
+import { parseDate } from "@/lib/calendarExport";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+
+export const COMPARISON_YEARS = 4;
+
+// Four-year vest with no back-loading, the most common schedule
+export const DEFAULT_VESTING = [25, 25, 25, 25];
+
+export const DEFAULT_EXCHANGE_RATES: ExchangeRates = {
+  base: "USD",
+  rates: {},
+};
+
+// Equity vesting in `year`, counting the first year as 1
+export const equityInYear = (
+  equity: OfferEquity | undefined,
+  year: number
+): number =>
+  equity ? (equity.grantValue * (equity.vesting[year - 1] || 0)) / 100 : 0;
+
+export interface OfferTotals {
+  baseSalary: number;
+  bonus: number;
+  equity: number; // vesting in the first year
+  signOnBonus: number;
+  firstYear: number;
+  fourYear: number;
+}
+
+// First-year and four-year compensation, assuming the bonus pays out at
+// target every year and the sign-on bonus only once
+export function offerTotals(offer: Offer, rate = 1): OfferTotals {
+  const bonus = offer.bonus || 0;
+  const signOnBonus = offer.signOnBonus || 0;
+  const equityByYear = Array.from({ length: COMPARISON_YEARS }, (_, i) =>
+    equityInYear(offer.equity, i + 1)
+  );
+  const vested = equityByYear.reduce((sum, amount) => sum + amount, 0);
+
+  return {
+    baseSalary: offer.baseSalary * rate,
+    bonus: bonus * rate,
+    equity: equityByYear[0] * rate,
+    signOnBonus: signOnBonus * rate,
+    firstYear:
+      (offer.baseSalary + bonus + signOnBonus + equityByYear[0]) * rate,
+    fourYear:
+      ((offer.baseSalary + bonus) * COMPARISON_YEARS + signOnBonus + vested) *
+      rate,
+  };
+}
+
+export const formatMoney = (value: number, currency: string): string => {
+  try {
+    return value.toLocaleString("en-US", {
+      style: "currency",
+      currency,
+      maximumFractionDigits: 0,
+    });
+  } catch {
+    // Codes Intl doesn't know
+    return `${currency} ${Math.round(value).toLocaleString("en-US")}`;
+  }
+};
+
+// One unit of `currency` in the base currency; undefined until entered
+export const rateFor = (
+  currency: string,
+  rates: ExchangeRates
+): number | undefined => {
+  const code = currency.toUpperCase();
+  return code === rates.base.toUpperCase() ? 1 : rates.rates[code];
+};
+
+// Offers are good until the end of their expiry day
+export const offerExpiry = (offer: Offer): Date | undefined => {
+  const parsed = offer.expiryDate && parseDate(offer.expiryDate);
+  return parsed ? endOfDay(parsed.date) : undefined;
+};
+
+export const isOfferExpired = (offer: Offer, now = new Date()): boolean => {
+  const expiry = offerExpiry(offer);
+  return !!expiry && expiry < now;
+};
+
+// Offers still on the table: not archived, lost or lapsed
+export const isOpenOffer = (job: JobApplication, now = new Date()): boolean =>
+  !!job.offer &&
+  !job.archived &&
+  pipelineStageService.getCategory(job.status) !== "closed-lost" &&
+  !isOfferExpired(job.offer, now);
+
+export interface OfferComparison {
+  job: JobApplication;
+  offer: Offer;
+  rate?: number;
+  totals?: OfferTotals; // in the base currency; unset without a rate
+}
+
+// Open offers in the base currency, best four-year total first. Offers
+// whose currency has no rate yet go last.
+export function compareOffers(
+  jobs: JobApplication[],
+  rates: ExchangeRates,
+  now = new Date()
+): OfferComparison[] {
+  return jobs
+    .filter((job) => isOpenOffer(job, now))
+    .map((job) => {
+      const offer = job.offer as Offer;
+      const rate = rateFor(offer.currency, rates);
+      return {
+        job,
+        offer,
+        rate,
+        totals: rate === undefined ? undefined : offerTotals(offer, rate),
+      };
+    })
+    .sort((a, b) => (b.totals?.fourYear ?? -1) - (a.totals?.fourYear ?? -1));
+}
+
+// Currencies the open offers need a rate for
+export const offerCurrencies = (
+  jobs: JobApplication[],
+  base: string
+): string[] =>
+  Array.from(
+    new Set(
+      jobs
+        .filter((job) => isOpenOffer(job))
+        .map((job) => (job.offer as Offer).currency.toUpperCase())
+    )
+  )
+    .filter((currency) => currency !== base.toUpperCase())
+    .sort();
@@ -0,0 +1,154 @@
+import {
+  ApplicationOutcome,
+  ClosedBy,
+  JobApplication,
+  OutcomeReason,
+} from "@/types/job";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import { TransitionOptions } from "@/lib/statusTransitions";
+
+export const CLOSED_BY_LABELS: Record<ClosedBy, string> = {
+  employer: "Employer",
+  me: "Me",
+};
+
+// The taxonomy, with who each reason applies to
+export const OUTCOME_REASONS: {
+  id: OutcomeReason;
+  label: string;
+  closedBy: ClosedBy[];
+}[] = [
+  { id: "no-response", label: "No response", closedBy: ["employer"] },
+  { id: "skills-gap", label: "Skills gap", closedBy: ["employer"] },
+  {
+    id: "experience-level",
+    label: "Experience level",
+    closedBy: ["employer"],
+  },
+  { id: "compensation", label: "Compensation", closedBy: ["employer", "me"] },
+  { id: "role-filled", label: "Role filled", closedBy: ["employer"] },
+  {
+    id: "position-cancelled",
+    label: "Position cancelled",
+    closedBy: ["employer"],
+  },
+  { id: "culture-fit", label: "Culture fit", closedBy: ["employer", "me"] },
+  {
+    id: "location",
+    label: "Location or remote policy",
+    closedBy: ["employer", "me"],
+  },
+  { id: "other-offer", label: "Took another offer", closedBy: ["me"] },
+  { id: "role-mismatch", label: "Role not a fit", closedBy: ["me"] },
+  { id: "company-concerns", label: "Company concerns", closedBy: ["me"] },
+  { id: "process-too-long", label: "Process too long", closedBy: ["me"] },
+  { id: "other", label: "Other", closedBy: ["employer", "me"] },
+];
+
+export const reasonLabel = (reason?: OutcomeReason): string =>
+  OUTCOME_REASONS.find((item) => item.id === reason)?.label || "Not recorded";
+
+export const reasonsFor = (closedBy: ClosedBy) =>
+  OUTCOME_REASONS.filter((reason) => reason.closedBy.includes(closedBy));
+
+export const isLostStage = (stage: string): boolean =>
+  pipelineStageService.getCategory(stage) === "closed-lost";
+
+// Guesses for moves made without the status dialog, e.g. bulk moves
+export const defaultClosedBy = (stage: string): ClosedBy =>
+  stage === "withdrawn" ? "me" : "employer";
+
+const defaultReason = (stage: string): OutcomeReason | undefined =>
+  stage === "ghosted" ? "no-response" : undefined;
+
+/**
+ * The outcome an application has after moving from `from` to `to`: a new
+ * one on entering a lost stage, none on leaving. Moves between lost stages
+ * keep the stage it was really lost at.
+ */
+export function outcomeAfterMove(
+  job: JobApplication,
+  from: string,
+  to: string,
+  options: TransitionOptions,
+  date: string
+): ApplicationOutcome | undefined {
+  if (!isLostStage(to)) return undefined;
+
+  const stage = (isLostStage(from) && job.outcome?.stage) || from;
+  return {
+    closedBy: options.outcome?.closedBy ?? defaultClosedBy(to),
+    stage,
+    reason: options.outcome?.reason ?? defaultReason(to),
+    feedback: options.reason?.trim() || undefined,
+    date,
+  };
+}
+
+export interface OutcomeCount {
+  key: string; // a stage id or reason id, "" for none
+  count: number;
+}
+
+export interface OutcomeBreakdown {
+  total: number;
+  byClosedBy: Record<ClosedBy, number>;
+  byStage: (OutcomeCount & { reasons: OutcomeCount[] })[]; // pipeline order
+  byReason: OutcomeCount[]; // most common first
+  feedback: { job: JobApplication; outcome: ApplicationOutcome }[]; // newest first
+}
+
+const countBy = <T>(items: T[], key: (item: T) => string): OutcomeCount[] => {
+  const counts = new Map<string, number>();
+  items.forEach((item) =>
+    counts.set(key(item), (counts.get(key(item)) || 0) + 1)
+  );
+  return Array.from(counts, ([key, count]) => ({ key, count })).sort(
+    (a, b) => b.count - a.count
+  );
+};
+
+// Applications added or imported straight into a lost stage have no
+// outcome; they count with an unknown stage and no reason
+const outcomeOf = (job: JobApplication): ApplicationOutcome =>
+  job.outcome || {
+    closedBy: defaultClosedBy(job.status),
+    stage: "",
+    date: job.appliedDate,
+  };
+
+// Where and why applications were lost, archived ones included
+export function outcomeBreakdown(
+  jobs: JobApplication[],
+  closedBy?: ClosedBy
+): OutcomeBreakdown {
+  const lost = jobs
+    .filter((job) => isLostStage(job.status))
+    .map((job) => ({ ...job, outcome: outcomeOf(job) }))
+    .filter((job) => !closedBy || job.outcome.closedBy === closedBy);
+  const stageOrder = (id: string) =>
+    pipelineStageService.getStage(id)?.order ?? Number.MAX_SAFE_INTEGER;
+
+  return {
+    total: lost.length,
+    byClosedBy: {
+      employer: lost.filter((job) => job.outcome.closedBy === "employer")
+        .length,
+      me: lost.filter((job) => job.outcome.closedBy === "me").length,
+    },
+    byStage: countBy(lost, (job) => job.outcome.stage)
+      .sort((a, b) => stageOrder(a.key) - stageOrder(b.key))
+      .map((stage) => ({
+        ...stage,
+        reasons: countBy(
+          lost.filter((job) => job.outcome.stage === stage.key),
+          (job) => job.outcome.reason || ""
+        ),
+      })),
+    byReason: countBy(lost, (job) => job.outcome.reason || ""),
+    feedback: lost
+      .filter((job) => job.outcome.feedback)
+      .map((job) => ({ job, outcome: job.outcome }))
+      .sort((a, b) => b.outcome.date.localeCompare(a.outcome.date)),
+  };
+}
@@ -0,0 +1,263 @@
+// Minimal PDF 1.4 writer: text in the built-in Helvetica faces, lines and
+// filled rectangles. Enough for reports without shipping a PDF library.
+
+export type PageSize = "a4" | "letter";
+
+export interface TextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: RGB;
+}
+
+export type RGB = [number, number, number]; // 0-1 per channel
+
+// Points (1/72 inch)
+const PAGE_SIZES: Record<PageSize, { width: number; height: number }> = {
+  a4: { width: 595.28, height: 841.89 },
+  letter: { width: 612, height: 792 },
+};
+
+// Advance widths for ASCII 32-126, in 1/1000 em (from the standard AFMs)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584,
+  584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333,
+  278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278,
+  556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556,
+  500, 389, 280, 389, 584,
+];
+
+// WinAnsi code points for common characters outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+};
+
+const toWinAnsi = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 63; // "?"
+};
+
+const charWidth = (code: number, bold: boolean): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  return code >= 32 && code <= 126 ? widths[code - 32] : 556;
+};
+
+// Literal string with everything outside printable ASCII octal-escaped
+const encodeText = (text: string): string =>
+  Array.from(text)
+    .map((char) => {
+      const code = toWinAnsi(char);
+      if (code === 40 || code === 41 || code === 92) return "\\" + char;
+      if (code > 126) return "\\" + code.toString(8).padStart(3, "0");
+      return String.fromCharCode(code);
+    })
+    .join("");
+
+const formatNumber = (value: number): string =>
+  Number(value.toFixed(2)).toString();
+
+const colorOperands = ([r, g, b]: RGB): string =>
+  [r, g, b].map(formatNumber).join(" ");
+
+export class PDFDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+  private current = 0;
+
+  constructor(size: PageSize = "a4") {
+    ({ width: this.width, height: this.height } = PAGE_SIZES[size]);
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  // Later drawing goes to page `index` (zero-based)
+  setPage(index: number): void {
+    this.current = Math.min(Math.max(index, 0), this.pages.length - 1);
+  }
+
+  private draw(operation: string): void {
+    this.pages[this.current].push(operation);
+  }
+
+  // Coordinates are from the top-left corner; PDF's origin is bottom-left
+  text(x: number, y: number, text: string, style: TextStyle = {}): void {
+    const { size = 10, bold = false, color = [0, 0, 0] } = style;
+    this.draw(
+      `BT /${bold ? "F2" : "F1"} ${formatNumber(size)} Tf ${colorOperands(
+        color
+      )} rg ${formatNumber(x)} ${formatNumber(
+        this.height - y - size
+      )} Td (${encodeText(text)}) Tj ET`
+    );
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    color: RGB = [0.8, 0.8, 0.8],
+    width: number = 0.5
+  ): void {
+    this.draw(
+      `${formatNumber(width)} w ${colorOperands(color)} RG ${formatNumber(
+        x1
+      )} ${formatNumber(this.height - y1)} m ${formatNumber(
+        x2
+      )} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: RGB): void {
+    this.draw(
+      `${colorOperands(fill)} rg ${formatNumber(x)} ${formatNumber(
+        this.height - y - height
+      )} ${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  textWidth(text: string, size: number = 10, bold: boolean = false): number {
+    return (
+      (Array.from(text).reduce(
+        (total, char) => total + charWidth(toWinAnsi(char), bold),
+        0
+      ) *
+        size) /
+      1000
+    );
+  }
+
+  // Greedy word wrap; words longer than a line are broken mid-word
+  wrapText(
+    text: string,
+    maxWidth: number,
+    size: number = 10,
+    bold: boolean = false
+  ): string[] {
+    const lines: string[] = [];
+
+    text.split(/\r?\n/).forEach((paragraph) => {
+      let current = "";
+      paragraph.split(/\s+/).forEach((word) => {
+        const candidate = current ? `${current} ${word}` : word;
+        if (this.textWidth(candidate, size, bold) <= maxWidth) {
+          current = candidate;
+          return;
+        }
+        if (current) lines.push(current);
+
+        current = "";
+        for (const char of Array.from(word)) {
+          if (this.textWidth(current + char, size, bold) > maxWidth) {
+            lines.push(current);
+            current = "";
+          }
+          current += char;
+        }
+      });
+      lines.push(current);
+    });
+
+    return lines;
+  }
+
+  // Shortens `text` with an ellipsis so it fits in `maxWidth`
+  fitText(
+    text: string,
+    maxWidth: number,
+    size: number = 10,
+    bold: boolean = false
+  ): string {
+    if (this.textWidth(text, size, bold) <= maxWidth) return text;
+
+    let fitted = text;
+    while (
+      fitted.length > 0 &&
+      this.textWidth(fitted + "…", size, bold) > maxWidth
+    ) {
+      fitted = fitted.slice(0, -1);
+    }
+    return fitted + "…";
+  }
+
+  toBlob(): Blob {
+    const objects: string[] = [];
+    const pageCount = this.pages.length;
+    // 1 catalog, 2 page tree, 3-4 fonts, then a page + content pair per page
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objects.push(
+      `<< /Type /Pages /Kids [${pageIds
+        .map((id) => `${id} 0 R`)
+        .join(" ")}] /Count ${pageCount} >>`
+    );
+    objects.push(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"
+    );
+    objects.push(
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"
+    );
+
+    this.pages.forEach((operations, index) => {
+      const content = operations.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(
+          this.width
+        )} ${formatNumber(this.height)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+          pageIds[index] + 1
+        } 0 R >>`
+      );
+      objects.push(
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    // Everything is ASCII, so string offsets are byte offsets
+    let output = "%PDF-1.4\n";
+    const offsets = objects.map((object, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets
+      .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+      .join("");
+    output += `trailer\n<< /Size ${
+      objects.length + 1
+    } /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+    return new Blob([output], { type: "application/pdf" });
+  }
+}
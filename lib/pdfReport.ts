@@ -0,0 +1,369 @@
+import { JobApplication, StageColor } from "@/types/job";
+import { PDFDocument, PageSize, RGB } from "@/lib/pdfDocument";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import { exportFieldText, resolveExportFields } from "@/lib/exportFields";
+import {
+  INTERVIEW_OUTCOME_LABELS,
+  interviewStart,
+  sortInterviews,
+  upcomingInterviews,
+} from "@/lib/interviews";
+
+export interface PDFReportOptions {
+  pageSize?: PageSize;
+  includeSummary?: boolean;
+  includeTable?: boolean;
+  includeDetails?: boolean;
+  title?: string;
+  fields?: string[]; // table columns and detail rows; the default layout if unset
+}
+
+const MARGIN = 40;
+const MUTED: RGB = [0.42, 0.45, 0.5];
+const HEADER_FILL: RGB = [0.94, 0.95, 0.96];
+
+const STAGE_COLORS: Record<StageColor, RGB> = {
+  blue: [0.23, 0.51, 0.96],
+  sky: [0.05, 0.65, 0.91],
+  teal: [0.08, 0.72, 0.65],
+  green: [0.13, 0.77, 0.37],
+  yellow: [0.92, 0.7, 0.03],
+  orange: [0.98, 0.45, 0.09],
+  red: [0.94, 0.27, 0.27],
+  pink: [0.93, 0.28, 0.6],
+  purple: [0.55, 0.36, 0.96],
+  gray: [0.42, 0.45, 0.5],
+};
+
+const capitalize = (value: string): string =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatDate = (value?: string): string =>
+  value ? new Date(value).toLocaleDateString() : "";
+
+const formatSalary = (job: JobApplication): string => {
+  const { min, max, currency } = job.salaryRange || {};
+  if (!min && !max) return "";
+  return (
+    [min, max].filter(Boolean).join(" - ") + (currency ? ` ${currency}` : "")
+  );
+};
+
+// Tracks the write position and starts new pages as content overflows
+class ReportWriter {
+  y = MARGIN;
+
+  constructor(readonly pdf: PDFDocument) {}
+
+  get contentWidth(): number {
+    return this.pdf.width - MARGIN * 2;
+  }
+
+  newPage(): void {
+    this.pdf.addPage();
+    this.y = MARGIN;
+  }
+
+  // Returns true when a page break was needed
+  ensureSpace(height: number): boolean {
+    if (this.y + height <= this.pdf.height - MARGIN) return false;
+    this.newPage();
+    return true;
+  }
+
+  heading(text: string, size: number = 16): void {
+    this.ensureSpace(size + 10);
+    this.pdf.text(MARGIN, this.y, text, { size, bold: true });
+    this.y += size + 10;
+  }
+
+  paragraph(text: string, size: number = 10, color?: RGB): void {
+    this.pdf.wrapText(text, this.contentWidth, size).forEach((line) => {
+      this.ensureSpace(size + 4);
+      this.pdf.text(MARGIN, this.y, line, { size, color });
+      this.y += size + 4;
+    });
+  }
+
+  field(label: string, value: string): void {
+    if (!value) return;
+
+    const labelWidth = 110;
+    const lines = this.pdf.wrapText(value, this.contentWidth - labelWidth, 10);
+    this.ensureSpace(14);
+    this.pdf.text(MARGIN, this.y, label, { size: 9, color: MUTED });
+    lines.forEach((line) => {
+      this.ensureSpace(14);
+      this.pdf.text(MARGIN + labelWidth, this.y, line, { size: 10 });
+      this.y += 14;
+    });
+  }
+
+  gap(height: number = 8): void {
+    this.y += height;
+  }
+}
+
+function writeSummary(writer: ReportWriter, jobs: JobApplication[]): void {
+  const { pdf } = writer;
+  const active = jobs.filter((job) => !job.archived);
+  const upcoming = jobs.flatMap((job) => upcomingInterviews(job));
+
+  writer.heading("Summary", 14);
+  writer.field("Total applications", String(jobs.length));
+  writer.field("Active", String(active.length));
+  writer.field("Archived", String(jobs.length - active.length));
+  writer.field("Upcoming interviews", String(upcoming.length));
+  writer.field(
+    "High priority",
+    String(jobs.filter((job) => job.priority === "high").length)
+  );
+  writer.gap(12);
+
+  // Horizontal bar per status, scaled to the largest count
+  writer.heading("Applications by status", 12);
+  const stages = pipelineStageService.getStages();
+  const counts = stages.map(
+    (stage) => jobs.filter((job) => job.status === stage.id).length
+  );
+  const maxCount = Math.max(1, ...counts);
+  const barArea = writer.contentWidth - 150;
+
+  stages.forEach((stage, index) => {
+    writer.ensureSpace(20);
+    const count = counts[index];
+    pdf.text(MARGIN, writer.y + 2, stage.name, { size: 10 });
+    pdf.rect(
+      MARGIN + 90,
+      writer.y,
+      Math.max(2, (count / maxCount) * barArea),
+      14,
+      STAGE_COLORS[stage.color]
+    );
+    pdf.text(
+      MARGIN + 96 + (count / maxCount) * barArea,
+      writer.y + 2,
+      String(count),
+      { size: 10, bold: true }
+    );
+    writer.y += 20;
+  });
+
+  const initialStage = pipelineStageService.getInitialStage();
+  const responded = jobs.filter((job) => job.status !== initialStage.id).length;
+  writer.gap(8);
+  writer.paragraph(
+    jobs.length > 0
+      ? `Response rate: ${Math.round((responded / jobs.length) * 100)}% of applications moved past "${initialStage.name}".`
+      : "No applications yet.",
+    10,
+    MUTED
+  );
+}
+
+interface TableColumn {
+  header: string;
+  width: number; // share of the content width
+  value: (job: JobApplication) => string;
+}
+
+const TABLE_COLUMNS: TableColumn[] = [
+  { header: "Company", width: 0.2, value: (job) => job.company },
+  { header: "Role", width: 0.24, value: (job) => job.role },
+  {
+    header: "Status",
+    width: 0.12,
+    value: (job) => pipelineStageService.getLabel(job.status),
+  },
+  {
+    header: "Applied",
+    width: 0.12,
+    value: (job) => formatDate(job.appliedDate),
+  },
+  { header: "Location", width: 0.2, value: (job) => job.workLocation },
+  {
+    header: "Priority",
+    width: 0.12,
+    value: (job) => capitalize(job.priority || ""),
+  },
+];
+
+// Columns for selected export fields, sized by their relative widths
+function fieldColumns(fieldIds: string[]): TableColumn[] {
+  const fields = resolveExportFields(fieldIds);
+  const total = fields.reduce((sum, field) => sum + (field.width || 1), 0);
+  return fields.map((field) => ({
+    header: field.label,
+    width: (field.width || 1) / total,
+    value: (job) => exportFieldText(field, job),
+  }));
+}
+
+function writeTable(
+  writer: ReportWriter,
+  jobs: JobApplication[],
+  columns: TableColumn[]
+): void {
+  const { pdf } = writer;
+  const rowHeight = 18;
+
+  const writeHeader = () => {
+    pdf.rect(MARGIN, writer.y, writer.contentWidth, rowHeight, HEADER_FILL);
+    let x = MARGIN + 4;
+    columns.forEach((column) => {
+      const width = column.width * writer.contentWidth - 8;
+      pdf.text(x, writer.y + 5, pdf.fitText(column.header, width, 9, true), {
+        size: 9,
+        bold: true,
+      });
+      x += column.width * writer.contentWidth;
+    });
+    writer.y += rowHeight;
+  };
+
+  writer.heading("Applications", 14);
+  writeHeader();
+
+  jobs.forEach((job) => {
+    // Repeat the header on every page the table spans
+    if (writer.ensureSpace(rowHeight)) writeHeader();
+
+    let x = MARGIN + 4;
+    columns.forEach((column) => {
+      const width = column.width * writer.contentWidth - 8;
+      pdf.text(x, writer.y + 5, pdf.fitText(column.value(job), width, 9), {
+        size: 9,
+      });
+      x += column.width * writer.contentWidth;
+    });
+    writer.y += rowHeight;
+    pdf.line(MARGIN, writer.y, MARGIN + writer.contentWidth, writer.y);
+  });
+}
+
+function writeFieldDetails(
+  writer: ReportWriter,
+  job: JobApplication,
+  fieldIds: string[]
+): void {
+  writer.heading(`${job.role} at ${job.company}`, 13);
+  resolveExportFields(fieldIds).forEach((field) =>
+    writer.field(field.label, exportFieldText(field, job))
+  );
+}
+
+function writeDetails(writer: ReportWriter, job: JobApplication): void {
+  writer.heading(`${job.role} at ${job.company}`, 13);
+  writer.field("Status", pipelineStageService.getLabel(job.status));
+  writer.field("Applied", formatDate(job.appliedDate));
+  writer.field("Location", job.workLocation);
+  writer.field("Job type", job.jobType);
+  writer.field("Work mode", job.workMode);
+  writer.field("Salary", formatSalary(job));
+  writer.field("Priority", capitalize(job.priority || ""));
+  writer.field(
+    "Interviews",
+    sortInterviews(job.interviews || [])
+      .map(
+        (interview) =>
+          `${interview.round} ${
+            interviewStart(interview)?.toLocaleDateString() || ""
+          } (${INTERVIEW_OUTCOME_LABELS[interview.outcome]})`
+      )
+      .join("; ")
+  );
+  writer.field("Follow-up", formatDate(job.followUpDate));
+  writer.field("Posting", job.jobPostingUrl || "");
+
+  if (job.statusHistory && job.statusHistory.length > 0) {
+    writer.gap();
+    writer.heading("Status history", 11);
+    job.statusHistory.forEach((entry) => {
+      writer.field(
+        formatDate(entry.date),
+        [pipelineStageService.getLabel(entry.status), entry.notes]
+          .filter(Boolean)
+          .join(" - ")
+      );
+    });
+  }
+
+  if (job.contacts && job.contacts.length > 0) {
+    writer.gap();
+    writer.heading("Contacts", 11);
+    job.contacts.forEach((contact) => {
+      writer.field(
+        contact.name,
+        [contact.title, contact.email, contact.phone]
+          .filter(Boolean)
+          .join(" · ")
+      );
+    });
+  }
+
+  if (job.notes) {
+    writer.gap();
+    writer.heading("Notes", 11);
+    writer.paragraph(job.notes);
+  }
+}
+
+export function buildPDFReport(
+  jobs: JobApplication[],
+  options: PDFReportOptions = {}
+): Blob {
+  const {
+    pageSize = "a4",
+    includeSummary = true,
+    includeTable = true,
+    includeDetails = false,
+    title = "Job Applications Report",
+    fields,
+  } = options;
+
+  const pdf = new PDFDocument(pageSize);
+  const writer = new ReportWriter(pdf);
+
+  pdf.text(MARGIN, writer.y, title, { size: 20, bold: true });
+  writer.y += 28;
+  pdf.text(
+    MARGIN,
+    writer.y,
+    `Generated ${new Date().toLocaleString()} · ${jobs.length} applications`,
+    { size: 10, color: MUTED }
+  );
+  writer.y += 24;
+
+  if (includeSummary) writeSummary(writer, jobs);
+
+  if (includeTable) {
+    if (includeSummary) writer.newPage();
+    writeTable(writer, jobs, fields ? fieldColumns(fields) : TABLE_COLUMNS);
+  }
+
+  if (includeDetails) {
+    jobs.forEach((job, index) => {
+      if (index > 0 || includeSummary || includeTable) writer.newPage();
+      if (fields) {
+        writeFieldDetails(writer, job, fields);
+      } else {
+        writeDetails(writer, job);
+      }
+    });
+  }
+
+  // Page numbers go on last, once the page count is known
+  const total = pdf.pageCount;
+  for (let page = 0; page < total; page++) {
+    pdf.setPage(page);
+    const label = `Page ${page + 1} of ${total}`;
+    pdf.text(
+      pdf.width - MARGIN - pdf.textWidth(label, 8),
+      pdf.height - MARGIN / 2 - 8,
+      label,
+      { size: 8, color: MUTED }
+    );
+  }
+
+  return pdf.toBlob();
+}
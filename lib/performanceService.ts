@@ -1,4 +1,5 @@
 import { JobApplication } from "@/types/job";
+import { pipelineStageService } from "@/lib/pipelineStageService";
 
 export interface PerformanceMetrics {
   renderTime: number;
@@ -160,6 +161,7 @@ class PerformanceService {
         job.category,
         job.notes,
         job.status,
+        pipelineStageService.getLabel(job.status),
         job.experienceLevel,
         job.jobType,
         job.workMode,
@@ -0,0 +1,349 @@
+import { PipelineStage, StageCategory, StageColor } from "@/types/job";
+import { storage } from "@/lib/storageAdapter";
+import { SyncedStore } from "@/lib/syncService";
+
+export const STAGE_COLORS: StageColor[] = [
+  "blue",
+  "sky",
+  "teal",
+  "green",
+  "yellow",
+  "orange",
+  "red",
+  "pink",
+  "purple",
+  "gray",
+];
+
+// Spelled out in full so Tailwind keeps every class in the build
+export const STAGE_BADGE_CLASSES: Record<StageColor, string> = {
+  blue: "bg-blue-100 text-blue-800 hover:bg-blue-200",
+  sky: "bg-sky-100 text-sky-800 hover:bg-sky-200",
+  teal: "bg-teal-100 text-teal-800 hover:bg-teal-200",
+  green: "bg-green-100 text-green-800 hover:bg-green-200",
+  yellow: "bg-yellow-100 text-yellow-800 hover:bg-yellow-200",
+  orange: "bg-orange-100 text-orange-800 hover:bg-orange-200",
+  red: "bg-red-100 text-red-800 hover:bg-red-200",
+  pink: "bg-pink-100 text-pink-800 hover:bg-pink-200",
+  purple: "bg-purple-100 text-purple-800 hover:bg-purple-200",
+  gray: "bg-gray-100 text-gray-800 hover:bg-gray-200",
+};
+
+export const STAGE_DOT_CLASSES: Record<StageColor, string> = {
+  blue: "bg-blue-500",
+  sky: "bg-sky-500",
+  teal: "bg-teal-500",
+  green: "bg-green-500",
+  yellow: "bg-yellow-500",
+  orange: "bg-orange-500",
+  red: "bg-red-500",
+  pink: "bg-pink-500",
+  purple: "bg-purple-500",
+  gray: "bg-gray-500",
+};
+
+export const STAGE_CATEGORY_LABELS: Record<StageCategory, string> = {
+  active: "Active",
+  "closed-won": "Closed – won",
+  "closed-lost": "Closed – lost",
+};
+
+// The five original statuses keep their ids, so stored applications still
+// point at a stage without being rewritten. Only closed stages limit where
+// an application may go next.
+export const DEFAULT_STAGES: PipelineStage[] = (
+  [
+    { id: "applied", name: "Applied", color: "blue", category: "active" },
+    {
+      id: "shortlisted",
+      name: "Shortlisted",
+      color: "yellow",
+      category: "active",
+    },
+    {
+      id: "phone-screen",
+      name: "Phone screen",
+      color: "sky",
+      category: "active",
+      requires: ["interviewDate"],
+    },
+    { id: "take-home", name: "Take-home", color: "orange", category: "active" },
+    {
+      id: "interview",
+      name: "Interview",
+      color: "purple",
+      category: "active",
+      requires: ["interviewDate"],
+    },
+    {
+      id: "onsite",
+      name: "Onsite",
+      color: "pink",
+      category: "active",
+      requires: ["interviewDate"],
+    },
+    {
+      id: "offered",
+      name: "Offered",
+      color: "teal",
+      category: "closed-won",
+      next: ["accepted", "rejected", "withdrawn"],
+    },
+    {
+      id: "accepted",
+      name: "Accepted",
+      color: "green",
+      category: "closed-won",
+      next: ["withdrawn"],
+    },
+    {
+      id: "rejected",
+      name: "Rejected",
+      color: "red",
+      category: "closed-lost",
+      next: [],
+      requires: ["reason"],
+    },
+    {
+      id: "withdrawn",
+      name: "Withdrawn",
+      color: "gray",
+      category: "closed-lost",
+      next: [],
+      requires: ["reason"],
+    },
+    { id: "ghosted", name: "Ghosted", color: "gray", category: "closed-lost" },
+  ] as Omit<PipelineStage, "order">[]
+).map((stage, order) => ({ ...stage, order }));
+
+const JOBS_KEY = "job-applications";
+
+// "Phone Screen" and "phone_screen" both become "phone-screen"
+export const toStageId = (value: string): string =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Stored records merge by id across tabs, so the order lives in a field
+const sortStages = (stages: PipelineStage[]): PipelineStage[] =>
+  [...stages].sort((a, b) => a.order - b.order);
+
+const humanize = (id: string): string => {
+  const words = id.replace(/-/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+class PipelineStageService {
+  private readonly STORAGE_KEY = "applitrack-pipeline-stages";
+  private stages: PipelineStage[] = DEFAULT_STAGES.map((stage) => ({
+    ...stage,
+  }));
+  private stageStore: SyncedStore<PipelineStage[]>;
+  private listeners: Set<() => void> = new Set();
+  readonly ready: Promise<void>;
+
+  constructor() {
+    this.stageStore = new SyncedStore({
+      key: this.STORAGE_KEY,
+      load: () => this.loadStages(),
+      get: () => this.stages,
+      set: (stages) => (this.stages = sortStages(stages)),
+    });
+    this.stageStore.onRemoteChange(() => this.notifyChange());
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    if (typeof window === "undefined") return;
+
+    const stored = await storage.getItem<PipelineStage[]>(this.STORAGE_KEY);
+    await this.stageStore.load();
+    if (stored && stored.length > 0) return;
+
+    // First run: statuses already in use that the defaults don't cover
+    // still need a stage of their own
+    const jobs =
+      (await storage.getItem<{ status?: unknown }[]>(JOBS_KEY)) || [];
+    this.addMissing(
+      jobs.map((job) => (typeof job.status === "string" ? job.status : ""))
+    );
+    this.saveStages();
+  }
+
+  private async loadStages(): Promise<PipelineStage[]> {
+    const defaults = DEFAULT_STAGES.map((stage) => ({ ...stage }));
+    if (typeof window === "undefined") return defaults;
+
+    try {
+      const stored = await storage.getItem<PipelineStage[]>(this.STORAGE_KEY);
+      return stored && stored.length > 0 ? stored : defaults;
+    } catch {
+      return defaults;
+    }
+  }
+
+  private saveStages(): void {
+    this.stages.forEach((stage, order) => (stage.order = order));
+    this.stageStore.save();
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Fires whenever the stages change, in this tab or another one
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStages(): PipelineStage[] {
+    return this.stages.map((stage) => ({ ...stage }));
+  }
+
+  getStage(id: string): PipelineStage | undefined {
+    return this.stages.find((stage) => stage.id === id);
+  }
+
+  getLabel(id: string): string {
+    return this.getStage(id)?.name || humanize(id);
+  }
+
+  getColor(id: string): StageColor {
+    return this.getStage(id)?.color || "gray";
+  }
+
+  // Unknown ids count as active so nothing silently drops out of the pipeline
+  getCategory(id: string): StageCategory {
+    return this.getStage(id)?.category || "active";
+  }
+
+  isClosed(id: string): boolean {
+    return this.getCategory(id) !== "active";
+  }
+
+  // Where new applications start
+  getInitialStage(): PipelineStage {
+    return (
+      this.stages.find((stage) => stage.category === "active") || this.stages[0]
+    );
+  }
+
+  // Matches free text such as "Phone Screen" by stage id or name
+  findStage(text: string): PipelineStage | undefined {
+    const id = toStageId(text);
+    if (!id) return undefined;
+    return this.stages.find(
+      (stage) => stage.id === id || toStageId(stage.name) === id
+    );
+  }
+
+  private uniqueId(name: string): string {
+    const base = toStageId(name) || "stage";
+    let id = base;
+    for (let suffix = 2; this.getStage(id); suffix++) {
+      id = `${base}-${suffix}`;
+    }
+    return id;
+  }
+
+  private addMissing(ids: string[]): boolean {
+    const missing = Array.from(new Set(ids)).filter(
+      (id) => id && !this.getStage(id)
+    );
+    missing.forEach((id) =>
+      this.stages.push({
+        id,
+        name: humanize(id),
+        color: "gray",
+        category: "active",
+        order: this.stages.length,
+      })
+    );
+    return missing.length > 0;
+  }
+
+  // Gives statuses that came in from imports or other tabs a stage
+  registerMissing(ids: string[]): void {
+    if (this.addMissing(ids)) this.saveStages();
+  }
+
+  addStage(
+    name: string,
+    color: StageColor,
+    category: StageCategory
+  ): PipelineStage {
+    const stage: PipelineStage = {
+      id: this.uniqueId(name),
+      name: name.trim(),
+      color,
+      category,
+      order: this.stages.length,
+    };
+
+    // New stages go after the last one in their category
+    const lastInCategory = this.stages
+      .map((existing) => existing.category)
+      .lastIndexOf(category);
+    this.stages.splice(
+      lastInCategory === -1 ? this.stages.length : lastInCategory + 1,
+      0,
+      stage
+    );
+    this.saveStages();
+    return stage;
+  }
+
+  // The id is kept on rename; applications refer to it
+  updateStage(
+    id: string,
+    updates: Partial<Omit<PipelineStage, "id" | "order">>
+  ): PipelineStage | null {
+    const index = this.stages.findIndex((stage) => stage.id === id);
+    if (index === -1) return null;
+
+    this.stages[index] = { ...this.stages[index], ...updates, id };
+    this.saveStages();
+    return this.stages[index];
+  }
+
+  moveStage(id: string, offset: -1 | 1): void {
+    const index = this.stages.findIndex((stage) => stage.id === id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= this.stages.length) return;
+
+    const [stage] = this.stages.splice(index, 1);
+    this.stages.splice(target, 0, stage);
+    this.saveStages();
+  }
+
+  canDelete(id: string): boolean {
+    const remaining = this.stages.filter((stage) => stage.id !== id);
+    return (
+      remaining.length < this.stages.length &&
+      remaining.some((stage) => stage.category === "active")
+    );
+  }
+
+  // Applications in the stage must be moved elsewhere first
+  deleteStage(id: string): boolean {
+    if (!this.canDelete(id)) return false;
+
+    this.stages = this.stages
+      .filter((stage) => stage.id !== id)
+      .map((stage) =>
+        stage.next?.includes(id)
+          ? { ...stage, next: stage.next.filter((next) => next !== id) }
+          : stage
+      );
+    this.saveStages();
+    return true;
+  }
+}
+
+export const pipelineStageService = new PipelineStageService();
@@ -0,0 +1,444 @@
+import { addDays, format } from "date-fns";
+import { JobApplication } from "@/types/job";
+import {
+  STAGE_CATEGORY_LABELS,
+  pipelineStageService,
+} from "@/lib/pipelineStageService";
+import { currentStatusSince, daysSince } from "@/lib/exportFields";
+import {
+  hasInterviews,
+  interviewStart,
+  nextInterview,
+  sortInterviews,
+} from "@/lib/interviews";
+import { salaryOf } from "@/lib/tableColumns";
+
+export type RuleFieldKind = "number" | "text" | "enum" | "boolean";
+
+export type RuleOperator =
+  | "eq"
+  | "neq"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "contains"
+  | "not_contains"
+  | "is_set"
+  | "is_not_set"
+  | "is_true"
+  | "is_false";
+
+export interface RuleConditionLeaf {
+  type: "condition";
+  id: string;
+  field: string; // a RULE_FIELDS id
+  operator: RuleOperator;
+  value?: string; // numbers are kept as typed
+}
+
+export interface RuleConditionGroup {
+  type: "group";
+  id: string;
+  combinator: "and" | "or";
+  conditions: RuleCondition[];
+}
+
+export type RuleCondition = RuleConditionLeaf | RuleConditionGroup;
+
+export type RuleAction =
+  | { type: "change_status"; status: string }
+  | { type: "set_priority"; priority: "low" | "medium" | "high" }
+  | { type: "set_follow_up"; days: number } // from the day the rule runs
+  | { type: "archive" }
+  | { type: "add_note"; text: string }
+  | { type: "notify"; title: string; message: string };
+
+export type RuleActionType = RuleAction["type"];
+
+export interface RuleField {
+  id: string;
+  label: string;
+  kind: RuleFieldKind;
+  options?: () => { value: string; label: string }[]; // for enums
+  get: (
+    job: JobApplication,
+    now: Date
+  ) => string | number | boolean | undefined;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: Date, to: Date) =>
+  Math.floor((to.getTime() - from.getTime()) / DAY);
+
+const labelled = (labels: Record<string, string>) => () =>
+  Object.entries(labels).map(([value, label]) => ({ value, label }));
+
+export const RULE_FIELDS: RuleField[] = [
+  {
+    id: "status",
+    label: "Status",
+    kind: "enum",
+    options: () =>
+      pipelineStageService
+        .getStages()
+        .map((stage) => ({ value: stage.id, label: stage.name })),
+    get: (job) => job.status,
+  },
+  {
+    id: "stageCategory",
+    label: "Stage category",
+    kind: "enum",
+    options: labelled(STAGE_CATEGORY_LABELS),
+    get: (job) => pipelineStageService.getCategory(job.status),
+  },
+  {
+    id: "daysInStatus",
+    label: "Days in status",
+    kind: "number",
+    get: (job, now) => daysSince(currentStatusSince(job), now),
+  },
+  {
+    id: "daysSinceApplied",
+    label: "Days since applied",
+    kind: "number",
+    get: (job, now) => daysSince(job.appliedDate, now),
+  },
+  {
+    id: "daysSinceInterview",
+    label: "Days since last interview",
+    kind: "number",
+    get: (job, now) => {
+      const last = sortInterviews(job.interviews || [])
+        .filter((interview) => interview.outcome !== "cancelled")
+        .map(interviewStart)
+        .filter((start): start is Date => !!start && start <= now)
+        .pop();
+      return last && daysBetween(last, now);
+    },
+  },
+  {
+    id: "daysUntilInterview",
+    label: "Days until next interview",
+    kind: "number",
+    get: (job, now) => {
+      const interview = nextInterview(job);
+      const start = interview && interviewStart(interview);
+      return start && daysBetween(now, start);
+    },
+  },
+  {
+    id: "priority",
+    label: "Priority",
+    kind: "enum",
+    options: labelled({ high: "High", medium: "Medium", low: "Low" }),
+    get: (job) => job.priority || "medium",
+  },
+  {
+    id: "category",
+    label: "Category",
+    kind: "text",
+    get: (job) => job.category || "",
+  },
+  { id: "company", label: "Company", kind: "text", get: (job) => job.company },
+  { id: "role", label: "Role", kind: "text", get: (job) => job.role },
+  {
+    id: "workMode",
+    label: "Work mode",
+    kind: "enum",
+    options: labelled({
+      remote: "Remote",
+      "on-site": "On-site",
+      hybrid: "Hybrid",
+    }),
+    get: (job) => job.workMode,
+  },
+  {
+    id: "jobType",
+    label: "Job type",
+    kind: "enum",
+    options: labelled({
+      "full-time": "Full-time",
+      "part-time": "Part-time",
+      contract: "Contract",
+      freelance: "Freelance",
+      internship: "Internship",
+    }),
+    get: (job) => job.jobType,
+  },
+  {
+    id: "salaryMin",
+    label: "Salary (min)",
+    kind: "number",
+    get: (job) => salaryOf(job.salaryRange?.min),
+  },
+  {
+    id: "salaryMax",
+    label: "Salary (max)",
+    kind: "number",
+    get: (job) => salaryOf(job.salaryRange?.max),
+  },
+  {
+    id: "hasContact",
+    label: "Has a contact",
+    kind: "boolean",
+    get: (job) => (job.contacts?.length || 0) > 0,
+  },
+  {
+    id: "hasInterview",
+    label: "Has an interview",
+    kind: "boolean",
+    get: (job) => hasInterviews(job),
+  },
+  {
+    id: "hasFollowUp",
+    label: "Has a follow-up date",
+    kind: "boolean",
+    get: (job) => !!job.followUpDate,
+  },
+  {
+    id: "hasOffer",
+    label: "Has an offer",
+    kind: "boolean",
+    get: (job) => !!job.offer,
+  },
+];
+
+export const OPERATOR_LABELS: Record<RuleOperator, string> = {
+  eq: "is",
+  neq: "is not",
+  gt: "is more than",
+  gte: "is at least",
+  lt: "is less than",
+  lte: "is at most",
+  contains: "contains",
+  not_contains: "does not contain",
+  is_set: "is set",
+  is_not_set: "is not set",
+  is_true: "is true",
+  is_false: "is false",
+};
+
+export const OPERATORS_BY_KIND: Record<RuleFieldKind, RuleOperator[]> = {
+  number: ["gte", "lte", "gt", "lt", "eq", "neq", "is_set", "is_not_set"],
+  text: ["eq", "neq", "contains", "not_contains", "is_set", "is_not_set"],
+  enum: ["eq", "neq"],
+  boolean: ["is_true", "is_false"],
+};
+
+// Operators that compare against nothing
+export const UNARY_OPERATORS: RuleOperator[] = [
+  "is_set",
+  "is_not_set",
+  "is_true",
+  "is_false",
+];
+
+export const ACTION_LABELS: Record<RuleActionType, string> = {
+  change_status: "Change status",
+  set_priority: "Set priority",
+  set_follow_up: "Set follow-up date",
+  archive: "Archive",
+  add_note: "Add a note",
+  notify: "Send a notification",
+};
+
+export const getRuleField = (id: string): RuleField | undefined =>
+  RULE_FIELDS.find((field) => field.id === id);
+
+const compare = (
+  actual: string | number | boolean | undefined,
+  operator: RuleOperator,
+  expected = ""
+): boolean => {
+  switch (operator) {
+    case "is_set":
+      return actual !== undefined && actual !== "";
+    case "is_not_set":
+      return actual === undefined || actual === "";
+    case "is_true":
+      return actual === true;
+    case "is_false":
+      return actual === false;
+  }
+
+  if (actual === undefined) return false;
+  if (typeof actual === "number") {
+    const value = parseFloat(expected);
+    if (isNaN(value)) return false;
+    switch (operator) {
+      case "eq":
+        return actual === value;
+      case "neq":
+        return actual !== value;
+      case "gt":
+        return actual > value;
+      case "gte":
+        return actual >= value;
+      case "lt":
+        return actual < value;
+      case "lte":
+        return actual <= value;
+      default:
+        return false;
+    }
+  }
+
+  // Text matches ignore case
+  const text = String(actual).toLowerCase();
+  const value = expected.trim().toLowerCase();
+  switch (operator) {
+    case "eq":
+      return text === value;
+    case "neq":
+      return text !== value;
+    case "contains":
+      return text.includes(value);
+    case "not_contains":
+      return !text.includes(value);
+    default:
+      return false;
+  }
+};
+
+// Empty "and" groups match everything and empty "or" groups nothing, as
+// with every() and some()
+export function evaluateCondition(
+  condition: RuleCondition,
+  job: JobApplication,
+  now: Date = new Date()
+): boolean {
+  if (condition.type === "group") {
+    const results = condition.conditions.map((child) =>
+      evaluateCondition(child, job, now)
+    );
+    return condition.combinator === "and"
+      ? results.every(Boolean)
+      : results.some(Boolean);
+  }
+
+  const field = getRuleField(condition.field);
+  if (!field) return false;
+  return compare(field.get(job, now), condition.operator, condition.value);
+}
+
+export const countConditions = (condition: RuleCondition): number =>
+  condition.type === "group"
+    ? condition.conditions.reduce(
+        (sum, child) => sum + countConditions(child),
+        0
+      )
+    : 1;
+
+export const createCondition = (): RuleConditionLeaf => ({
+  type: "condition",
+  id: crypto.randomUUID(),
+  field: "daysInStatus",
+  operator: "gte",
+  value: "7",
+});
+
+export const createGroup = (
+  combinator: RuleConditionGroup["combinator"] = "and",
+  conditions: RuleCondition[] = []
+): RuleConditionGroup => ({
+  type: "group",
+  id: crypto.randomUUID(),
+  combinator,
+  conditions,
+});
+
+export const createAction = (type: RuleActionType): RuleAction => {
+  switch (type) {
+    case "change_status":
+      return { type, status: pipelineStageService.getInitialStage().id };
+    case "set_priority":
+      return { type, priority: "high" };
+    case "set_follow_up":
+      return { type, days: 3 };
+    case "archive":
+      return { type };
+    case "add_note":
+      return { type, text: "" };
+    case "notify":
+      return { type, title: "", message: "" };
+  }
+};
+
+// {company}, {role} and {status} in notes and notifications
+export const fillTemplate = (text: string, job: JobApplication): string =>
+  text
+    .replace(/\{company\}/g, job.company)
+    .replace(/\{role\}/g, job.role)
+    .replace(/\{status\}/g, pipelineStageService.getLabel(job.status));
+
+export interface PlannedActions {
+  updates: Partial<JobApplication>;
+  notifications: { title: string; message: string }[];
+}
+
+// What running `actions` on `job` changes; later actions win
+export function planActions(
+  job: JobApplication,
+  actions: RuleAction[],
+  now: Date = new Date()
+): PlannedActions {
+  const updates: Partial<JobApplication> = {};
+  const notifications: PlannedActions["notifications"] = [];
+
+  actions.forEach((action) => {
+    switch (action.type) {
+      case "change_status":
+        if (action.status !== job.status) updates.status = action.status;
+        break;
+      case "set_priority":
+        updates.priority = action.priority;
+        break;
+      case "set_follow_up":
+        updates.followUpDate = format(addDays(now, action.days), "yyyy-MM-dd");
+        break;
+      case "archive":
+        updates.archived = true;
+        break;
+      case "add_note": {
+        const text = fillTemplate(action.text, job).trim();
+        if (!text) break;
+        const notes = updates.notes ?? job.notes ?? "";
+        updates.notes = `${notes}${notes ? "\n" : ""}[${format(
+          now,
+          "yyyy-MM-dd"
+        )}] ${text}`;
+        break;
+      }
+      case "notify":
+        notifications.push({
+          title: fillTemplate(action.title, job) || "Rule matched",
+          message: fillTemplate(action.message, job),
+        });
+        break;
+    }
+  });
+
+  return { updates, notifications };
+}
+
+// One line per action, for rule summaries
+export function describeAction(action: RuleAction): string {
+  switch (action.type) {
+    case "change_status":
+      return `Move to ${pipelineStageService.getLabel(action.status)}`;
+    case "set_priority":
+      return `Set priority to ${action.priority}`;
+    case "set_follow_up":
+      return action.days === 0
+        ? "Follow up today"
+        : `Follow up in ${action.days} day${action.days === 1 ? "" : "s"}`;
+    case "archive":
+      return "Archive";
+    case "add_note":
+      return `Add note "${action.text}"`;
+    case "notify":
+      return `Notify "${action.title}"`;
+  }
+}
@@ -0,0 +1,193 @@
+import { JobApplication } from "@/types/job";
+import { toStageId } from "@/lib/pipelineStageService";
+
+// Raw records as persisted, before any migration has shaped them
+type StoredJob = Record<string, unknown>;
+
+export interface SchemaMigration {
+  version: number; // the version this migration produces
+  description: string;
+  migrate: (jobs: StoredJob[]) => StoredJob[];
+}
+
+// Data written before versioning existed has no stamp
+const UNVERSIONED = 1;
+
+const asString = (value: unknown): string =>
+  typeof value === "string" ? value : "";
+
+const LOST_STAGES = ["rejected", "withdrawn", "ghosted"];
+
+const initialStatusHistory = (job: StoredJob) => [
+  {
+    id: crypto.randomUUID(),
+    status: job.status,
+    date: asString(job.appliedDate) + "T00:00:00.000Z",
+    notes: "Migrated from old format",
+  },
+];
+
+/**
+ * Ordered registry; append a new entry for every change to the stored shape.
+ * Unversioned imports replay the whole chain, so each step must leave records
+ * that are already in its target shape untouched.
+ */
+export const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 2,
+    description: "Structured salary range and work details",
+    migrate: (jobs) =>
+      jobs.map((job) => {
+        if (
+          job.salaryRange &&
+          job.workLocation &&
+          job.jobType &&
+          job.workMode
+        ) {
+          return job;
+        }
+
+        const [min, max] = asString(job.expectedSalary).split("-");
+        return {
+          ...job,
+          salaryRange: {
+            min: min?.trim() || "",
+            max: max?.trim() || "",
+            currency: "USD",
+          },
+          workLocation: job.workLocation || "Not specified",
+          jobType: job.jobType || "full-time",
+          workMode: job.workMode || "on-site",
+          category: job.category || "",
+          experienceLevel: job.experienceLevel || "mid",
+          jobPostingUrl: job.jobPostingUrl || "",
+        };
+      }),
+  },
+  {
+    version: 3,
+    description: "Status history, contacts, documents, priority and archive",
+    migrate: (jobs) =>
+      jobs.map((job) => ({
+        ...job,
+        statusHistory: job.statusHistory || initialStatusHistory(job),
+        contacts: job.contacts || [],
+        documents: job.documents || [],
+        priority: job.priority || "medium",
+        archived: job.archived || false,
+        interviewDate: job.interviewDate || undefined,
+        followUpDate: job.followUpDate || undefined,
+      })),
+  },
+  {
+    version: 4,
+    description: "Statuses become pipeline stage ids",
+    migrate: (jobs) =>
+      jobs.map((job) => ({
+        ...job,
+        status: toStageId(asString(job.status)) || "applied",
+        statusHistory: Array.isArray(job.statusHistory)
+          ? job.statusHistory.map((entry: StoredJob) => ({
+              ...entry,
+              status: toStageId(asString(entry.status)) || "applied",
+            }))
+          : job.statusHistory,
+      })),
+  },
+  {
+    version: 5,
+    description: "Single interview dates become interview rounds",
+    migrate: (jobs) =>
+      jobs.map((job) => {
+        if (Array.isArray(job.interviews) || !asString(job.interviewDate)) {
+          return job;
+        }
+
+        const link = asString(job.interviewLink) || undefined;
+        return {
+          ...job,
+          interviews: [
+            {
+              id: crypto.randomUUID(),
+              round: "Interview",
+              scheduledAt: asString(job.interviewDate),
+              format: link ? "video" : "other",
+              link,
+              outcome: "pending",
+            },
+          ],
+        };
+      }),
+  },
+  {
+    version: 6,
+    description: "Lost applications get a structured outcome",
+    // Works from the default stage ids: custom stages are not loaded yet
+    migrate: (jobs) =>
+      jobs.map((job) => {
+        const status = asString(job.status);
+        if (job.outcome || !LOST_STAGES.includes(status)) return job;
+
+        const history = Array.isArray(job.statusHistory)
+          ? (job.statusHistory as StoredJob[])
+          : [];
+        const closing = history
+          .map((entry) => entry.status)
+          .lastIndexOf(status);
+        const entry = history[closing];
+        // "Status changed from A to B: reason" keeps the reason after the colon
+        const feedback = asString(entry?.notes).match(
+          /^Status changed from .+? to .+?: ([\s\S]+)$/
+        )?.[1];
+
+        return {
+          ...job,
+          outcome: {
+            closedBy: status === "withdrawn" ? "me" : "employer",
+            stage: closing > 0 ? asString(history[closing - 1].status) : "",
+            reason: status === "ghosted" ? "no-response" : undefined,
+            feedback,
+            date: asString(entry?.date) || asString(job.appliedDate),
+          },
+        };
+      }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION =
+  SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1].version;
+
+// Accepts the numeric stamp as well as older "2.0"-style strings
+export const parseSchemaVersion = (value: unknown): number => {
+  const version =
+    typeof value === "number" ? value : parseInt(String(value ?? ""), 10);
+  return Number.isInteger(version) && version > 0 ? version : UNVERSIONED;
+};
+
+export class SchemaVersionError extends Error {
+  constructor(readonly version: number) {
+    super(
+      `Data uses schema version ${version}, but this app only understands up to ${CURRENT_SCHEMA_VERSION}`
+    );
+    this.name = "SchemaVersionError";
+  }
+}
+
+// Runs every migration newer than `fromVersion`, in order
+export const migrateApplications = (
+  jobs: unknown[],
+  fromVersion: number
+): JobApplication[] => {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new SchemaVersionError(fromVersion);
+  }
+
+  const migrated = SCHEMA_MIGRATIONS.filter(
+    (migration) => migration.version > fromVersion
+  ).reduce(
+    (records, migration) => migration.migrate(records),
+    jobs as StoredJob[]
+  );
+
+  return migrated as unknown as JobApplication[];
+};
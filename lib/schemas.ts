@@ -17,13 +17,7 @@ export const jobApplicationSchema = z.object({
     "internship",
   ]),
   workMode: z.enum(["remote", "on-site", "hybrid"]),
-  status: z.enum([
-    "applied",
-    "shortlisted",
-    "interview",
-    "rejected",
-    "offered",
-  ]),
+  status: z.string().min(1, "Status is required"),
   experienceLevel: z
     .enum(["entry", "mid", "senior", "lead", "executive"])
     .optional(),
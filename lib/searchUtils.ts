@@ -1,4 +1,6 @@
 import { JobApplication } from "@/types/job";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import { hasInterviews } from "@/lib/interviews";
 
 export function searchJobs(
   jobs: JobApplication[],
@@ -19,6 +21,7 @@ export function searchJobs(
       job.category,
       job.notes,
       job.status,
+      pipelineStageService.getLabel(job.status),
       job.jobType,
       job.workMode,
       job.experienceLevel,
@@ -31,6 +34,7 @@ export function searchJobs(
       ).flat(),
       // Search in documents if they exist
       ...(job.documents?.map((doc) => doc.name) || []),
+      ...(job.interviews?.map((interview) => interview.round) || []),
     ]
       .filter(Boolean)
       .join(" ")
@@ -137,10 +141,7 @@ export function filterJobs(
 
     // Has interview filter
     if (filters.hasInterview !== undefined) {
-      const hasInterview =
-        job.status === "interview" ||
-        !!job.interviewDate ||
-        !!job.interviewLink;
+      const hasInterview = hasInterviews(job) || !!job.interviewLink;
       if (filters.hasInterview !== hasInterview) {
         return false;
       }
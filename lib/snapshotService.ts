@@ -0,0 +1,276 @@
+import { Document, JobApplication } from "@/types/job";
+import { blobStorage, storage } from "@/lib/storageAdapter";
+import { syncService } from "@/lib/syncService";
+import { jobStorage } from "@/lib/jobStorage";
+import {
+  migrateApplications,
+  parseSchemaVersion,
+} from "@/lib/schemaMigrations";
+
+export type SnapshotReason =
+  "daily" | "manual" | "before-import" | "before-migration" | "before-restore";
+
+export interface SnapshotCounts {
+  applications: number;
+  documents: number;
+  templates: number;
+  rules: number;
+  presets: number;
+}
+
+export interface SnapshotSummary {
+  id: string;
+  createdAt: string;
+  reason: SnapshotReason;
+  label?: string;
+  counts: SnapshotCounts;
+}
+
+interface Snapshot extends SnapshotSummary {
+  jobs: string; // jobStorage.exportData() output
+  stores: Record<string, unknown>;
+}
+
+export interface SnapshotDiff {
+  restored: number; // in the snapshot but deleted since
+  removed: number; // added since the snapshot
+  reverted: number; // edited since the snapshot
+  unchanged: number;
+  changedStores: string[];
+}
+
+// Everything besides jobs that a snapshot captures. Document files are
+// not copied; only their metadata is, and documentService keeps a deleted
+// document's file while a snapshot still lists it.
+export const SNAPSHOT_STORES = [
+  { key: "applitrack-documents", label: "Document metadata" },
+  { key: "applitrack-document-categories", label: "Document categories" },
+  { key: "applitrack-templates", label: "Templates" },
+  { key: "applitrack-template-categories", label: "Template categories" },
+  { key: "applitrack-pipeline-stages", label: "Pipeline stages" },
+  { key: "applitrack-status-rules", label: "Status rules" },
+  { key: "job-tracker-filter-presets", label: "Filter presets" },
+  { key: "applitrack-export-field-sets", label: "Export field sets" },
+  { key: "applitrack-table-layout", label: "Table layout" },
+  { key: "applitrack-exchange-rates", label: "Exchange rates" },
+  { key: "applitrack-notification-settings", label: "Notification settings" },
+];
+
+const INDEX_KEY = "applitrack-snapshots";
+const DOCUMENTS_KEY = "applitrack-documents";
+const SNAPSHOT_KEY_PREFIX = "applitrack-snapshot:";
+
+const isSame = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const countOf = (value: unknown): number =>
+  Array.isArray(value) ? value.length : 0;
+
+const documentIdsOf = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map((doc: Document) => doc.id) : [];
+
+class SnapshotService {
+  private readonly MAX_DAILY = 7;
+  private readonly MAX_OTHER = 10;
+
+  async getSnapshots(): Promise<SnapshotSummary[]> {
+    if (typeof window === "undefined") return [];
+
+    try {
+      return (await storage.getItem<SnapshotSummary[]>(INDEX_KEY)) || [];
+    } catch (error) {
+      console.error("Failed to load snapshots:", error);
+      return [];
+    }
+  }
+
+  private async getSnapshot(id: string): Promise<Snapshot | null> {
+    return storage.getItem<Snapshot>(SNAPSHOT_KEY_PREFIX + id);
+  }
+
+  // Pass `schemaVersion` when the stored jobs have not been migrated yet
+  async createSnapshot(
+    reason: SnapshotReason,
+    options: { label?: string; schemaVersion?: number } = {}
+  ): Promise<SnapshotSummary> {
+    const jobs = await jobStorage.exportData(options.schemaVersion);
+    const stores: Record<string, unknown> = {};
+    for (const { key } of SNAPSHOT_STORES) {
+      stores[key] = await storage.getItem(key);
+    }
+
+    const summary: SnapshotSummary = {
+      id: `snapshot-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      createdAt: new Date().toISOString(),
+      reason,
+      label: options.label,
+      counts: {
+        applications: countOf(JSON.parse(jobs).applications),
+        documents: countOf(stores[DOCUMENTS_KEY]),
+        templates: countOf(stores["applitrack-templates"]),
+        rules: countOf(stores["applitrack-status-rules"]),
+        presets: countOf(stores["job-tracker-filter-presets"]),
+      },
+    };
+
+    const snapshot: Snapshot = { ...summary, jobs, stores };
+    await storage.setItem(SNAPSHOT_KEY_PREFIX + snapshot.id, snapshot);
+    let dropped: SnapshotSummary[] = [];
+    await syncService.withLock(INDEX_KEY, async () => {
+      const index = [summary, ...(await this.getSnapshots())];
+      const kept = this.prune(index);
+      dropped = index.filter((item) => !kept.includes(item));
+      await this.saveIndex(kept);
+    });
+    this.removeSnapshots(dropped.map((item) => item.id)).catch((error) =>
+      console.error("Failed to remove old snapshot:", error)
+    );
+
+    return summary;
+  }
+
+  // Takes today's snapshot unless this or another tab already has
+  async ensureDailySnapshot(): Promise<SnapshotSummary | null> {
+    const today = new Date().toDateString();
+    const latestDaily = (await this.getSnapshots()).find(
+      (snapshot) => snapshot.reason === "daily"
+    );
+    if (
+      latestDaily &&
+      new Date(latestDaily.createdAt).toDateString() === today
+    ) {
+      return null;
+    }
+
+    return this.createSnapshot("daily");
+  }
+
+  // Newest first; daily and event snapshots are rotated separately
+  private prune(index: SnapshotSummary[]): SnapshotSummary[] {
+    const daily = index.filter((snapshot) => snapshot.reason === "daily");
+    const other = index.filter((snapshot) => snapshot.reason !== "daily");
+    const kept = new Set([
+      ...daily.slice(0, this.MAX_DAILY),
+      ...other.slice(0, this.MAX_OTHER),
+    ]);
+    return index.filter((snapshot) => kept.has(snapshot));
+  }
+
+  // Ids of every document some snapshot lists
+  async referencedDocumentIds(): Promise<Set<string>> {
+    const ids = new Set<string>();
+    for (const summary of await this.getSnapshots()) {
+      const snapshot = await this.getSnapshot(summary.id);
+      documentIdsOf(snapshot?.stores[DOCUMENTS_KEY]).forEach((id) =>
+        ids.add(id)
+      );
+    }
+    return ids;
+  }
+
+  // Call once the index no longer lists them. Files of documents deleted
+  // since go with the last snapshot that listed them.
+  private async removeSnapshots(ids: string[]): Promise<void> {
+    const documentIds: string[] = [];
+    for (const id of ids) {
+      const snapshot = await this.getSnapshot(id);
+      documentIds.push(...documentIdsOf(snapshot?.stores[DOCUMENTS_KEY]));
+      await storage.removeItem(SNAPSHOT_KEY_PREFIX + id);
+    }
+    if (documentIds.length === 0) return;
+
+    const referenced = await this.referencedDocumentIds();
+    documentIdsOf(await storage.getItem(DOCUMENTS_KEY)).forEach((id) =>
+      referenced.add(id)
+    );
+    for (const id of documentIds) {
+      if (!referenced.has(id)) await blobStorage.removeItem(id);
+    }
+  }
+
+  private async saveIndex(index: SnapshotSummary[]): Promise<void> {
+    await storage.setItem(INDEX_KEY, index);
+    syncService.publish(INDEX_KEY);
+  }
+
+  async deleteSnapshot(id: string): Promise<void> {
+    await syncService.withLock(INDEX_KEY, async () => {
+      const index = await this.getSnapshots();
+      await this.saveIndex(index.filter((snapshot) => snapshot.id !== id));
+    });
+    await this.removeSnapshots([id]);
+  }
+
+  private parseJobs(snapshot: Snapshot): JobApplication[] {
+    const data = JSON.parse(snapshot.jobs);
+    return migrateApplications(
+      data.applications,
+      parseSchemaVersion(data.schemaVersion)
+    );
+  }
+
+  // What restoring `id` would do to the current data
+  async diff(id: string): Promise<SnapshotDiff | null> {
+    const snapshot = await this.getSnapshot(id);
+    if (!snapshot) return null;
+
+    const snapshotJobs = this.parseJobs(snapshot);
+    const currentJobs = await jobStorage.getAll();
+    const currentById = new Map(currentJobs.map((job) => [job.id, job]));
+    const snapshotIds = new Set(snapshotJobs.map((job) => job.id));
+
+    const result: SnapshotDiff = {
+      restored: 0,
+      removed: currentJobs.filter((job) => !snapshotIds.has(job.id)).length,
+      reverted: 0,
+      unchanged: 0,
+      changedStores: [],
+    };
+
+    snapshotJobs.forEach((job) => {
+      const current = currentById.get(job.id);
+      if (!current) result.restored++;
+      else if (isSame(current, job)) result.unchanged++;
+      else result.reverted++;
+    });
+
+    for (const { key, label } of SNAPSHOT_STORES) {
+      if (!isSame(await storage.getItem(key), snapshot.stores[key] ?? null)) {
+        result.changedStores.push(label);
+      }
+    }
+
+    return result;
+  }
+
+  // Rolls every store back to `id`; the current state is snapshotted first
+  async restore(id: string): Promise<void> {
+    const snapshot = await this.getSnapshot(id);
+    if (!snapshot) throw new Error("Snapshot not found");
+
+    await this.createSnapshot("before-restore", {
+      label: new Date(snapshot.createdAt).toLocaleString(),
+    });
+
+    const result = await jobStorage.importData(
+      snapshot.jobs,
+      `Restore snapshot from ${new Date(snapshot.createdAt).toLocaleString()}`
+    );
+    if (!result.success) throw new Error(result.message);
+    syncService.notifyLocal("job-applications");
+
+    for (const { key } of SNAPSHOT_STORES) {
+      const value = snapshot.stores[key];
+      if (value === null || value === undefined) {
+        await storage.removeItem(key);
+      } else {
+        await storage.setItem(key, value);
+      }
+      // Services hold cached copies, so reload them here and in other tabs
+      syncService.publish(key);
+      syncService.notifyLocal(key);
+    }
+  }
+}
+
+export const snapshotService = new SnapshotService();
@@ -1,86 +1,232 @@
 import { JobApplication } from "@/types/job";
+import { storage } from "@/lib/storageAdapter";
+import { SyncedStore } from "@/lib/syncService";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import { jobStorage } from "@/lib/jobStorage";
+import { notificationService } from "@/lib/notificationService";
+import { StatusTransitionError } from "@/lib/statusTransitions";
+import {
+  RuleAction,
+  RuleCondition,
+  RuleConditionGroup,
+  RuleOperator,
+  countConditions,
+  createGroup,
+  evaluateCondition,
+  planActions,
+} from "@/lib/ruleEngine";
 
 export interface StatusRule {
   id: string;
   name: string;
   description: string;
-  fromStatus: JobApplication["status"];
-  toStatus: JobApplication["status"];
+  conditions: RuleConditionGroup;
+  actions: RuleAction[];
+  trigger: "automatic" | "manual"; // manual rules only run from the editor
+  isActive: boolean;
+  createdAt: string;
+  matchedJobIds?: string[]; // matched at the last automatic run
+}
+
+// The shape before conditions and actions, still found in old backups
+interface LegacyStatusRule {
+  id: string;
+  name: string;
+  description: string;
+  fromStatus: string;
+  toStatus: string;
   condition: "time_elapsed" | "interview_date_passed" | "manual_trigger";
-  timeDelay?: number; // in days
+  timeDelay?: number;
   isActive: boolean;
   createdAt: string;
 }
 
-export interface StatusSuggestion {
+export interface RuleMatch {
+  rule: StatusRule;
+  job: JobApplication;
+}
+
+export interface RuleRunResult {
+  ruleId: string;
   jobId: string;
-  currentStatus: JobApplication["status"];
-  suggestedStatus: JobApplication["status"];
-  reason: string;
-  confidence: number; // 0-1
-  autoApply: boolean;
+  error?: string; // the status change was refused; other actions ran
 }
 
+const condition = (
+  field: string,
+  operator: RuleOperator,
+  value?: string,
+  id: string = crypto.randomUUID()
+): RuleCondition => ({ type: "condition", id, field, operator, value });
+
+// Ids follow the rule id so every tab upgrades a rule the same way. Old rules
+// without a delay never fired, so they get an empty "any" group, which
+// matches nothing.
+const legacyCondition = (rule: LegacyStatusRule): RuleCondition[] => {
+  const field =
+    rule.condition === "time_elapsed"
+      ? "daysSinceApplied"
+      : rule.condition === "interview_date_passed"
+        ? "daysSinceInterview"
+        : undefined;
+  if (!field) return [];
+  if (!rule.timeDelay) {
+    return [{ ...createGroup("or"), id: `${rule.id}-days` }];
+  }
+  return [condition(field, "gte", String(rule.timeDelay), `${rule.id}-days`)];
+};
+
+// Old rules kept their status unchanged to mean "suggest a follow-up". Ones
+// that change status only run by hand until reviewed in the editor.
+const upgradeRule = (rule: StatusRule | LegacyStatusRule): StatusRule => {
+  if ("conditions" in rule) return rule;
+
+  return {
+    id: rule.id,
+    name: rule.name,
+    description: rule.description,
+    conditions: {
+      type: "group",
+      id: `${rule.id}-conditions`,
+      combinator: "and",
+      conditions: [
+        condition("status", "eq", rule.fromStatus, `${rule.id}-status`),
+        ...legacyCondition(rule),
+      ],
+    },
+    actions:
+      rule.toStatus !== rule.fromStatus
+        ? [{ type: "change_status", status: rule.toStatus }]
+        : [{ type: "notify", title: rule.name, message: rule.description }],
+    trigger:
+      rule.condition === "manual_trigger" || rule.toStatus !== rule.fromStatus
+        ? "manual"
+        : "automatic",
+    isActive: rule.isActive,
+    createdAt: rule.createdAt,
+  };
+};
+
 class StatusAutomationService {
   private readonly STORAGE_KEY = "applitrack-status-rules";
   private rules: StatusRule[] = [];
+  private ruleStore: SyncedStore<StatusRule[]>;
+  private listeners: Set<() => void> = new Set();
+  readonly ready: Promise<void>;
 
   constructor() {
-    this.rules = this.loadRules();
+    this.ruleStore = new SyncedStore({
+      key: this.STORAGE_KEY,
+      load: () => this.loadRules(),
+      get: () => this.rules,
+      set: (rules) => (this.rules = rules),
+      revive: (rules) => rules.map(upgradeRule),
+    });
+    this.ruleStore.onRemoteChange(() => this.notifyListeners());
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    await this.ruleStore.load();
     this.initializeDefaultRules();
   }
 
-  private loadRules(): StatusRule[] {
+  private async loadRules(): Promise<StatusRule[]> {
     if (typeof window === "undefined") return [];
 
     try {
-      const saved = localStorage.getItem(this.STORAGE_KEY);
-      return saved ? JSON.parse(saved) : [];
+      const saved = await storage.getItem<(StatusRule | LegacyStatusRule)[]>(
+        this.STORAGE_KEY
+      );
+      return (saved || []).map(upgradeRule);
     } catch {
       return [];
     }
   }
 
   private saveRules(): void {
-    if (typeof window === "undefined") return;
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.rules));
+    this.ruleStore.save();
+    this.notifyListeners();
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Runs `listener` whenever the rules change, here or in another tab
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
   }
 
   private initializeDefaultRules(): void {
     if (this.rules.length === 0) {
+      const createdAt = new Date().toISOString();
+      const initial = pipelineStageService.getInitialStage().id;
       const defaultRules: StatusRule[] = [
         {
           id: "applied-to-followup",
-          name: "Applied → Follow-up Needed",
-          description: "Suggest follow-up after 7 days of applying",
-          fromStatus: "applied",
-          toStatus: "applied", // Status stays same, but suggests action
-          condition: "time_elapsed",
-          timeDelay: 7,
+          name: "Follow up a week after applying",
+          description: "Sets a follow-up date when there has been no reply",
+          conditions: createGroup("and", [
+            condition("status", "eq", initial),
+            condition("daysInStatus", "gte", "7"),
+            condition("hasFollowUp", "is_false"),
+          ]),
+          actions: [
+            { type: "set_follow_up", days: 0 },
+            {
+              type: "notify",
+              title: "Time to follow up",
+              message: "No reply from {company} about {role} after a week",
+            },
+          ],
+          trigger: "automatic",
           isActive: true,
-          createdAt: new Date().toISOString(),
+          createdAt,
         },
         {
           id: "interview-to-followup",
-          name: "Interview → Follow-up",
-          description: "Suggest follow-up 3 days after interview date",
-          fromStatus: "interview",
-          toStatus: "interview",
-          condition: "interview_date_passed",
-          timeDelay: 3,
+          name: "Follow up after an interview",
+          description: "Three days after an interview with no news",
+          conditions: createGroup("and", [
+            condition("stageCategory", "eq", "active"),
+            condition("daysSinceInterview", "gte", "3"),
+            condition("daysInStatus", "gte", "3"),
+            condition("hasFollowUp", "is_false"),
+          ]),
+          actions: [
+            { type: "set_follow_up", days: 0 },
+            {
+              type: "notify",
+              title: "Interview follow-up",
+              message: "Check in with {company} about the {role} interview",
+            },
+          ],
+          trigger: "automatic",
           isActive: true,
-          createdAt: new Date().toISOString(),
+          createdAt,
         },
         {
-          id: "shortlisted-stale",
-          name: "Shortlisted → Follow-up",
-          description: "Follow up on shortlisted applications after 10 days",
-          fromStatus: "shortlisted",
-          toStatus: "shortlisted",
-          condition: "time_elapsed",
-          timeDelay: 10,
+          id: "stale-to-ghosted",
+          name: "Mark silent applications as ghosted",
+          description:
+            "A month without movement, unless it's high priority and has a contact",
+          conditions: createGroup("and", [
+            condition("stageCategory", "eq", "active"),
+            condition("daysInStatus", "gte", "30"),
+            createGroup("or", [
+              condition("priority", "neq", "high"),
+              condition("hasContact", "is_false"),
+            ]),
+          ]),
+          actions: [
+            { type: "change_status", status: "ghosted" },
+            { type: "add_note", text: "No response after a month" },
+          ],
+          trigger: "manual",
           isActive: true,
-          createdAt: new Date().toISOString(),
+          createdAt,
         },
       ];
 
@@ -131,73 +277,108 @@ class StatusAutomationService {
     return this.rules.filter((r) => r.isActive);
   }
 
-  // Analyze jobs and provide status suggestions
-  analyzeJobs(jobs: JobApplication[]): StatusSuggestion[] {
-    const suggestions: StatusSuggestion[] = [];
+  // Rules without any conditions never match, so a half-built rule can't
+  // touch every application. Archived applications are left alone.
+  matches(
+    rule: Pick<StatusRule, "conditions">,
+    job: JobApplication,
+    now = new Date()
+  ): boolean {
+    return (
+      !job.archived &&
+      countConditions(rule.conditions) > 0 &&
+      evaluateCondition(rule.conditions, job, now)
+    );
+  }
+
+  // Every active rule and the applications it matches right now
+  findMatches(
+    jobs: JobApplication[],
+    rules: StatusRule[] = this.getActiveRules()
+  ): RuleMatch[] {
     const now = new Date();
-    const activeRules = this.getActiveRules();
+    return rules.flatMap((rule) =>
+      jobs
+        .filter((job) => this.matches(rule, job, now))
+        .map((job) => ({ rule, job }))
+    );
+  }
 
-    jobs.forEach((job) => {
-      activeRules.forEach((rule) => {
-        if (job.status !== rule.fromStatus) return;
-
-        let shouldSuggest = false;
-        let reason = "";
-        let confidence = 0.7;
-
-        switch (rule.condition) {
-          case "time_elapsed":
-            if (rule.timeDelay) {
-              const appliedDate = new Date(job.appliedDate);
-              const daysSinceApplied = Math.floor(
-                (now.getTime() - appliedDate.getTime()) / (1000 * 60 * 60 * 24)
-              );
-
-              if (daysSinceApplied >= rule.timeDelay) {
-                shouldSuggest = true;
-                reason = `${daysSinceApplied} days since application`;
-                confidence = Math.min(
-                  0.9,
-                  0.5 + (daysSinceApplied / rule.timeDelay) * 0.4
-                );
-              }
-            }
-            break;
-
-          case "interview_date_passed":
-            if (job.interviewDate && rule.timeDelay) {
-              const interviewDate = new Date(job.interviewDate);
-              const daysSinceInterview = Math.floor(
-                (now.getTime() - interviewDate.getTime()) /
-                  (1000 * 60 * 60 * 24)
-              );
-
-              if (daysSinceInterview >= rule.timeDelay) {
-                shouldSuggest = true;
-                reason = `${daysSinceInterview} days since interview`;
-                confidence = Math.min(
-                  0.95,
-                  0.6 + (daysSinceInterview / rule.timeDelay) * 0.35
-                );
-              }
-            }
-            break;
-        }
+  /**
+   * Runs active automatic rules on the applications they newly match, so
+   * a rule fires once when an application starts matching it and again
+   * only after it has stopped matching in between.
+   */
+  async runAutomaticRules(jobs: JobApplication[]): Promise<RuleRunResult[]> {
+    const rules = this.getActiveRules().filter(
+      (rule) => rule.trigger === "automatic"
+    );
+    const matches = this.findMatches(jobs, rules);
 
-        if (shouldSuggest) {
-          suggestions.push({
-            jobId: job.id,
-            currentStatus: job.status,
-            suggestedStatus: rule.toStatus,
-            reason: `${rule.name}: ${reason}`,
-            confidence,
-            autoApply: false, // Always require manual approval for now
-          });
-        }
-      });
+    const fresh = matches.filter(
+      ({ rule, job }) => !rule.matchedJobIds?.includes(job.id)
+    );
+    rules.forEach((rule) => {
+      const matchedJobIds = matches
+        .filter((match) => match.rule.id === rule.id)
+        .map((match) => match.job.id);
+      const index = this.rules.findIndex((r) => r.id === rule.id);
+      if (index !== -1) this.rules[index] = { ...rule, matchedJobIds };
     });
+    this.saveRules();
+
+    return this.applyMatches(fresh);
+  }
+
+  // "Run now" in the editor: every current match, whatever ran before
+  async runRule(id: string, jobs: JobApplication[]): Promise<RuleRunResult[]> {
+    const rule = this.rules.find((r) => r.id === id);
+    return rule ? this.applyMatches(this.findMatches(jobs, [rule])) : [];
+  }
+
+  // Matches apply in order; a later rule sees what an earlier one changed
+  private async applyMatches(matches: RuleMatch[]): Promise<RuleRunResult[]> {
+    const results: RuleRunResult[] = [];
+    const current = new Map<string, JobApplication>();
+
+    for (const { rule, job: matched } of matches) {
+      const job = current.get(matched.id) || matched;
+      const { updates, notifications } = planActions(job, rule.actions);
+      const result: RuleRunResult = { ruleId: rule.id, jobId: job.id };
+      let saved: JobApplication | null = job;
+
+      if (Object.keys(updates).length > 0) {
+        // Stages that need a reason refuse the move; the rule name is
+        // only a note
+        const transition = { note: `Rule "${rule.name}"` };
+        try {
+          saved = await jobStorage.update(job.id, updates, transition);
+        } catch (error) {
+          if (!(error instanceof StatusTransitionError)) throw error;
+          // Keep the other actions when the stage rules refuse the move
+          const others = { ...updates };
+          delete others.status;
+          result.error = error.message;
+          if (Object.keys(others).length > 0) {
+            saved = await jobStorage.update(job.id, others, transition);
+          }
+        }
+      }
 
-    return suggestions.sort((a, b) => b.confidence - a.confidence);
+      if (saved) {
+        current.set(saved.id, saved);
+        notifications.forEach(({ title, message }) =>
+          notificationService.notifyFromRule(
+            saved as JobApplication,
+            title,
+            message
+          )
+        );
+      }
+      results.push(result);
+    }
+
+    return results;
   }
 
   // Smart status progression suggestions based on patterns
@@ -271,7 +452,7 @@ class StatusAutomationService {
       );
 
       if (
-        job.status === "applied" &&
+        job.status === pipelineStageService.getInitialStage().id &&
         daysSinceApplied >= 14 &&
         !job.followUpDate
       ) {
@@ -284,7 +465,7 @@ class StatusAutomationService {
       }
 
       // Check for interview follow-ups
-      if (job.status === "interview" && job.interviewDate) {
+      if (!pipelineStageService.isClosed(job.status) && job.interviewDate) {
         const interviewDate = new Date(job.interviewDate);
         const daysSinceInterview = Math.floor(
           (now.getTime() - interviewDate.getTime()) / (1000 * 60 * 60 * 24)
@@ -311,43 +492,15 @@ class StatusAutomationService {
     });
   }
 
-  // Auto-progress status based on rules (for future implementation)
-  autoProgressStatus(
-    job: JobApplication,
-    suggestions: StatusSuggestion[]
-  ): JobApplication | null {
-    const applicableSuggestion = suggestions.find(
-      (s) => s.jobId === job.id && s.autoApply && s.confidence > 0.8
-    );
-
-    if (applicableSuggestion) {
-      return {
-        ...job,
-        status: applicableSuggestion.suggestedStatus,
-        statusHistory: [
-          ...(job.statusHistory || []),
-          {
-            id: `status-${Date.now()}`,
-            status: applicableSuggestion.suggestedStatus,
-            date: new Date().toISOString(),
-            notes: `Auto-updated: ${applicableSuggestion.reason}`,
-          },
-        ],
-      };
-    }
-
-    return null;
-  }
-
   // Batch analyze and get summary
   getBatchAnalysisSummary(jobs: JobApplication[]): {
     totalJobs: number;
-    statusSuggestions: number;
+    ruleMatches: number;
     smartSuggestions: number;
     urgentActions: number;
     summary: string;
   } {
-    const statusSuggestions = this.analyzeJobs(jobs);
+    const ruleMatches = this.findMatches(jobs);
     const smartSuggestions = this.getSmartStatusSuggestions(jobs);
     const urgentActions = smartSuggestions.filter(
       (s) => s.priority === "high"
@@ -358,10 +511,10 @@ class StatusAutomationService {
       summary = `${urgentActions} urgent action${
         urgentActions > 1 ? "s" : ""
       } needed`;
-    } else if (statusSuggestions.length > 0) {
-      summary = `${statusSuggestions.length} status update${
-        statusSuggestions.length > 1 ? "s" : ""
-      } suggested`;
+    } else if (ruleMatches.length > 0) {
+      summary = `${ruleMatches.length} rule match${
+        ruleMatches.length > 1 ? "es" : ""
+      }`;
     } else if (smartSuggestions.length > 0) {
       summary = `${smartSuggestions.length} recommendation${
         smartSuggestions.length > 1 ? "s" : ""
@@ -372,7 +525,7 @@ class StatusAutomationService {
 
     return {
       totalJobs: jobs.length,
-      statusSuggestions: statusSuggestions.length,
+      ruleMatches: ruleMatches.length,
       smartSuggestions: smartSuggestions.length,
       urgentActions,
       summary,
@@ -0,0 +1,109 @@
+import {
+  ClosedBy,
+  JobApplication,
+  OutcomeReason,
+  PipelineStage,
+  StageRequirement,
+} from "@/types/job";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+
+export const REQUIREMENT_LABELS: Record<StageRequirement, string> = {
+  interviewDate: "Interview date",
+  reason: "Reason",
+};
+
+// What the user supplies along with a status change
+export interface TransitionOptions {
+  reason?: string; // recorded in the status history
+  note?: string; // history only; never counts as the reason or as feedback
+  force?: boolean; // make a move the current stage doesn't allow
+  outcome?: { closedBy: ClosedBy; reason?: OutcomeReason }; // for lost stages
+}
+
+export interface TransitionCheck {
+  allowed: boolean; // the current stage lists the target as a next stage
+  missing: StageRequirement[];
+  warnings: string[];
+}
+
+export class StatusTransitionError extends Error {
+  constructor(
+    message: string,
+    readonly check: TransitionCheck
+  ) {
+    super(message);
+    this.name = "StatusTransitionError";
+  }
+}
+
+export function canTransition(from: string, to: string): boolean {
+  if (from === to) return true;
+  const next = pipelineStageService.getStage(from)?.next;
+  return !next || next.includes(to);
+}
+
+export function allowedNextStages(from: string): PipelineStage[] {
+  return pipelineStageService
+    .getStages()
+    .filter((stage) => stage.id !== from && canTransition(from, stage.id));
+}
+
+// `job` is the application as it will be saved, apart from the status
+export function checkTransition(
+  job: JobApplication,
+  from: string,
+  to: string,
+  options: TransitionOptions = {}
+): TransitionCheck {
+  const stages = pipelineStageService.getStages();
+  const target = stages.find((stage) => stage.id === to);
+  const fromLabel = pipelineStageService.getLabel(from);
+  const toLabel = pipelineStageService.getLabel(to);
+  const allowed = canTransition(from, to);
+
+  const missing = (target?.requires || []).filter((requirement) =>
+    requirement === "reason"
+      ? !options.reason?.trim() && !options.outcome?.reason
+      : !job.interviewDate
+  );
+
+  const warnings: string[] = [];
+  if (!allowed) {
+    warnings.push(`${fromLabel} isn't meant to move on to ${toLabel}.`);
+  }
+
+  const fromIndex = stages.findIndex((stage) => stage.id === from);
+  const toIndex = stages.findIndex((stage) => stage.id === to);
+  if (
+    allowed &&
+    toIndex !== -1 &&
+    toIndex < fromIndex &&
+    !pipelineStageService.isClosed(from)
+  ) {
+    warnings.push(`${toLabel} comes before ${fromLabel} in the pipeline.`);
+  }
+
+  return { allowed, missing, warnings };
+}
+
+// Throws unless the move is allowed (or forced) and has what it requires
+export function assertTransition(
+  job: JobApplication,
+  from: string,
+  to: string,
+  options: TransitionOptions = {}
+): TransitionCheck {
+  const check = checkTransition(job, from, to, options);
+  const toLabel = pipelineStageService.getLabel(to);
+
+  if (!check.allowed && !options.force) {
+    throw new StatusTransitionError(check.warnings[0], check);
+  }
+  if (check.missing.length > 0) {
+    const needed = check.missing
+      .map((requirement) => REQUIREMENT_LABELS[requirement].toLowerCase())
+      .join(" and ");
+    throw new StatusTransitionError(`${toLabel} needs ${needed}.`, check);
+  }
+  return check;
+}
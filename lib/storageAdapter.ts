@@ -0,0 +1,298 @@
+import { VAULT_CONFIG_KEY, VaultStorageAdapter } from "@/lib/vault";
+
+export interface StorageAdapter {
+  getItem<T>(key: string): Promise<T | null>;
+  setItem<T>(key: string, value: T): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+const DB_NAME = "applitrack";
+const DB_VERSION = 2;
+const KEYVAL_STORE = "keyval";
+const BLOB_STORE = "blobs";
+const BLOB_KEY_PREFIX = "applitrack-blob:";
+const MIGRATION_FLAG_KEY = "applitrack-storage-migrated";
+const SYNC_EVENT_KEY = "applitrack-sync-event";
+
+// Keys that lived in localStorage before the adapter existed
+const isLegacyKey = (key: string): boolean =>
+  key === "job-applications" ||
+  key === "job-tracker-filter-presets" ||
+  (key.startsWith("applitrack-") &&
+    key !== MIGRATION_FLAG_KEY &&
+    key !== SYNC_EVENT_KEY &&
+    key !== VAULT_CONFIG_KEY &&
+    !key.startsWith(BLOB_KEY_PREFIX));
+
+interface SerializedBlob {
+  __blob: string; // data URL
+}
+
+const isSerializedBlob = (value: unknown): value is SerializedBlob =>
+  typeof value === "object" && value !== null && "__blob" in value;
+
+const blobToDataURL = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+  });
+
+type BlockedListener = (blocked: boolean) => void;
+const blockedListeners: Set<BlockedListener> = new Set();
+
+// Told when opening waits on another tab holding an older version open,
+// and again once it gets through
+export function onStorageBlocked(listener: BlockedListener): () => void {
+  blockedListeners.add(listener);
+  return () => {
+    blockedListeners.delete(listener);
+  };
+}
+
+export class LocalStorageAdapter implements StorageAdapter {
+  // Blob stores share localStorage with the keyval store, so they get a prefix
+  constructor(private readonly prefix: string = "") {}
+
+  private ownsKey(key: string): boolean {
+    return this.prefix
+      ? key.startsWith(this.prefix)
+      : !key.startsWith(BLOB_KEY_PREFIX);
+  }
+
+  async getItem<T>(key: string): Promise<T | null> {
+    const stored = localStorage.getItem(this.prefix + key);
+    if (!stored) return null;
+
+    const value = JSON.parse(stored);
+    // localStorage only holds strings, so Blobs round-trip as data URLs
+    if (isSerializedBlob(value)) {
+      return (await (await fetch(value.__blob)).blob()) as T;
+    }
+    return value as T;
+  }
+
+  async setItem<T>(key: string, value: T): Promise<void> {
+    const serialized =
+      value instanceof Blob
+        ? { __blob: await blobToDataURL(value) }
+        : (value as unknown);
+    localStorage.setItem(this.prefix + key, JSON.stringify(serialized));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    localStorage.removeItem(this.prefix + key);
+  }
+
+  async keys(): Promise<string[]> {
+    return Object.keys(localStorage)
+      .filter((key) => this.ownsKey(key))
+      .map((key) => key.slice(this.prefix.length));
+  }
+}
+
+export class IndexedDBAdapter implements StorageAdapter {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly storeName: string = KEYVAL_STORE) {}
+
+  static isSupported(): boolean {
+    return typeof window !== "undefined" && "indexedDB" in window;
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          [KEYVAL_STORE, BLOB_STORE].forEach((name) => {
+            if (!db.objectStoreNames.contains(name)) {
+              db.createObjectStore(name);
+            }
+          });
+        };
+        request.onsuccess = () => {
+          const db = request.result;
+          // Step aside when another tab upgrades, instead of blocking it
+          db.onversionchange = () => {
+            db.close();
+            this.dbPromise = null;
+          };
+          blockedListeners.forEach((listener) => listener(false));
+          resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+        // Falling back to localStorage here would split the data, so keep
+        // waiting and let the user close the other tab
+        request.onblocked = () =>
+          blockedListeners.forEach((listener) => listener(true));
+      }).catch((error) => {
+        // Forget the failed attempt so a later call can try again
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<R>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> {
+    const db = await this.openDatabase();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const request = operation(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  async getItem<T>(key: string): Promise<T | null> {
+    const value = await this.run("readonly", (store) => store.get(key));
+    return value === undefined ? null : (value as T);
+  }
+
+  async setItem<T>(key: string, value: T): Promise<void> {
+    await this.run("readwrite", (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.run("readwrite", (store) => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.run("readonly", (store) => store.getAllKeys());
+    return keys.map(String);
+  }
+}
+
+// One-time move of the legacy localStorage blobs into IndexedDB
+export async function migrateLocalStorageToIndexedDB(
+  target: StorageAdapter
+): Promise<number> {
+  if (localStorage.getItem(MIGRATION_FLAG_KEY)) return 0;
+
+  const legacyKeys = Object.keys(localStorage).filter(isLegacyKey);
+  let migrated = 0;
+  let failed = 0;
+
+  for (const key of legacyKeys) {
+    const raw = localStorage.getItem(key);
+    if (raw === null) continue;
+
+    try {
+      // Never overwrite data that already made it into IndexedDB
+      if ((await target.getItem(key)) === null) {
+        await target.setItem(key, JSON.parse(raw));
+      }
+      localStorage.removeItem(key);
+      migrated++;
+    } catch (error) {
+      console.error(`Failed to migrate ${key} to IndexedDB:`, error);
+      failed++;
+    }
+  }
+
+  // Keys left behind are retried on the next load
+  if (failed === 0) {
+    localStorage.setItem(MIGRATION_FLAG_KEY, new Date().toISOString());
+  }
+  return migrated;
+}
+
+const createAdapter = async (): Promise<StorageAdapter> => {
+  if (!IndexedDBAdapter.isSupported()) {
+    return new LocalStorageAdapter();
+  }
+
+  try {
+    const adapter = new IndexedDBAdapter(KEYVAL_STORE);
+    // Probe first; migrating swallows per-key errors, so a refused
+    // connection would otherwise go unnoticed
+    await adapter.keys();
+    const migrated = await migrateLocalStorageToIndexedDB(adapter);
+    if (migrated > 0) {
+      console.log(`Migrated ${migrated} stores from localStorage to IndexedDB`);
+    }
+    return adapter;
+  } catch (error) {
+    // Private browsing modes can refuse IndexedDB entirely
+    console.error("IndexedDB unavailable, using localStorage:", error);
+    return new LocalStorageAdapter();
+  }
+};
+
+const createBlobAdapter = async (): Promise<StorageAdapter> => {
+  if (!IndexedDBAdapter.isSupported()) {
+    return new LocalStorageAdapter(BLOB_KEY_PREFIX);
+  }
+
+  try {
+    const adapter = new IndexedDBAdapter(BLOB_STORE);
+    // Probe now so a refused connection falls back here, not on first upload
+    await adapter.keys();
+    return adapter;
+  } catch (error) {
+    console.error("IndexedDB unavailable, using localStorage:", error);
+    return new LocalStorageAdapter(BLOB_KEY_PREFIX);
+  }
+};
+
+let adapterPromise: Promise<VaultStorageAdapter> | null = null;
+let blobAdapterPromise: Promise<VaultStorageAdapter> | null = null;
+
+// Both adapters go through the vault, which passes values through
+// untouched unless encryption is enabled
+export function getStorageAdapter(): Promise<VaultStorageAdapter> {
+  if (!adapterPromise) {
+    adapterPromise = createAdapter().then(
+      (adapter) => new VaultStorageAdapter(adapter)
+    );
+  }
+  return adapterPromise;
+}
+
+export function getBlobStorageAdapter(): Promise<VaultStorageAdapter> {
+  if (!blobAdapterPromise) {
+    blobAdapterPromise = createBlobAdapter().then(
+      (adapter) => new VaultStorageAdapter(adapter)
+    );
+  }
+  return blobAdapterPromise;
+}
+
+// Client-only facade over a lazily created adapter; no-ops during SSR
+const createStorage = (
+  getAdapter: () => Promise<StorageAdapter>
+): StorageAdapter => ({
+  async getItem<T>(key: string): Promise<T | null> {
+    if (typeof window === "undefined") return null;
+    return (await getAdapter()).getItem<T>(key);
+  },
+
+  async setItem<T>(key: string, value: T): Promise<void> {
+    if (typeof window === "undefined") return;
+    return (await getAdapter()).setItem(key, value);
+  },
+
+  async removeItem(key: string): Promise<void> {
+    if (typeof window === "undefined") return;
+    return (await getAdapter()).removeItem(key);
+  },
+
+  async keys(): Promise<string[]> {
+    if (typeof window === "undefined") return [];
+    return (await getAdapter()).keys();
+  },
+});
+
+// Shared entry point for every service's JSON-shaped state
+export const storage = createStorage(getStorageAdapter);
+
+// Binary content (document files) keyed by owner id
+export const blobStorage = createStorage(getBlobStorageAdapter);
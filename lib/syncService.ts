@@ -0,0 +1,256 @@
+import { storage } from "@/lib/storageAdapter";
+
+interface SyncMessage {
+  key: string;
+  origin: string;
+}
+
+type SyncListener = () => void;
+
+const CHANNEL_NAME = "applitrack-sync";
+const FALLBACK_EVENT_KEY = "applitrack-sync-event";
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date);
+
+const hasId = (value: unknown): value is { id: string } =>
+  isPlainObject(value) && typeof value.id === "string";
+
+const isSame = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Three-way merge that replays what this tab changed since `base` on top of
+ * what is currently stored. Arrays of records merge by id, objects merge per
+ * field, and anything else takes the local value only if it was changed here.
+ */
+export function rebase<T>(base: T, local: T, remote: T): T {
+  if (isSame(base, local)) return remote;
+  if (remote === null || remote === undefined) return local;
+
+  if (
+    Array.isArray(local) &&
+    Array.isArray(remote) &&
+    (local.every(hasId) || remote.every(hasId))
+  ) {
+    const baseItems = Array.isArray(base) ? base.filter(hasId) : [];
+    const localItems = local.filter(hasId);
+    const localById = new Map(localItems.map((item) => [item.id, item]));
+    const result: unknown[] = [];
+
+    remote.filter(hasId).forEach((remoteItem) => {
+      const baseItem = baseItems.find((item) => item.id === remoteItem.id);
+      const localItem = localById.get(remoteItem.id);
+
+      if (!localItem) {
+        // Deleted here (it existed in base), otherwise added elsewhere
+        if (!baseItem) result.push(remoteItem);
+        return;
+      }
+      result.push(
+        baseItem ? rebase(baseItem, localItem, remoteItem) : localItem
+      );
+    });
+
+    localItems.forEach((localItem) => {
+      const inRemote = result.some(
+        (item) => hasId(item) && item.id === localItem.id
+      );
+      const inBase = baseItems.some((item) => item.id === localItem.id);
+      // Only re-add records created here, not ones deleted elsewhere
+      if (!inRemote && !inBase) result.push(localItem);
+    });
+
+    return result as T;
+  }
+
+  if (isPlainObject(local) && isPlainObject(remote)) {
+    const baseObject: Record<string, unknown> = isPlainObject(base) ? base : {};
+    const result: Record<string, unknown> = { ...remote };
+
+    Object.keys({ ...baseObject, ...local }).forEach((field) => {
+      if (isSame(baseObject[field], local[field])) return;
+      result[field] = rebase(baseObject[field], local[field], remote[field]);
+    });
+    Object.keys(baseObject).forEach((field) => {
+      if (!(field in local)) delete result[field];
+    });
+
+    return result as T;
+  }
+
+  return local;
+}
+
+class SyncService {
+  private readonly tabId = `tab-${Date.now()}-${Math.random()
+    .toString(36)
+    .substr(2, 9)}`;
+  private channel: BroadcastChannel | null = null;
+  private listeners: Map<string, Set<SyncListener>> = new Map();
+  private localLocks: Map<string, Promise<unknown>> = new Map();
+
+  constructor() {
+    this.setupChannel();
+  }
+
+  private setupChannel(): void {
+    if (typeof window === "undefined") return;
+
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<SyncMessage>) =>
+        this.handleMessage(event.data);
+      return;
+    }
+
+    // Older browsers: piggyback on the cross-tab `storage` event
+    window.addEventListener("storage", (event) => {
+      if (event.key !== FALLBACK_EVENT_KEY || !event.newValue) return;
+      try {
+        this.handleMessage(JSON.parse(event.newValue));
+      } catch {
+        // Ignore malformed payloads
+      }
+    });
+  }
+
+  private handleMessage(message: SyncMessage): void {
+    if (!message || message.origin === this.tabId) return;
+    this.listeners.get(message.key)?.forEach((listener) => listener());
+  }
+
+  // Tell other tabs that `key` was rewritten
+  publish(key: string): void {
+    if (typeof window === "undefined") return;
+
+    const message: SyncMessage = { key, origin: this.tabId };
+    if (this.channel) {
+      this.channel.postMessage(message);
+    } else {
+      localStorage.setItem(
+        FALLBACK_EVENT_KEY,
+        JSON.stringify({ ...message, at: Date.now() })
+      );
+    }
+  }
+
+  // Runs this tab's listeners too, for writes that bypassed the owning service
+  notifyLocal(key: string): void {
+    this.listeners.get(key)?.forEach((listener) => listener());
+  }
+
+  // Runs `listener` when another tab changes `key`
+  subscribe(key: string, listener: SyncListener): () => void {
+    if (!this.listeners.has(key)) {
+      this.listeners.set(key, new Set());
+    }
+    this.listeners.get(key)!.add(listener);
+
+    return () => {
+      this.listeners.get(key)?.delete(listener);
+    };
+  }
+
+  // Serializes read-modify-write cycles on `key` across every open tab
+  async withLock<R>(key: string, task: () => Promise<R>): Promise<R> {
+    if (typeof navigator !== "undefined" && "locks" in navigator) {
+      return navigator.locks.request(`applitrack:${key}`, task);
+    }
+
+    // No Web Locks: at least keep this tab's writes in order
+    const previous = this.localLocks.get(key) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(task);
+    this.localLocks.set(key, run);
+    return run;
+  }
+
+  // Rebases this tab's edits onto the stored value and writes the result
+  async commit<T>(key: string, base: T, local: T): Promise<T> {
+    const merged = await this.withLock(key, async () => {
+      const remote = await storage.getItem<T>(key);
+      const next = remote === null ? local : rebase(base, local, remote);
+      await storage.setItem(key, next);
+      return next;
+    });
+
+    this.publish(key);
+    return merged;
+  }
+}
+
+export const syncService = new SyncService();
+
+interface SyncedStoreOptions<T> {
+  key: string;
+  load: () => Promise<T>;
+  get: () => T;
+  set: (value: T) => void;
+  revive?: (value: T) => T;
+}
+
+/**
+ * Keeps a service's in-memory copy of one persisted value in step with other
+ * tabs. Saves rebase local edits onto the stored value instead of overwriting
+ * it, and remote changes are folded into the cache as they are announced.
+ */
+export class SyncedStore<T> {
+  private base: T | null = null;
+  private listeners: Set<() => void> = new Set();
+
+  constructor(private readonly options: SyncedStoreOptions<T>) {
+    syncService.subscribe(options.key, () => {
+      this.reload().catch((error) =>
+        console.error(`Failed to sync ${options.key}:`, error)
+      );
+    });
+  }
+
+  private snapshot(value: T): T {
+    return structuredClone(value);
+  }
+
+  async load(): Promise<T> {
+    const value = await this.options.load();
+    this.base = this.snapshot(value);
+    this.options.set(value);
+    return value;
+  }
+
+  private async reload(): Promise<void> {
+    const remote = await this.options.load();
+    const base = this.base ?? remote;
+    this.options.set(rebase(base, this.options.get(), remote));
+    this.base = this.snapshot(remote);
+    this.listeners.forEach((listener) => listener());
+  }
+
+  save(): void {
+    if (typeof window === "undefined") return;
+
+    const { key, get, set, revive } = this.options;
+    const local = this.snapshot(get());
+    const base = this.base ?? local;
+
+    syncService
+      .commit(key, base, local)
+      .then((stored) => {
+        const merged = revive ? revive(stored) : stored;
+        // Keep edits made while the commit was in flight
+        set(rebase(local, get(), merged));
+        this.base = this.snapshot(merged);
+      })
+      .catch((error) => console.error(`Failed to save ${key}:`, error));
+  }
+
+  // Fires after another tab's change has been merged into the cache
+  onRemoteChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
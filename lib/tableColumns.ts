@@ -0,0 +1,142 @@
+import { JobApplication, TableLayout } from "@/types/job";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import { currentStatusSince, daysSince } from "@/lib/exportFields";
+import { interviewStart, nextInterview } from "@/lib/interviews";
+
+export interface TableColumn {
+  id: string;
+  label: string;
+  sortValue: (job: JobApplication) => string | number | undefined;
+  numeric?: boolean; // right-aligned
+}
+
+const PRIORITY_RANK = { low: 1, medium: 2, high: 3 };
+
+const timeOf = (date?: string): number | undefined => {
+  const time = date ? new Date(date).getTime() : NaN;
+  return isNaN(time) ? undefined : time;
+};
+
+// The number in a free-text salary such as "$120,000"
+export const salaryOf = (value?: string): number | undefined => {
+  const amount = parseFloat((value || "").replace(/[^0-9.]/g, ""));
+  return isNaN(amount) ? undefined : amount;
+};
+
+// The next dated thing to do: an upcoming round on an open application,
+// otherwise the follow-up date
+export const nextActionFor = (
+  job: JobApplication
+): { label: string; date: string } | null => {
+  const interview = nextInterview(job);
+  const start = interview && interviewStart(interview);
+  if (interview && start && !pipelineStageService.isClosed(job.status)) {
+    return { label: interview.round, date: start.toISOString() };
+  }
+  if (job.followUpDate) return { label: "Follow up", date: job.followUpDate };
+  return null;
+};
+
+export const TABLE_COLUMNS: TableColumn[] = [
+  {
+    id: "company",
+    label: "Company",
+    sortValue: (job) => job.company.toLowerCase(),
+  },
+  { id: "role", label: "Role", sortValue: (job) => job.role.toLowerCase() },
+  {
+    id: "status",
+    label: "Status",
+    // Pipeline order rather than alphabetical
+    sortValue: (job) => pipelineStageService.getStage(job.status)?.order,
+  },
+  {
+    id: "daysInStatus",
+    label: "Days in status",
+    sortValue: (job) => daysSince(currentStatusSince(job)),
+    numeric: true,
+  },
+  {
+    id: "appliedDate",
+    label: "Applied",
+    sortValue: (job) => timeOf(job.appliedDate),
+  },
+  {
+    id: "salary",
+    label: "Salary",
+    sortValue: (job) =>
+      salaryOf(job.salaryRange?.max) ?? salaryOf(job.salaryRange?.min),
+    numeric: true,
+  },
+  {
+    id: "priority",
+    label: "Priority",
+    sortValue: (job) => PRIORITY_RANK[job.priority || "medium"],
+  },
+  {
+    id: "nextAction",
+    label: "Next action",
+    sortValue: (job) => timeOf(nextActionFor(job)?.date),
+  },
+  {
+    id: "contacts",
+    label: "Contacts",
+    sortValue: (job) => job.contacts?.length || 0,
+    numeric: true,
+  },
+];
+
+export const DEFAULT_TABLE_LAYOUT: TableLayout = {
+  columns: TABLE_COLUMNS.map((column) => column.id),
+  hidden: [],
+  sort: [],
+};
+
+// Drops columns that no longer exist and appends ones added since the
+// layout was saved
+export const normalizeLayout = (layout: TableLayout | null): TableLayout => {
+  if (!layout) return DEFAULT_TABLE_LAYOUT;
+
+  const known = new Set(TABLE_COLUMNS.map((column) => column.id));
+  const columns = (layout.columns || []).filter((id) => known.has(id));
+  TABLE_COLUMNS.forEach((column) => {
+    if (!columns.includes(column.id)) columns.push(column.id);
+  });
+
+  return {
+    columns,
+    hidden: (layout.hidden || []).filter((id) => known.has(id)),
+    sort: (layout.sort || []).filter((key) => known.has(key.column)),
+  };
+};
+
+// Sorts by each key in turn; empty values go last whatever the order.
+// Rows that tie on every key keep their incoming order.
+export const sortRows = (
+  jobs: JobApplication[],
+  sort: TableLayout["sort"]
+): JobApplication[] => {
+  if (sort.length === 0) return jobs;
+
+  return [...jobs].sort((a, b) => {
+    for (const key of sort) {
+      const column = TABLE_COLUMNS.find((item) => item.id === key.column);
+      if (!column) continue;
+
+      const aValue = column.sortValue(a);
+      const bValue = column.sortValue(b);
+      if (aValue === bValue) continue;
+      if (aValue === undefined) return 1;
+      if (bValue === undefined) return -1;
+
+      const comparison =
+        typeof aValue === "string" && typeof bValue === "string"
+          ? aValue.localeCompare(bValue)
+          : aValue < bValue
+            ? -1
+            : 1;
+      return key.order === "desc" ? -comparison : comparison;
+    }
+    return 0;
+  });
+};
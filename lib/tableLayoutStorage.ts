@@ -0,0 +1,34 @@
+import { TableLayout } from "@/types/job";
+import { storage } from "@/lib/storageAdapter";
+import { syncService } from "@/lib/syncService";
+
+const STORAGE_KEY = "applitrack-table-layout";
+
+export const tableLayoutStorage = {
+  async get(): Promise<TableLayout | null> {
+    if (typeof window === "undefined") return null;
+
+    try {
+      return await storage.getItem<TableLayout>(STORAGE_KEY);
+    } catch (error) {
+      console.error("Error loading table layout:", error);
+      return null;
+    }
+  },
+
+  async save(layout: TableLayout): Promise<void> {
+    if (typeof window === "undefined") return;
+
+    try {
+      await storage.setItem(STORAGE_KEY, layout);
+      syncService.publish(STORAGE_KEY);
+    } catch (error) {
+      console.error("Error saving table layout:", error);
+    }
+  },
+
+  // Runs `listener` when another tab changes the layout
+  subscribe(listener: () => void): () => void {
+    return syncService.subscribe(STORAGE_KEY, listener);
+  },
+};
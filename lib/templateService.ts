@@ -1,4 +1,6 @@
 import { JobApplication } from "@/types/job";
+import { storage } from "@/lib/storageAdapter";
+import { SyncedStore } from "@/lib/syncService";
 
 export interface ApplicationTemplate {
   id: string;
@@ -24,43 +26,77 @@ class ApplicationTemplateService {
   private readonly CATEGORIES_KEY = "applitrack-template-categories";
   private templates: ApplicationTemplate[] = [];
   private categories: TemplateCategory[] = [];
+  private templateStore: SyncedStore<ApplicationTemplate[]>;
+  private categoryStore: SyncedStore<TemplateCategory[]>;
+  private listeners: Set<() => void> = new Set();
+  readonly ready: Promise<void>;
 
   constructor() {
-    this.templates = this.loadTemplates();
-    this.categories = this.loadCategories();
+    this.templateStore = new SyncedStore({
+      key: this.STORAGE_KEY,
+      load: () => this.loadTemplates(),
+      get: () => this.templates,
+      set: (templates) => (this.templates = templates),
+    });
+    this.categoryStore = new SyncedStore({
+      key: this.CATEGORIES_KEY,
+      load: () => this.loadCategories(),
+      get: () => this.categories,
+      set: (categories) => (this.categories = categories),
+    });
+    this.templateStore.onRemoteChange(() => this.notifyChange());
+    this.categoryStore.onRemoteChange(() => this.notifyChange());
+    this.ready = this.initialize();
+  }
+
+  private async initialize(): Promise<void> {
+    await this.templateStore.load();
+    await this.categoryStore.load();
     this.initializeDefaultTemplates();
   }
 
-  private loadTemplates(): ApplicationTemplate[] {
+  private async loadTemplates(): Promise<ApplicationTemplate[]> {
     if (typeof window === "undefined") return [];
 
     try {
-      const saved = localStorage.getItem(this.STORAGE_KEY);
-      return saved ? JSON.parse(saved) : [];
+      return (
+        (await storage.getItem<ApplicationTemplate[]>(this.STORAGE_KEY)) || []
+      );
     } catch {
       return [];
     }
   }
 
-  private loadCategories(): TemplateCategory[] {
+  private async loadCategories(): Promise<TemplateCategory[]> {
     if (typeof window === "undefined") return [];
 
     try {
-      const saved = localStorage.getItem(this.CATEGORIES_KEY);
-      return saved ? JSON.parse(saved) : [];
+      return (
+        (await storage.getItem<TemplateCategory[]>(this.CATEGORIES_KEY)) || []
+      );
     } catch {
       return [];
     }
   }
 
   private saveTemplates(): void {
-    if (typeof window === "undefined") return;
-    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.templates));
+    this.templateStore.save();
   }
 
   private saveCategories(): void {
-    if (typeof window === "undefined") return;
-    localStorage.setItem(this.CATEGORIES_KEY, JSON.stringify(this.categories));
+    this.categoryStore.save();
+  }
+
+  private notifyChange(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  // Fires when another tab changes templates or categories
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
   }
 
   private initializeDefaultTemplates(): void {
@@ -0,0 +1,207 @@
+import type { StorageAdapter } from "@/lib/storageAdapter";
+
+// Passphrase encryption for everything the storage adapters persist. The
+// key only ever lives in memory; while the vault is locked, reads and
+// writes wait until it is unlocked.
+
+export const VAULT_CONFIG_KEY = "applitrack-vault";
+export const VAULT_ITERATIONS = 600000;
+
+interface VaultEnvelope {
+  __vault: 1;
+  iv: string; // base64
+  data: string; // base64 AES-GCM ciphertext
+  blobType?: string; // set when the sealed value was a Blob
+}
+
+// Kept in plain localStorage so it can be read before unlocking
+export interface VaultConfig {
+  salt: string; // base64
+  iterations: number;
+  check: VaultEnvelope; // a known value, to tell a wrong passphrase apart
+  autoLockMinutes: number; // 0 never locks on inactivity
+}
+
+export class VaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VaultError";
+  }
+}
+
+export const isVaultEnvelope = (value: unknown): value is VaultEnvelope =>
+  typeof value === "object" && value !== null && "__vault" in value;
+
+// Chunked, since spreading a large file into fromCharCode overflows the stack
+export function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export const fromBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+export const randomBytes = (length: number): Uint8Array =>
+  crypto.getRandomValues(new Uint8Array(length));
+
+export async function deriveVaultKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = VAULT_ITERATIONS
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt: salt as BufferSource, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encryptBytes(
+  bytes: Uint8Array,
+  key: CryptoKey
+): Promise<{ iv: Uint8Array; data: Uint8Array }> {
+  const iv = randomBytes(12);
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: iv as BufferSource },
+    key,
+    bytes as BufferSource
+  );
+  return { iv, data: new Uint8Array(data) };
+}
+
+// AES-GCM is authenticated, so a wrong key or damaged data both fail here
+export async function decryptBytes(
+  data: Uint8Array,
+  iv: Uint8Array,
+  key: CryptoKey
+): Promise<Uint8Array> {
+  try {
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: iv as BufferSource },
+        key,
+        data as BufferSource
+      )
+    );
+  } catch {
+    throw new VaultError("Wrong passphrase or damaged data");
+  }
+}
+
+export async function sealValue(
+  value: unknown,
+  key: CryptoKey
+): Promise<VaultEnvelope> {
+  const isBlob = value instanceof Blob;
+  const bytes = isBlob
+    ? new Uint8Array(await value.arrayBuffer())
+    : new TextEncoder().encode(JSON.stringify(value));
+  const { iv, data } = await encryptBytes(bytes, key);
+
+  return {
+    __vault: 1,
+    iv: toBase64(iv),
+    data: toBase64(data),
+    ...(isBlob ? { blobType: value.type } : {}),
+  };
+}
+
+export async function openValue(
+  envelope: VaultEnvelope,
+  key: CryptoKey
+): Promise<unknown> {
+  const bytes = await decryptBytes(
+    fromBase64(envelope.data),
+    fromBase64(envelope.iv),
+    key
+  );
+  return envelope.blobType !== undefined
+    ? new Blob([bytes as BlobPart], { type: envelope.blobType })
+    : JSON.parse(new TextDecoder().decode(bytes));
+}
+
+export function readVaultConfig(): VaultConfig | null {
+  if (typeof window === "undefined") return null;
+  const stored = localStorage.getItem(VAULT_CONFIG_KEY);
+  return stored ? (JSON.parse(stored) as VaultConfig) : null;
+}
+
+export function writeVaultConfig(config: VaultConfig | null): void {
+  if (config) {
+    localStorage.setItem(VAULT_CONFIG_KEY, JSON.stringify(config));
+  } else {
+    localStorage.removeItem(VAULT_CONFIG_KEY);
+  }
+}
+
+let currentKey: CryptoKey | null = null;
+let waiting: ((key: CryptoKey) => void)[] = [];
+
+export const getVaultKey = (): CryptoKey | null => currentKey;
+
+export function setVaultKey(key: CryptoKey | null): void {
+  currentKey = key;
+  if (!key) return;
+  waiting.forEach((resolve) => resolve(key));
+  waiting = [];
+}
+
+const waitForVaultKey = (): Promise<CryptoKey> =>
+  currentKey
+    ? Promise.resolve(currentKey)
+    : new Promise((resolve) => waiting.push(resolve));
+
+// Seals values on the way in while the vault is enabled. Plain values are
+// still read as they are, so enabling and disabling can be interrupted
+// without losing anything.
+export class VaultStorageAdapter implements StorageAdapter {
+  constructor(private readonly inner: StorageAdapter) {}
+
+  async getItem<T>(key: string): Promise<T | null> {
+    const stored = await this.inner.getItem<unknown>(key);
+    if (!isVaultEnvelope(stored)) return stored as T | null;
+    return (await openValue(stored, await waitForVaultKey())) as T;
+  }
+
+  async setItem<T>(key: string, value: T): Promise<void> {
+    if (!readVaultConfig()) return this.inner.setItem(key, value);
+    await this.inner.setItem(
+      key,
+      await sealValue(value, await waitForVaultKey())
+    );
+  }
+
+  async removeItem(key: string): Promise<void> {
+    return this.inner.removeItem(key);
+  }
+
+  async keys(): Promise<string[]> {
+    return this.inner.keys();
+  }
+
+  // Seals a plain value, or opens a sealed one, in place
+  async rewriteItem(key: string, seal: boolean): Promise<void> {
+    const stored = await this.inner.getItem<unknown>(key);
+    if (stored === null || isVaultEnvelope(stored) === seal) return;
+
+    const vaultKey = await waitForVaultKey();
+    await this.inner.setItem(
+      key,
+      seal
+        ? await sealValue(stored, vaultKey)
+        : await openValue(stored as VaultEnvelope, vaultKey)
+    );
+  }
+}
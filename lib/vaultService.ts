@@ -0,0 +1,176 @@
+import { getBlobStorageAdapter, getStorageAdapter } from "@/lib/storageAdapter";
+import { syncService } from "@/lib/syncService";
+import {
+  VAULT_CONFIG_KEY,
+  VAULT_ITERATIONS,
+  VaultConfig,
+  VaultError,
+  deriveVaultKey,
+  fromBase64,
+  getVaultKey,
+  openValue,
+  randomBytes,
+  readVaultConfig,
+  sealValue,
+  setVaultKey,
+  toBase64,
+  writeVaultConfig,
+} from "@/lib/vault";
+
+const CHECK_VALUE = "applitrack-vault";
+const MIN_PASSPHRASE_LENGTH = 8;
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"];
+
+class VaultService {
+  private listeners: Set<() => void> = new Set();
+
+  constructor() {
+    // Another tab enabled, disabled or locked the vault; starting over is
+    // the only way to drop every decrypted copy held in memory
+    syncService.subscribe(VAULT_CONFIG_KEY, () => window.location.reload());
+  }
+
+  isEnabled(): boolean {
+    return readVaultConfig() !== null;
+  }
+
+  isLocked(): boolean {
+    return this.isEnabled() && getVaultKey() === null;
+  }
+
+  getAutoLockMinutes(): number {
+    return readVaultConfig()?.autoLockMinutes ?? 0;
+  }
+
+  setAutoLockMinutes(minutes: number): void {
+    const config = readVaultConfig();
+    if (!config) return;
+    writeVaultConfig({ ...config, autoLockMinutes: minutes });
+    this.notify();
+  }
+
+  private async keyFor(
+    passphrase: string,
+    config: VaultConfig
+  ): Promise<CryptoKey> {
+    const key = await deriveVaultKey(
+      passphrase,
+      fromBase64(config.salt),
+      config.iterations
+    );
+    try {
+      if ((await openValue(config.check, key)) === CHECK_VALUE) return key;
+    } catch {
+      // Falls through to the error below
+    }
+    throw new VaultError("Wrong passphrase");
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    const config = readVaultConfig();
+    if (!config) return;
+
+    setVaultKey(await this.keyFor(passphrase, config));
+    this.notify();
+  }
+
+  // Reloading drops the key along with everything decrypted in memory.
+  // `everywhere` locks the other open tabs too.
+  lock(everywhere: boolean = true): void {
+    if (!this.isEnabled()) return;
+    setVaultKey(null);
+    if (everywhere) syncService.publish(VAULT_CONFIG_KEY);
+    window.location.reload();
+  }
+
+  // Seals (or opens) every stored value, one store at a time
+  private async rewriteAll(seal: boolean): Promise<void> {
+    for (const adapter of [
+      await getStorageAdapter(),
+      await getBlobStorageAdapter(),
+    ]) {
+      for (const key of await adapter.keys()) {
+        await syncService.withLock(key, () => adapter.rewriteItem(key, seal));
+      }
+    }
+  }
+
+  async enable(passphrase: string, autoLockMinutes: number): Promise<void> {
+    if (this.isEnabled()) throw new VaultError("Encryption is already on");
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new VaultError(
+        `Use a passphrase of at least ${MIN_PASSPHRASE_LENGTH} characters`
+      );
+    }
+
+    const salt = randomBytes(16);
+    const key = await deriveVaultKey(passphrase, salt, VAULT_ITERATIONS);
+    setVaultKey(key);
+    // From here on new writes are sealed, so the rewrite can't miss any
+    writeVaultConfig({
+      salt: toBase64(salt),
+      iterations: VAULT_ITERATIONS,
+      check: await sealValue(CHECK_VALUE, key),
+      autoLockMinutes,
+    });
+    await this.rewriteAll(true);
+
+    syncService.publish(VAULT_CONFIG_KEY);
+    this.notify();
+  }
+
+  async disable(passphrase: string): Promise<void> {
+    const config = readVaultConfig();
+    if (!config) return;
+
+    setVaultKey(await this.keyFor(passphrase, config));
+    await this.rewriteAll(false);
+    writeVaultConfig(null);
+    // Catches anything sealed by writes that raced the first pass
+    await this.rewriteAll(false);
+
+    syncService.publish(VAULT_CONFIG_KEY);
+    this.notify();
+  }
+
+  // Locks after `autoLockMinutes` without input; returns a cleanup function
+  watchActivity(): () => void {
+    let lastActivity = Date.now();
+    const onActivity = () => (lastActivity = Date.now());
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, onActivity, { passive: true })
+    );
+
+    const timer = window.setInterval(() => {
+      const minutes = this.getAutoLockMinutes();
+      if (
+        minutes > 0 &&
+        !this.isLocked() &&
+        Date.now() - lastActivity >= minutes * 60 * 1000
+      ) {
+        // Other tabs may still be in use
+        this.lock(false);
+      }
+    }, 15 * 1000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) =>
+        window.removeEventListener(event, onActivity)
+      );
+      window.clearInterval(timer);
+    };
+  }
+
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const vaultService = new VaultService();
@@ -0,0 +1,243 @@
+import { Contact, JobApplication } from "@/types/job";
+import {
+  ICSComponent,
+  ICSProperty,
+  escapeICSText,
+  findICSComponents,
+  parseICS,
+  stringifyICS,
+  unescapeICSText,
+} from "@/lib/ics";
+import { normalizeCompany } from "@/lib/calendarImport";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+
+// vCard 3.0 (RFC 2426) shares iCalendar's content line syntax, so cards are
+// built and read with the same helpers.
+
+export const VCARD_MIME_TYPE = "text/vcard;charset=utf-8";
+
+export interface VCardEntry {
+  contact: Contact;
+  company?: string; // written as ORG
+}
+
+export type ImportedContact = Omit<Contact, "id"> & { company?: string };
+
+export class VCardImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "VCardImportError";
+  }
+}
+
+const TYPE_LABELS: Record<Contact["type"], string> = {
+  recruiter: "Recruiter",
+  "hiring-manager": "Hiring Manager",
+  "team-member": "Team Member",
+  other: "Other",
+};
+
+const RECRUITER_TITLE =
+  /recruit|talent|sourc(er|ing)|human resources|\bhr\b|people (partner|operations)/i;
+const MANAGER_TITLE =
+  /manager|\bhead of\b|director|\blead\b|\bvp\b|vice president|chief|\bc[etio]o\b|founder/i;
+
+// Recruiting titles win over seniority: "Talent Acquisition Manager" is
+// still a recruiter
+export const inferContactType = (title?: string): Contact["type"] => {
+  if (!title) return "other";
+  if (RECRUITER_TITLE.test(title)) return "recruiter";
+  if (MANAGER_TITLE.test(title)) return "hiring-manager";
+  return "other";
+};
+
+const text = (name: string, value: string): ICSProperty => ({
+  name,
+  value: escapeICSText(value),
+});
+
+// N is family;given;additional;prefix;suffix. Contacts only have a full
+// name, so the last word is taken as the family name.
+const structuredName = (name: string): string => {
+  const parts = name.trim().split(/\s+/);
+  const family = parts.length > 1 ? parts.pop()! : "";
+  return [family, parts.join(" "), "", "", ""].map(escapeICSText).join(";");
+};
+
+const linkedInURL = (value: string): string =>
+  /^https?:\/\//i.test(value) ? value : `https://${value}`;
+
+function contactCard({ contact, company }: VCardEntry): ICSComponent {
+  const properties: ICSProperty[] = [
+    { name: "VERSION", value: "3.0" },
+    { name: "UID", value: contact.id },
+    text("FN", contact.name),
+    { name: "N", value: structuredName(contact.name) },
+  ];
+
+  if (company) properties.push(text("ORG", company));
+  if (contact.title) properties.push(text("TITLE", contact.title));
+  if (contact.email) {
+    properties.push({
+      name: "EMAIL",
+      params: { TYPE: "WORK" },
+      value: contact.email,
+    });
+  }
+  if (contact.phone) {
+    properties.push({
+      name: "TEL",
+      params: { TYPE: "WORK" },
+      value: contact.phone,
+    });
+  }
+  if (contact.linkedIn) {
+    const url = linkedInURL(contact.linkedIn);
+    properties.push({ name: "URL", value: url });
+    properties.push({
+      name: "X-SOCIALPROFILE",
+      params: { TYPE: "linkedin" },
+      value: url,
+    });
+  }
+  // Keeps the contact type across an export and re-import
+  properties.push(text("CATEGORIES", TYPE_LABELS[contact.type]));
+
+  return { type: "VCARD", properties };
+}
+
+export function contactsToVCard(entries: VCardEntry[]): string {
+  return entries.map((entry) => stringifyICS(contactCard(entry))).join("");
+}
+
+// Apple and Google prefix grouped properties, e.g. "item1.EMAIL"
+const propertyName = (property: ICSProperty) =>
+  property.name.replace(/^[^.]*\./, "");
+
+// Structured values (N, ORG) separate components with unescaped semicolons
+function splitComponents(value: string): string[] {
+  const parts = [""];
+  for (let index = 0; index < value.length; index++) {
+    const char = value[index];
+    if (char === "\\") {
+      parts[parts.length - 1] += char + (value[++index] ?? "");
+    } else if (char === ";") {
+      parts.push("");
+    } else {
+      parts[parts.length - 1] += char;
+    }
+  }
+  return parts.map((part) => unescapeICSText(part).trim());
+}
+
+// vCard 2.1 exports from phones still use quoted-printable for non-ASCII
+const decodeValue = (property: ICSProperty): string => {
+  if (property.params?.ENCODING?.toUpperCase() !== "QUOTED-PRINTABLE") {
+    return property.value;
+  }
+  const bytes: number[] = [];
+  property.value.replace(/=([0-9A-F]{2})|[\s\S]/gi, (char, hex) => {
+    bytes.push(hex ? parseInt(hex, 16) : char.charCodeAt(0));
+    return "";
+  });
+  return new TextDecoder().decode(new Uint8Array(bytes));
+};
+
+const isPreferred = (property: ICSProperty) =>
+  /\bpref\b/i.test(property.params?.TYPE || "") ||
+  property.params?.PREF !== undefined;
+
+function readCard(card: ICSComponent): ImportedContact | undefined {
+  const all = (name: string) =>
+    card.properties.filter((property) => propertyName(property) === name);
+  // Preferred values first, then in file order
+  const raw = (name: string) => {
+    const properties = all(name);
+    const property = properties.find(isPreferred) || properties[0];
+    return property ? decodeValue(property) : "";
+  };
+  const first = (name: string) => unescapeICSText(raw(name)).trim();
+
+  const [family = "", given = ""] = splitComponents(raw("N"));
+  const email = first("EMAIL").replace(/^mailto:/i, "");
+  const name =
+    first("FN") || [given, family].filter(Boolean).join(" ") || email;
+  if (!name) return undefined;
+
+  const title = first("TITLE") || first("ROLE") || undefined;
+  const linkedIn = [...all("URL"), ...all("X-SOCIALPROFILE")]
+    .map((property) => unescapeICSText(property.value).trim())
+    .find((value) => /linkedin\.com/i.test(value));
+  const categories = first("CATEGORIES").toLowerCase().split(",");
+  const labelledType = (Object.keys(TYPE_LABELS) as Contact["type"][]).find(
+    (type) => categories.includes(TYPE_LABELS[type].toLowerCase())
+  );
+
+  return {
+    name,
+    title,
+    email: email || undefined,
+    phone: first("TEL").replace(/^tel:/i, "") || undefined,
+    linkedIn,
+    type: labelledType || inferContactType(title),
+    // Only the organization name, not its units
+    company: splitComponents(raw("ORG"))[0] || undefined,
+  };
+}
+
+export function parseVCards(text: string): ImportedContact[] {
+  const cards = findICSComponents(parseICS(text), "VCARD");
+  if (cards.length === 0) {
+    throw new VCardImportError("No contacts found in the vCard file");
+  }
+
+  return cards
+    .map(readCard)
+    .filter((contact): contact is ImportedContact => !!contact);
+}
+
+const emailKey = (email?: string) => email?.trim().toLowerCase() || "";
+
+// Contacts not already present, compared by email. Contacts without an email
+// can't be matched and are always added.
+export function newContacts<T extends Omit<Contact, "id">>(
+  existing: Omit<Contact, "id">[],
+  imported: T[]
+): { added: T[]; duplicates: number } {
+  const seen = new Set(existing.map((contact) => emailKey(contact.email)));
+  const added: T[] = [];
+
+  imported.forEach((contact) => {
+    const key = emailKey(contact.email);
+    if (key && seen.has(key)) return;
+    if (key) seen.add(key);
+    added.push(contact);
+  });
+
+  return { added, duplicates: imported.length - added.length };
+}
+
+export const isVCardFile = (file: File): boolean =>
+  /^text\/(x-)?vcard/.test(file.type) || /\.(vcf|vcard)$/i.test(file.name);
+
+// Whether a card's ORG names this company; cards without one never match
+export const isSameCompany = (company: string | undefined, other: string) =>
+  !!company && normalizeCompany(company) === normalizeCompany(other);
+
+const isOpen = (job: JobApplication) =>
+  !job.archived && !pipelineStageService.isClosed(job.status);
+
+// The application a card belongs to by its ORG: open ones first, then the
+// most recently applied
+export function matchContactJob(
+  contact: ImportedContact,
+  jobs: JobApplication[]
+): JobApplication | undefined {
+  return jobs
+    .filter((job) => isSameCompany(contact.company, job.company))
+    .sort(
+      (a, b) =>
+        Number(isOpen(b)) - Number(isOpen(a)) ||
+        b.appliedDate.localeCompare(a.appliedDate)
+    )[0];
+}
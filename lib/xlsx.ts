@@ -0,0 +1,387 @@
+// Reads and writes plain .xlsx workbooks: typed cells, one frozen header
+// row per sheet, no formulas or formatting beyond dates.
+import { createZip, readZip } from "@/lib/zip";
+
+export type XLSXCell = string | number | boolean | Date | null | undefined;
+
+export interface XLSXSheet {
+  name: string;
+  rows: XLSXCell[][]; // first row is the header
+  widths?: number[]; // column widths in characters
+}
+
+export class XLSXError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "XLSXError";
+  }
+}
+
+export const XLSX_MIME_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+const DAY = 24 * 60 * 60 * 1000;
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+const MAX_CELL_TEXT = 32767;
+
+// Cell style indexes in styles.xml
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+const STYLE_DATETIME = 3;
+
+const escapeXML = (value: string): string =>
+  value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const unescapeXML = (value: string): string =>
+  value
+    .replace(/_x([0-9A-Fa-f]{4})_/g, (_, hex) =>
+      String.fromCharCode(parseInt(hex, 16))
+    )
+    .replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity) => {
+      if (entity[0] === "#") {
+        return String.fromCodePoint(
+          entity[1] === "x"
+            ? parseInt(entity.slice(2), 16)
+            : parseInt(entity.slice(1), 10)
+        );
+      }
+      return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[
+        entity as "lt" | "gt" | "amp" | "quot" | "apos"
+      ];
+    });
+
+const columnName = (index: number): string => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const columnIndex = (reference: string): number =>
+  reference
+    .replace(/\d+$/, "")
+    .split("")
+    .reduce((total, char) => total * 26 + char.charCodeAt(0) - 64, 0) - 1;
+
+// Spreadsheets have no time zones; dates keep their local wall-clock time
+const toSerial = (date: Date): number =>
+  (Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds()
+  ) -
+    EXCEL_EPOCH) /
+  DAY;
+
+const fromSerial = (serial: number): Date => {
+  const utc = new Date(Math.round((EXCEL_EPOCH + serial * DAY) / 1000) * 1000);
+  return new Date(
+    utc.getUTCFullYear(),
+    utc.getUTCMonth(),
+    utc.getUTCDate(),
+    utc.getUTCHours(),
+    utc.getUTCMinutes(),
+    utc.getUTCSeconds()
+  );
+};
+
+const attribute = (tag: string, name: string): string | undefined => {
+  const match = tag.match(new RegExp(`\\b${name}="([^"]*)"`));
+  return match ? unescapeXML(match[1]) : undefined;
+};
+
+// Concatenated text runs, skipping phonetic hints
+const textContent = (xml: string): string =>
+  Array.from(
+    xml
+      .replace(/<rPh\b[\s\S]*?<\/rPh>/g, "")
+      .matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>|<t\b[^>]*\/>/g)
+  )
+    .map((match) => unescapeXML(match[1] || ""))
+    .join("");
+
+function writeCell(value: XLSXCell, reference: string, header: boolean) {
+  if (value === null || value === undefined || value === "") return "";
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return "";
+    const serial = toSerial(value);
+    const style = serial % 1 === 0 ? STYLE_DATE : STYLE_DATETIME;
+    return `<c r="${reference}" s="${style}"><v>${serial}</v></c>`;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value)
+      ? `<c r="${reference}"><v>${value}</v></c>`
+      : "";
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  return `<c r="${reference}" t="inlineStr"${
+    header ? ` s="${STYLE_HEADER}"` : ""
+  }><is><t xml:space="preserve">${escapeXML(
+    value.slice(0, MAX_CELL_TEXT)
+  )}</t></is></c>`;
+}
+
+function writeSheet(sheet: XLSXSheet): string {
+  const columns = sheet.widths
+    ? `<cols>${sheet.widths
+        .map(
+          (width, index) =>
+            `<col min="${index + 1}" max="${
+              index + 1
+            }" width="${width}" customWidth="1"/>`
+        )
+        .join("")}</cols>`
+    : "";
+
+  const rows = sheet.rows
+    .map(
+      (row, rowIndex) =>
+        `<row r="${rowIndex + 1}">${row
+          .map((value, index) =>
+            writeCell(
+              value,
+              `${columnName(index)}${rowIndex + 1}`,
+              rowIndex === 0
+            )
+          )
+          .join("")}</row>`
+    )
+    .join("");
+
+  return (
+    XML_HEADER +
+    `<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">` +
+    '<sheetViews><sheetView workbookViewId="0">' +
+    '<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>' +
+    '<selection pane="bottomLeft"/>' +
+    "</sheetView></sheetViews>" +
+    '<sheetFormatPr defaultRowHeight="15"/>' +
+    columns +
+    `<sheetData>${rows}</sheetData>` +
+    "</worksheet>"
+  );
+}
+
+const STYLES_XML =
+  XML_HEADER +
+  `<styleSheet xmlns="${MAIN_NS}">` +
+  '<numFmts count="2">' +
+  '<numFmt numFmtId="164" formatCode="yyyy-mm-dd"/>' +
+  '<numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/>' +
+  "</numFmts>" +
+  '<fonts count="2">' +
+  '<font><sz val="11"/><name val="Calibri"/><family val="2"/></font>' +
+  '<font><b/><sz val="11"/><name val="Calibri"/><family val="2"/></font>' +
+  "</fonts>" +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill>' +
+  '<fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="4">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  "</cellXfs>" +
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+  "</styleSheet>";
+
+export function buildXLSX(sheets: XLSXSheet[]): Blob {
+  const sheetIds = sheets.map((_, index) => index + 1);
+
+  const contentTypes =
+    XML_HEADER +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheetIds
+      .map(
+        (id) =>
+          `<Override PartName="/xl/worksheets/sheet${id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join("") +
+    "</Types>";
+
+  const rootRels =
+    XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    `<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+    "</Relationships>";
+
+  const workbook =
+    XML_HEADER +
+    `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+    sheets
+      .map(
+        (sheet, index) =>
+          `<sheet name="${escapeXML(sheet.name.slice(0, 31))}" sheetId="${
+            sheetIds[index]
+          }" r:id="rId${sheetIds[index]}"/>`
+      )
+      .join("") +
+    "</sheets></workbook>";
+
+  const workbookRels =
+    XML_HEADER +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    sheetIds
+      .map(
+        (id) =>
+          `<Relationship Id="rId${id}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${id}.xml"/>`
+      )
+      .join("") +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+    "</Relationships>";
+
+  const zip = createZip([
+    { name: "[Content_Types].xml", data: contentTypes },
+    { name: "_rels/.rels", data: rootRels },
+    { name: "xl/workbook.xml", data: workbook },
+    { name: "xl/_rels/workbook.xml.rels", data: workbookRels },
+    { name: "xl/styles.xml", data: STYLES_XML },
+    ...sheets.map((sheet, index) => ({
+      name: `xl/worksheets/sheet${sheetIds[index]}.xml`,
+      data: writeSheet(sheet),
+    })),
+  ]);
+
+  return new Blob([zip as BlobPart], { type: XLSX_MIME_TYPE });
+}
+
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47,
+]);
+
+// Date formats have day, month, year or time tokens outside quoted text
+const isDateFormat = (code: string): boolean =>
+  /[dmyhs]/i.test(code.replace(/"[^"]*"|\[[^\]]*\]|\\./g, ""));
+
+// Style index -> whether cells with it hold dates
+function readDateStyles(xml: string | undefined): boolean[] {
+  if (!xml) return [];
+
+  const customFormats = new Map<number, string>();
+  for (const [tag] of xml.matchAll(/<numFmt\b[^>]*>/g)) {
+    customFormats.set(
+      Number(attribute(tag, "numFmtId")),
+      attribute(tag, "formatCode") || ""
+    );
+  }
+
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (!cellXfs) return [];
+
+  return Array.from(cellXfs[1].matchAll(/<xf\b[^>]*>/g)).map(([tag]) => {
+    const id = Number(attribute(tag, "numFmtId") || 0);
+    const custom = customFormats.get(id);
+    return custom !== undefined
+      ? isDateFormat(custom)
+      : BUILTIN_DATE_FORMATS.has(id);
+  });
+}
+
+function readSheet(
+  xml: string,
+  sharedStrings: string[],
+  dateStyles: boolean[]
+): XLSXCell[][] {
+  const rows: XLSXCell[][] = [];
+
+  for (const rowMatch of xml.matchAll(
+    /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g
+  )) {
+    const rowNumber = Number(attribute(rowMatch[1], "r")) || rows.length + 1;
+    const row: XLSXCell[] = [];
+
+    for (const cellMatch of (rowMatch[2] || "").matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    )) {
+      const [, attributes, body = ""] = cellMatch;
+      const reference = attribute(attributes, "r");
+      const index = reference ? columnIndex(reference) : row.length;
+      const type = attribute(attributes, "t");
+      const style = Number(attribute(attributes, "s") || 0);
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value: XLSXCell = null;
+
+      if (type === "inlineStr") {
+        value = textContent(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] || "");
+      } else if (raw !== undefined) {
+        const text = unescapeXML(raw);
+        if (type === "s") value = sharedStrings[Number(text)] ?? "";
+        else if (type === "str") value = text;
+        else if (type === "b") value = text === "1";
+        else if (type === "d") value = new Date(text);
+        else if (type === "e") value = null;
+        else if (dateStyles[style]) value = fromSerial(Number(text));
+        else value = Number(text);
+      }
+
+      while (row.length < index) row.push(null);
+      row[index] = value;
+    }
+
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = row;
+  }
+
+  return rows;
+}
+
+export async function readXLSX(
+  buffer: ArrayBuffer | Uint8Array
+): Promise<XLSXSheet[]> {
+  const files = await readZip(buffer);
+  const decoder = new TextDecoder();
+  const read = (path: string) => {
+    const data = files.get(path);
+    return data ? decoder.decode(data) : undefined;
+  };
+
+  const workbook = read("xl/workbook.xml");
+  if (!workbook) throw new XLSXError("Not an Excel workbook");
+
+  const targets = new Map<string, string>();
+  for (const [tag] of (read("xl/_rels/workbook.xml.rels") || "").matchAll(
+    /<Relationship\b[^>]*>/g
+  )) {
+    const target = attribute(tag, "Target") || "";
+    targets.set(
+      attribute(tag, "Id") || "",
+      target.startsWith("/") ? target.slice(1) : `xl/${target}`
+    );
+  }
+
+  const sharedStrings = Array.from(
+    (read("xl/sharedStrings.xml") || "").matchAll(/<si>([\s\S]*?)<\/si>/g)
+  ).map((match) => textContent(match[1]));
+  const dateStyles = readDateStyles(read("xl/styles.xml"));
+
+  return Array.from(workbook.matchAll(/<sheet\b[^>]*>/g)).map(([tag]) => {
+    const path = targets.get(attribute(tag, "r:id") || "");
+    const xml = path ? read(path) : undefined;
+    return {
+      name: attribute(tag, "name") || "",
+      rows: xml ? readSheet(xml, sharedStrings, dateStyles) : [],
+    };
+  });
+}
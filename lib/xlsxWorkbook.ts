@@ -0,0 +1,336 @@
+import { Contact, Document, JobApplication } from "@/types/job";
+import { XLSXCell, XLSXSheet } from "@/lib/xlsx";
+import { pipelineStageService } from "@/lib/pipelineStageService";
+import {
+  CSV_COLUMNS,
+  csvRowToJob,
+  guessCSVMapping,
+  missingCSVColumns,
+  toEnum,
+  toStage,
+} from "@/lib/csvColumns";
+import {
+  ExportField,
+  documentsFor,
+  resolveExportFields,
+  formatExportValue,
+} from "@/lib/exportFields";
+import { toLocalValue } from "@/lib/interviews";
+
+// Workbook layout shared by export and import: one sheet of applications,
+// plus one sheet per nested list joined back on "Application ID"
+const SHEETS = {
+  applications: "Applications",
+  statusHistory: "Status History",
+  contacts: "Contacts",
+  documents: "Documents",
+};
+
+const CONTACT_TYPES = [
+  "recruiter",
+  "hiring-manager",
+  "team-member",
+  "other",
+] as const;
+const DOCUMENT_TYPES = [
+  "resume",
+  "cover-letter",
+  "portfolio",
+  "other",
+] as const;
+
+const DATE_COLUMNS = new Set(["appliedDate", "interviewDate", "followUpDate"]);
+const NUMBER_COLUMNS = new Set(["salaryMin", "salaryMax"]);
+
+const WIDTHS: Record<string, number> = {
+  company: 24,
+  role: 28,
+  workLocation: 20,
+  jobPostingUrl: 36,
+  interviewLink: 36,
+  notes: 48,
+};
+
+const normalizeHeader = (header: XLSXCell): string =>
+  String(header ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+// yyyy-mm-dd strings are local dates; new Date() would read them as UTC
+const toCellDate = (value: string | undefined): XLSXCell => {
+  if (!value) return null;
+  const dateOnly = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = dateOnly
+    ? new Date(
+        Number(dateOnly[1]),
+        Number(dateOnly[2]) - 1,
+        Number(dateOnly[3])
+      )
+    : new Date(value);
+  return isNaN(date.getTime()) ? value : date;
+};
+
+// "85,000" becomes a number; ranges like "80k" stay text
+const toCellNumber = (value: string | undefined): XLSXCell => {
+  if (!value) return null;
+  return /^\s*-?[\d,]+(\.\d+)?\s*$/.test(value)
+    ? Number(value.replace(/,/g, ""))
+    : value;
+};
+
+const cellText = (value: XLSXCell): string => {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    // Midnight means a plain date; interview times have to survive a
+    // round trip, or re-imports show every timed row as changed
+    const midnight = value.getHours() === 0 && value.getMinutes() === 0;
+    return toLocalValue(value, midnight);
+  }
+  return String(value);
+};
+
+const cellDateTime = (value: XLSXCell): string | undefined => {
+  if (value instanceof Date) return value.toISOString();
+  const date = toCellDate(cellText(value) || undefined);
+  return date instanceof Date ? date.toISOString() : undefined;
+};
+
+const cellBoolean = (value: XLSXCell): boolean =>
+  value === true || /^(true|yes|y|1)$/i.test(cellText(value).trim());
+
+function applicationsSheet(jobs: JobApplication[]): XLSXSheet {
+  return {
+    name: SHEETS.applications,
+    widths: [38, ...CSV_COLUMNS.map((column) => WIDTHS[column.id] || 14), 10],
+    rows: [
+      ["ID", ...CSV_COLUMNS.map((column) => column.header), "Archived"],
+      ...jobs.map((job) => [
+        job.id,
+        ...CSV_COLUMNS.map((column) => {
+          const value = column.get(job);
+          if (DATE_COLUMNS.has(column.id)) return toCellDate(value);
+          if (NUMBER_COLUMNS.has(column.id)) return toCellNumber(value);
+          return value || null;
+        }),
+        !!job.archived,
+      ]),
+    ],
+  };
+}
+
+// Selected export fields on a single sheet; for reading, not re-importing
+function fieldsSheet(jobs: JobApplication[], fields: ExportField[]): XLSXSheet {
+  const cell = (field: ExportField, job: JobApplication): XLSXCell => {
+    const value = field.value(job);
+    if (typeof value === "string" && field.group === "Dates") {
+      return toCellDate(value);
+    }
+    if (typeof value === "number" || typeof value === "boolean") return value;
+    if (NUMBER_COLUMNS.has(field.id)) {
+      return toCellNumber(formatExportValue(value));
+    }
+    return field.text ? field.text(job) : formatExportValue(value) || null;
+  };
+
+  return {
+    name: SHEETS.applications,
+    widths: fields.map((field) => Math.round((field.width || 1) * 14)),
+    rows: [
+      fields.map((field) => field.label),
+      ...jobs.map((job) => fields.map((field) => cell(field, job))),
+    ],
+  };
+}
+
+export function jobsToWorkbook(
+  jobs: JobApplication[],
+  fieldIds?: string[]
+): XLSXSheet[] {
+  if (fieldIds) return [fieldsSheet(jobs, resolveExportFields(fieldIds))];
+
+  return [
+    applicationsSheet(jobs),
+    {
+      name: SHEETS.statusHistory,
+      widths: [38, 24, 28, 14, 18, 48, 38],
+      rows: [
+        ["Application ID", "Company", "Role", "Status", "Date", "Notes", "ID"],
+        ...jobs.flatMap((job) =>
+          (job.statusHistory || []).map((entry) => [
+            job.id,
+            job.company,
+            job.role,
+            pipelineStageService.getLabel(entry.status),
+            toCellDate(entry.date),
+            entry.notes || null,
+            entry.id,
+          ])
+        ),
+      ],
+    },
+    {
+      name: SHEETS.contacts,
+      widths: [38, 24, 24, 24, 16, 30, 18, 36, 38],
+      rows: [
+        [
+          "Application ID",
+          "Company",
+          "Name",
+          "Title",
+          "Type",
+          "Email",
+          "Phone",
+          "LinkedIn",
+          "ID",
+        ],
+        ...jobs.flatMap((job) =>
+          (job.contacts || []).map((contact) => [
+            job.id,
+            job.company,
+            contact.name,
+            contact.title || null,
+            contact.type,
+            contact.email || null,
+            contact.phone || null,
+            contact.linkedIn || null,
+            contact.id,
+          ])
+        ),
+      ],
+    },
+    {
+      name: SHEETS.documents,
+      widths: [38, 24, 32, 14, 14, 12, 24, 36, 38],
+      rows: [
+        [
+          "Application ID",
+          "Company",
+          "Name",
+          "Type",
+          "Upload Date",
+          "File Size",
+          "MIME Type",
+          "URL",
+          "ID",
+        ],
+        ...jobs.flatMap((job) =>
+          documentsFor(job).map((doc) => [
+            job.id,
+            job.company,
+            doc.name,
+            doc.type,
+            toCellDate(doc.uploadDate),
+            doc.fileSize ?? null,
+            doc.mimeType || null,
+            doc.url || null,
+            doc.id,
+          ])
+        ),
+      ],
+    },
+  ];
+}
+
+const findSheet = (sheets: XLSXSheet[], name: string) =>
+  sheets.find((sheet) => normalizeHeader(sheet.name) === normalizeHeader(name));
+
+// Rows of a child sheet as header -> cell records, keyed by application ID
+function groupRows(
+  sheet: XLSXSheet | undefined
+): Map<string, Record<string, XLSXCell>[]> {
+  const groups = new Map<string, Record<string, XLSXCell>[]>();
+  if (!sheet) return groups;
+
+  const [headers = [], ...rows] = sheet.rows;
+  const keys = headers.map(normalizeHeader);
+
+  rows.forEach((row) => {
+    const record: Record<string, XLSXCell> = {};
+    keys.forEach((key, index) => (record[key] = row[index] ?? null));
+
+    const applicationId = cellText(record.applicationid);
+    if (!applicationId) return;
+    groups.set(applicationId, [...(groups.get(applicationId) || []), record]);
+  });
+
+  return groups;
+}
+
+export function workbookToJobs(sheets: XLSXSheet[]): JobApplication[] {
+  const sheet = findSheet(sheets, SHEETS.applications) || sheets[0];
+  if (!sheet || sheet.rows.length === 0) {
+    throw new Error("The workbook has no applications sheet");
+  }
+
+  // The applications sheet goes through the same header matching as CSV
+  const [headerRow, ...rows] = sheet.rows;
+  const headers = headerRow.map(cellText);
+  const mapping = guessCSVMapping(headers);
+  const missing = missingCSVColumns(mapping);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing columns: ${missing.map((column) => column.header).join(", ")}`
+    );
+  }
+
+  const idIndex = headers.findIndex(
+    (header) => normalizeHeader(header) === "id"
+  );
+  const archivedIndex = headers.findIndex(
+    (header) => normalizeHeader(header) === "archived"
+  );
+
+  const history = groupRows(findSheet(sheets, SHEETS.statusHistory));
+  const contacts = groupRows(findSheet(sheets, SHEETS.contacts));
+  const documents = groupRows(findSheet(sheets, SHEETS.documents));
+
+  return rows
+    .filter((row) => row.some((value) => cellText(value).trim() !== ""))
+    .map((row) => {
+      const job = csvRowToJob(row.map(cellText), mapping);
+      const sourceId = idIndex === -1 ? "" : cellText(row[idIndex]).trim();
+      if (sourceId) job.id = sourceId;
+      if (archivedIndex !== -1) job.archived = cellBoolean(row[archivedIndex]);
+
+      const historyRows = history.get(sourceId);
+      if (historyRows) {
+        job.statusHistory = historyRows.map((record) => ({
+          id: cellText(record.id) || crypto.randomUUID(),
+          status: toStage(cellText(record.status)),
+          date: cellDateTime(record.date) || new Date().toISOString(),
+          notes: cellText(record.notes) || undefined,
+        }));
+      }
+
+      const contactRows = contacts.get(sourceId);
+      if (contactRows) {
+        job.contacts = contactRows.map((record): Contact => ({
+          id: cellText(record.id) || crypto.randomUUID(),
+          name: cellText(record.name),
+          title: cellText(record.title) || undefined,
+          type: toEnum(cellText(record.type), CONTACT_TYPES, "other")!,
+          email: cellText(record.email) || undefined,
+          phone: cellText(record.phone) || undefined,
+          linkedIn: cellText(record.linkedin) || undefined,
+        }));
+      }
+
+      const documentRows = documents.get(sourceId);
+      if (documentRows) {
+        job.documents = documentRows.map((record): Document => ({
+          id: cellText(record.id) || crypto.randomUUID(),
+          name: cellText(record.name),
+          type: toEnum(cellText(record.type), DOCUMENT_TYPES, "other")!,
+          uploadDate:
+            cellDateTime(record.uploaddate) || new Date().toISOString(),
+          fileSize:
+            typeof record.filesize === "number" ? record.filesize : undefined,
+          mimeType: cellText(record.mimetype) || undefined,
+          url: cellText(record.url) || undefined,
+          jobId: job.id,
+        }));
+      }
+
+      return job;
+    });
+}
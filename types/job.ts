@@ -10,15 +10,18 @@ export interface JobApplication {
   workLocation: string;
   jobType: "full-time" | "part-time" | "contract" | "freelance" | "internship";
   workMode: "remote" | "on-site" | "hybrid";
-  status: "applied" | "shortlisted" | "interview" | "rejected" | "offered";
-  interviewLink?: string;
+  status: string; // a PipelineStage id
+  interviewLink?: string; // the next interview's link; see `interviews`
   appliedDate: string;
   notes?: string;
   category?: string; // e.g., "Software Engineering", "Marketing", "Design"
   experienceLevel?: "entry" | "mid" | "senior" | "lead" | "executive";
   jobPostingUrl?: string;
   // New fields for enhanced features
-  interviewDate?: string;
+  interviewDate?: string; // the next interview, kept in step with `interviews`
+  interviews?: Interview[];
+  offer?: Offer;
+  outcome?: ApplicationOutcome; // set while the application is in a lost stage
   statusHistory?: StatusHistoryEntry[];
   contacts?: Contact[];
   documents?: Document[];
@@ -34,6 +37,84 @@ export interface StatusHistoryEntry {
   notes?: string;
 }
 
+export type InterviewFormat =
+  "phone" | "video" | "onsite" | "take-home" | "other";
+export type InterviewOutcome = "pending" | "passed" | "failed" | "cancelled";
+
+// One round of an application's interview process
+export interface Interview {
+  id: string;
+  round: string; // e.g. "Recruiter screen", "Technical 2"
+  scheduledAt: string; // yyyy-mm-dd, or yyyy-mm-ddThh:mm wall time in timeZone
+  timeZone?: string; // IANA zone; the user's own when unset
+  durationMinutes?: number;
+  format: InterviewFormat;
+  interviewerIds?: string[]; // Contact ids on the same application
+  link?: string;
+  prepNotes?: string;
+  reflection?: string; // written up afterwards
+  outcome: InterviewOutcome;
+  calendarUid?: string; // the invite it came from, so re-imports update it
+}
+
+export type ClosedBy = "me" | "employer";
+export type OutcomeReason =
+  | "no-response"
+  | "skills-gap"
+  | "experience-level"
+  | "compensation"
+  | "role-filled"
+  | "position-cancelled"
+  | "culture-fit"
+  | "location"
+  | "other-offer"
+  | "role-mismatch"
+  | "company-concerns"
+  | "process-too-long"
+  | "other";
+
+// How an application was lost, recorded when it enters a closed-lost stage
+export interface ApplicationOutcome {
+  closedBy: ClosedBy;
+  stage: string; // the stage it was at before closing
+  reason?: OutcomeReason; // unset when it closed without one being picked
+  feedback?: string;
+  date: string;
+}
+
+export interface OfferEquity {
+  grantValue: number; // the whole grant, in the offer's currency
+  vesting: number[]; // percent of the grant vesting in each year
+  notes?: string; // e.g. "1 year cliff, then monthly"
+}
+
+export interface OfferNegotiationEntry {
+  id: string;
+  date: string;
+  from: "me" | "employer";
+  note: string; // what was asked for or offered
+}
+
+// What was offered, in the offer's own currency. Amounts are yearly
+// unless noted.
+export interface Offer {
+  currency: string;
+  baseSalary: number;
+  bonus?: number; // target annual bonus
+  equity?: OfferEquity;
+  signOnBonus?: number; // paid once
+  benefitsNotes?: string;
+  startDate?: string;
+  expiryDate?: string; // when the offer lapses
+  negotiation?: OfferNegotiationEntry[]; // oldest first
+}
+
+// Rates for comparing offers: one unit of each currency in `base`
+export interface ExchangeRates {
+  base: string;
+  rates: Record<string, number>;
+}
+
 export interface Contact {
   id: string;
   name: string;
@@ -52,10 +133,37 @@ export interface Document {
   uploadDate: string;
   fileSize?: number;
   mimeType?: string;
-  content?: string; // Base64 encoded content for local storage
   jobId?: string; // Link to specific job application
 }
 
+export type StageCategory = "active" | "closed-won" | "closed-lost";
+export type StageColor =
+  | "blue"
+  | "sky"
+  | "teal"
+  | "green"
+  | "yellow"
+  | "orange"
+  | "red"
+  | "pink"
+  | "purple"
+  | "gray";
+
+// Data a stage asks for when an application moves into it
+export type StageRequirement = "interviewDate" | "reason";
+
+// One column of the user's pipeline
+export interface PipelineStage {
+  id: string; // what JobApplication.status stores; kept on rename
+  name: string;
+  color: StageColor;
+  category: StageCategory;
+  order: number;
+  next?: string[]; // stage ids it may move on to; any stage when unset
+  requires?: StageRequirement[];
+  wipLimit?: number; // the board warns when more applications sit here
+}
+
 export type JobStatus = JobApplication["status"];
 export type JobType = JobApplication["jobType"];
 export type WorkMode = JobApplication["workMode"];
@@ -89,6 +197,20 @@ export interface FilterPreset {
   createdDate: string;
 }
 
+export interface ExportFieldSet {
+  id: string;
+  name: string;
+  fields: string[]; // export field ids, in column order
+  createdDate: string;
+}
+
+// Column order, visibility and sort keys for the table view
+export interface TableLayout {
+  columns: string[]; // table column ids, in display order
+  hidden: string[];
+  sort: { column: string; order: "asc" | "desc" }[]; // first key wins
+}
+
 export interface SortOptions {
   field:
     | "appliedDate"